@@ -7,8 +7,8 @@ import NotFound from "./pages/NotFound";
 const App = () => (
   <Routes>
     <Route path="/" element={<Index />} />
-    <Route path="/view" element={<ViewPage />} />
-    <Route path="/editor" element={<EditorPage />} />
+    <Route path="/view/:workflowId?/:version?" element={<ViewPage />} />
+    <Route path="/editor/:workflowId?" element={<EditorPage />} />
     <Route path="*" element={<NotFound />} />
   </Routes>
 );
@@ -1,5 +1,6 @@
 import React from 'react';
 import { BaseEdge, getSmoothStepPath, getBezierPath, type EdgeProps } from '@xyflow/react';
+import { getRoundedPath, getRoutePoints, type PortSide } from '../utils/singleView/edgeRouting';
 
 /**
  * Animated Edge Component with flowing SVG elements
@@ -19,9 +20,18 @@ export function AnimatedEdge({
 }: EdgeProps) {
   const isAnimated = data?.isAnimated || false;
   const edgeType = data?.edgeType || 'bezier';
+  const waypoints = data?.waypoints as Array<{ x: number; y: number }> | undefined;
   
-  // Generate the appropriate path based on edge type
-  const [edgePath] = edgeType === 'smoothstep' 
+  // Generate the appropriate path: the orthogonal route when there is one, else by edge type
+  const [edgePath] = waypoints
+    ? getRoundedPath(getRoutePoints(
+        { x: sourceX, y: sourceY },
+        sourcePosition as PortSide,
+        waypoints,
+        { x: targetX, y: targetY },
+        targetPosition as PortSide
+      ))
+    : edgeType === 'smoothstep' 
     ? getSmoothStepPath({
         sourceX,
         sourceY,
@@ -29,6 +39,7 @@ export function AnimatedEdge({
         targetX,
         targetY,
         targetPosition,
+        offset: data?.stepOffset as number | undefined,  // Distance loops keep from the nodes
       })
     : getBezierPath({
         sourceX,
@@ -0,0 +1,25 @@
+import type { EdgeRouting } from '../models/singleView/nodeTypes';
+
+interface EdgeRoutingSelectProps {
+  value?: EdgeRouting;
+  onChange: (routing: EdgeRouting) => void;
+  className?: string;
+}
+
+/**
+ * Picks how edges are drawn: bezier curves, bundled curves or orthogonal routes around the nodes
+ */
+export const EdgeRoutingSelect = ({ value, onChange, className }: EdgeRoutingSelectProps) => (
+  <select
+    value={value ?? 'bezier'}
+    onChange={(e) => onChange(e.target.value as EdgeRouting)}
+    className={className || 'px-2 py-1 text-sm rounded-md border border-gray-300 bg-gray-100 text-gray-700'}
+    title="How edges are drawn"
+  >
+    <option value="bezier">〰️ Curved edges</option>
+    <option value="bundled">🪢 Bundled edges</option>
+    <option value="orthogonal">📐 Orthogonal edges</option>
+  </select>
+);
+
+EdgeRoutingSelect.displayName = 'EdgeRoutingSelect';
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import {
+  createDiagramImage,
+  DiagramImageFormat,
+  DiagramSnapshot,
+} from '../utils/singleView/diagramImage';
+import { downloadBlob } from '../utils/singleView/download';
+import { slugifyWorkflowName } from '../repositories/workflowRepository';
+
+interface ExportImageButtonProps {
+  // Called on export so the image shows the canvas as it is now
+  getSnapshot: () => DiagramSnapshot;
+  menuPlacement?: 'below' | 'above';
+  className?: string;
+}
+
+const imageFormats: Array<{ format: DiagramImageFormat; label: string }> = [
+  { format: 'svg', label: 'SVG (vector)' },
+  { format: 'png', label: 'PNG' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+const scales = [1, 2, 3, 4];
+
+/**
+ * Exports the diagram as an image, with the workflow name, description and legend
+ */
+export const ExportImageButton = ({ getSnapshot, menuPlacement = 'below', className }: ExportImageButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scale, setScale] = useState(2);
+  const [focusedOnly, setFocusedOnly] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasFocus = isOpen && !!getSnapshot().focusedNodeIds?.length;
+
+  const handleExport = async (format: DiagramImageFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      setError(null);
+      const snapshot = getSnapshot();
+      const blob = await createDiagramImage(snapshot, format, { scale, focusedOnly: focusedOnly && hasFocus });
+      downloadBlob(blob, `${slugifyWorkflowName(snapshot.workflow.name || snapshot.workflow.id)}.${format}`);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className={className || 'px-3 py-1 text-sm font-medium rounded-md border border-gray-300 bg-gray-100 text-gray-700 hover:opacity-80 disabled:opacity-50'}
+      >
+        {isExporting ? '⏳ Exporting…' : '🖼️ Image'}
+      </button>
+      {isOpen && (
+        <div className={`absolute z-20 w-56 bg-white ${
+          menuPlacement === 'above' ? 'left-0 bottom-full mb-1' : 'right-0 mt-1'
+        } border border-gray-300 rounded-md shadow-lg py-1`}>
+          {imageFormats.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {label} <span className="text-gray-400">.{format}</span>
+            </button>
+          ))}
+          <div className="border-t border-gray-200 mt-1 px-3 py-2 space-y-2 text-xs text-gray-600">
+            <label className="flex items-center justify-between gap-2">
+              <span>PNG/PDF scale</span>
+              <select
+                value={scale}
+                onChange={event => setScale(Number(event.target.value))}
+                className="border border-gray-300 rounded px-1 py-0.5"
+              >
+                {scales.map(value => <option key={value} value={value}>{value}×</option>)}
+              </select>
+            </label>
+            <label className={`flex items-center gap-2 ${hasFocus ? '' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={focusedOnly && hasFocus}
+                disabled={!hasFocus}
+                onChange={event => setFocusedOnly(event.target.checked)}
+              />
+              <span>Focused subgraph only</span>
+            </label>
+          </div>
+        </div>
+      )}
+      {error && <div className="text-xs text-red-600 mt-1">Export failed: {error}</div>}
+    </div>
+  );
+};
+
+ExportImageButton.displayName = 'ExportImageButton';
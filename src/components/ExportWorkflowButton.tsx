@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { WorkflowData } from '../models/singleView/nodeTypes';
+import { WorkflowFormatId } from '../models/singleView/importExport';
+import { exportWorkflow, listWorkflowExporters } from '../utils/singleView/formats';
+import { downloadTextFile } from '../utils/singleView/download';
+
+interface ExportWorkflowButtonProps {
+  // Called on export so the snapshot includes the current canvas (layout included)
+  getWorkflow: () => WorkflowData;
+  menuPlacement?: 'below' | 'above';
+  className?: string;
+}
+
+/**
+ * Menu of every registered export format; the chosen one is downloaded as a file
+ */
+export const ExportWorkflowButton = ({ getWorkflow, menuPlacement = 'below', className }: ExportWorkflowButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: WorkflowFormatId) => {
+    setIsOpen(false);
+    try {
+      setError(null);
+      const { content, fileName, mimeType } = exportWorkflow(getWorkflow(), format);
+      downloadTextFile(content, fileName, mimeType);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={className || 'px-3 py-1 text-sm font-medium rounded-md border border-gray-300 bg-gray-100 text-gray-700 hover:opacity-80'}
+      >
+        📤 Export
+      </button>
+      {isOpen && (
+        <div className={`absolute z-20 w-48 bg-white ${
+          menuPlacement === 'above' ? 'left-0 bottom-full mb-1' : 'right-0 mt-1'
+        } border border-gray-300 rounded-md shadow-lg py-1`}>
+          {listWorkflowExporters().map(exporter => (
+            <button
+              key={exporter.format}
+              onClick={() => handleExport(exporter.format)}
+              className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {exporter.label} <span className="text-gray-400">.{exporter.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <div className="text-xs text-red-600 mt-1">Export failed: {error}</div>}
+    </div>
+  );
+};
+
+ExportWorkflowButton.displayName = 'ExportWorkflowButton';
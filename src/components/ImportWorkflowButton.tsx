@@ -0,0 +1,57 @@
+import { useRef, useState } from 'react';
+import { importWorkflow, listWorkflowImporters, WorkflowImportOutcome } from '../utils/singleView/formats';
+
+interface ImportWorkflowButtonProps {
+  onImport: (outcome: WorkflowImportOutcome) => void;
+  className?: string;
+}
+
+/**
+ * Opens a file picker for any registered import format and hands back the validated workflow
+ */
+export const ImportWorkflowButton = ({ onImport, className }: ImportWorkflowButtonProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const accept = listWorkflowImporters()
+    .flatMap(importer => importer.extensions)
+    .map(extension => `.${extension}`)
+    .join(',');
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';  // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      setError(null);
+      onImport(importWorkflow(await file.text(), { fileName: file.name }));
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError));
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => inputRef.current?.click()}
+        className={className || 'px-3 py-1 text-sm font-medium rounded-md border border-gray-300 bg-gray-100 text-gray-700 hover:opacity-80'}
+        title={`Import ${listWorkflowImporters().map(importer => importer.label).join(', ')}`}
+      >
+        📥 Import
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      {error && (
+        <span className="text-sm text-red-600" title={error}>Import failed: {error}</span>
+      )}
+    </>
+  );
+};
+
+ImportWorkflowButton.displayName = 'ImportWorkflowButton';
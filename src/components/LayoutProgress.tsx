@@ -0,0 +1,20 @@
+interface LayoutProgressProps {
+  nodeCount: number;
+  className?: string;
+}
+
+/**
+ * Shown while the layout worker is placing the nodes
+ */
+export const LayoutProgress = ({ nodeCount, className }: LayoutProgressProps) => (
+  <div
+    role="status"
+    aria-live="polite"
+    className={`flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm ${className || ''}`}
+  >
+    <div className="w-4 h-4 rounded-full border-2 border-gray-300 border-t-blue-600 animate-spin" />
+    Laying out {nodeCount.toLocaleString()} nodes…
+  </div>
+);
+
+LayoutProgress.displayName = 'LayoutProgress';
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Textarea } from '@/components/ui/textarea';
+import { importWorkflow, listWorkflowImporters, WorkflowImportOutcome } from '../utils/singleView/formats';
+
+interface PasteWorkflowButtonProps {
+  onImport: (outcome: WorkflowImportOutcome) => void;
+  align?: 'start' | 'end';
+  className?: string;
+}
+
+/**
+ * Imports a pasted document (e.g. a Mermaid diagram copied from a design doc);
+ * the format is detected from the content
+ */
+export const PasteWorkflowButton = ({ onImport, align = 'end', className }: PasteWorkflowButtonProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = () => {
+    try {
+      setError(null);
+      onImport(importWorkflow(text));
+      setText('');
+      setIsOpen(false);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError));
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={className || 'px-3 py-1 text-sm font-medium rounded-md border border-gray-300 bg-gray-100 text-gray-700 hover:opacity-80'}
+          title="Paste a diagram or workflow document"
+        >
+          📋 Paste
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align={align} className="w-96 space-y-2">
+        <div className="text-sm font-medium text-gray-700">Paste a diagram</div>
+        <Textarea
+          value={text}
+          onChange={event => setText(event.target.value)}
+          placeholder={'flowchart LR\n  draft("Draft") --> submit["Submit"]'}
+          className="min-h-[160px] font-mono text-xs"
+          autoFocus
+        />
+        <div className="text-xs text-gray-500">
+          Supported: {listWorkflowImporters().map(importer => importer.label).join(', ')}
+        </div>
+        {error && <div className="text-xs text-red-600">Import failed: {error}</div>}
+        <div className="flex justify-end">
+          <button
+            onClick={handleImport}
+            disabled={!text.trim()}
+            className="px-3 py-1 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+PasteWorkflowButton.displayName = 'PasteWorkflowButton';
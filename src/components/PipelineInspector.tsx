@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import { PipelineCollectionDiff, PipelineStage, PipelineStageDiff } from '../models/singleView/pipeline';
+import { PipelineRecorder, diffPipelineStages, pipelineStages } from '../utils/singleView/pipelineTrace';
+import { usePipelineDebug, usePipelineTrace } from '../hooks/singleView/usePipelineTrace';
+
+interface PipelineInspectorProps {
+  recorder: PipelineRecorder;
+  className?: string;
+}
+
+// Stage outputs can be whole workflows; the preview stops here
+const MAX_PREVIEW_LENGTH = 20000;
+
+const formatDuration = (durationMs: number) =>
+  durationMs < 1 ? `${(durationMs * 1000).toFixed(0)} µs` : `${durationMs.toFixed(1)} ms`;
+
+// Layout outputs hold Maps, which JSON.stringify would print as {}
+const previewJson = (data: unknown) => {
+  const json = JSON.stringify(
+    data,
+    (_, value) => (value instanceof Map ? Object.fromEntries(value) : value),
+    2
+  ) ?? String(data);
+  return json.length > MAX_PREVIEW_LENGTH ? `${json.slice(0, MAX_PREVIEW_LENGTH)}\n… truncated` : json;
+};
+
+const DiffLine = ({ name, diff }: { name: string; diff: PipelineCollectionDiff }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const total = diff.added.length + diff.removed.length + diff.changed.length;
+
+  if (total === 0) {
+    return <div className="text-gray-500">{name}: unchanged</div>;
+  }
+
+  return (
+    <div>
+      <button onClick={() => setIsExpanded(!isExpanded)} className="text-left hover:underline">
+        {name}:
+        {diff.added.length > 0 && <span className="ml-2 text-green-700">+{diff.added.length}</span>}
+        {diff.removed.length > 0 && <span className="ml-2 text-red-700">−{diff.removed.length}</span>}
+        {diff.changed.length > 0 && <span className="ml-2 text-amber-700">~{diff.changed.length}</span>}
+      </button>
+      {isExpanded && (
+        <ul className="ml-3 mt-1 space-y-0.5 font-mono">
+          {diff.added.map(id => <li key={`+${id}`} className="text-green-700">+ {id}</li>)}
+          {diff.removed.map(id => <li key={`-${id}`} className="text-red-700">− {id}</li>)}
+          {diff.changed.map(id => <li key={`~${id}`} className="text-amber-700">~ {id}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const StageCard = ({
+  label,
+  stage,
+  previousLabel,
+  diff,
+}: {
+  label: string;
+  stage?: PipelineStage;
+  previousLabel?: string;
+  diff?: PipelineStageDiff;
+}) => {
+  const [showData, setShowData] = useState(false);
+  const preview = useMemo(() => (showData && stage ? previewJson(stage.data) : ''), [showData, stage]);
+
+  if (!stage) {
+    return (
+      <li className="px-4 py-3 text-gray-400">
+        <div className="font-medium">{label}</div>
+        <div className="text-xs">Not run in this view</div>
+      </li>
+    );
+  }
+
+  return (
+    <li className="px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-800">{label}</span>
+        <span className="text-xs text-gray-500">{formatDuration(stage.durationMs)}</span>
+      </div>
+
+      {stage.error && <div className="text-xs text-red-700">⛔ {stage.error}</div>}
+
+      {Object.keys(stage.counts).length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(stage.counts).map(([name, count]) => (
+            <span key={name} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+              {count} {name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {stage.details && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-2 text-xs text-gray-600">
+          {Object.entries(stage.details).map(([name, value]) => (
+            <div key={name} className="contents">
+              <dt className="text-gray-500">{name}</dt>
+              <dd className="font-mono truncate">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {diff && previousLabel && (diff.nodes || diff.edges) && (
+        <div className="text-xs text-gray-700 border-l-2 border-gray-200 pl-2">
+          <div className="text-gray-500 mb-0.5">Compared with {previousLabel.toLowerCase()}</div>
+          {diff.nodes && <DiffLine name="Nodes" diff={diff.nodes} />}
+          {diff.edges && <DiffLine name="Edges" diff={diff.edges} />}
+        </div>
+      )}
+
+      {!stage.error && (
+        <button onClick={() => setShowData(!showData)} className="text-xs text-blue-600 hover:underline">
+          {showData ? 'Hide output' : 'Show output'}
+        </button>
+      )}
+      {showData && (
+        <pre className="max-h-64 overflow-auto p-2 text-[11px] leading-snug bg-gray-50 border border-gray-200 rounded">
+          {preview}
+        </pre>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Drawer showing each step from backend payload to canvas, with timings, counts and the
+ * differences between consecutive stages. Only offered while pipeline debugging is on
+ */
+export const PipelineInspector = ({ recorder, className }: PipelineInspectorProps) => {
+  const [isDebugEnabled, setDebugEnabled] = usePipelineDebug();
+  const [isOpen, setIsOpen] = useState(false);
+  const trace = usePipelineTrace(recorder);
+
+  // Each recorded stage is compared with the closest recorded stage before it
+  const diffs = useMemo(() => {
+    if (!isOpen) return [];
+    let previous: { label: string; stage: PipelineStage } | undefined;
+    return pipelineStages.map(({ id, label }) => {
+      const stage = trace[id];
+      if (!stage || stage.error) return {};
+      const entry = previous && { previousLabel: previous.label, diff: diffPipelineStages(previous.stage, stage) };
+      previous = { label, stage };
+      return entry ?? {};
+    });
+  }, [isOpen, trace]);
+
+  if (!isDebugEnabled) {
+    return null;
+  }
+
+  const totalMs = pipelineStages.reduce((total, { id }) => total + (trace[id]?.durationMs ?? 0), 0);
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={className || 'px-3 py-1 text-sm font-medium rounded-md border border-gray-300 bg-gray-100 text-gray-700 hover:opacity-80'}
+      >
+        🔬 Inspector
+      </button>
+      {isOpen && (
+        <aside className="fixed top-0 right-0 z-50 h-full w-[28rem] max-w-full bg-white border-l border-gray-300 shadow-xl flex flex-col text-sm">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <div>
+              <div className="font-semibold text-gray-800">Data pipeline</div>
+              <div className="text-xs text-gray-500">{formatDuration(totalMs)} across recorded stages</div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  setDebugEnabled(false);
+                }}
+                className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-600 hover:bg-gray-50"
+              >
+                Turn off debugging
+              </button>
+              <button onClick={() => setIsOpen(false)} className="px-2 py-1 text-gray-500 hover:text-gray-800">
+                ✖
+              </button>
+            </div>
+          </div>
+          <ol className="flex-1 overflow-y-auto divide-y divide-gray-100">
+            {pipelineStages.map(({ id, label }, index) => (
+              <StageCard key={id} label={label} stage={trace[id]} {...diffs[index]} />
+            ))}
+          </ol>
+        </aside>
+      )}
+    </>
+  );
+};
+
+PipelineInspector.displayName = 'PipelineInspector';
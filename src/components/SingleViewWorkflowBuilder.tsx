@@ -9,52 +9,132 @@ import {
   Connection,
   Edge,
   Node,
+  Viewport,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 
-import { useWorkflowDataHttp } from '../hooks/singleView/useWorkflowDataHttp';
+import { useNavigate } from 'react-router-dom';
+import { useWorkflowData } from '../hooks/singleView/useWorkflowData';
+import { useWorkflowRepository } from '../hooks/singleView/useWorkflowRepository';
+import { findAvailableWorkflowKey } from '../repositories/workflowRepository';
 import { StatusNode } from '../nodes/StatusNode';
 import { EventNode } from '../nodes/EventNode';
 import { AnimatedEdge } from '../edges/AnimatedEdge';
 import { calculateFocusMode, calculateEdgeFocusMode, applyFocusModeStyling, hasMultipleConnections, type FocusModeResult } from '../utils/focusMode';
-import { transformWorkflowData, validateWorkflowData, mockWorkflows, defaultWorkflow } from '../utils/singleView/workflowDataUtils';
-import { calculateSmartLayout, defaultLayoutConfig } from '../utils/singleView/layout-utils';
+import { validateWorkflowData } from '../utils/singleView/workflowDataUtils';
+import { WorkflowProblemsPanel } from './WorkflowProblemsPanel';
+import { resolveNodeLayout, defaultLayoutConfig } from '../utils/singleView/layout-utils';
+import { WorkflowImportOutcome } from '../utils/singleView/formats';
+import { invalidateWorkflowCache } from '../utils/singleView/workflowCache';
+import type { DiagramSnapshot } from '../utils/singleView/diagramImage';
+import { usePipelineRecorder } from '../hooks/singleView/usePipelineTrace';
+import { measureStep, type MeasuredStep } from '../utils/singleView/pipelineTrace';
+import { useMeasuredNodeSizes } from '../hooks/singleView/useMeasuredNodeSizes';
+import { useSwimlaneBands } from '../hooks/singleView/useSwimlaneBands';
+import { useEdgeRoutes } from '../hooks/singleView/useEdgeRoutes';
+import { useEdgeLabelPositions } from '../hooks/singleView/useEdgeLabelPositions';
+import { useEdgeSeparation } from '../hooks/singleView/useEdgeSeparation';
+import { ImportWorkflowButton } from './ImportWorkflowButton';
+import { PasteWorkflowButton } from './PasteWorkflowButton';
+import { ExportWorkflowButton } from './ExportWorkflowButton';
+import { ExportImageButton } from './ExportImageButton';
+import { PipelineInspector } from './PipelineInspector';
+import { SwimlaneBackground } from './SwimlaneBackground';
+import { SwimlaneSelect } from './SwimlaneSelect';
+import type { ViewerSelection } from '../hooks/singleView/useViewerUrlState';
+import type { LayoutConfig, SwimlaneKey, WorkflowData } from '../models/singleView/nodeTypes';
+import type { ValidationResult } from '../models/singleView/diagnostics';
 
 export interface SingleViewWorkflowBuilderProps {
   workflowId: string;
+  version?: string;
+  initialSelection?: ViewerSelection;       // Restored from a shared link
+  initialViewport?: Viewport;               // Restored from a shared link, otherwise fit to view
+  onSelectionChange?: (selection: ViewerSelection) => void;
+  onViewportChange?: (viewport: Viewport) => void;
 }
 
-export const SingleViewWorkflowBuilder = ({ workflowId }: SingleViewWorkflowBuilderProps) => {
-  const fallbackWorkflowId = workflowId || defaultWorkflow;
-  
+export const SingleViewWorkflowBuilder = ({
+  workflowId,
+  version,
+  initialSelection,
+  initialViewport,
+  onSelectionChange,
+  onViewportChange,
+}: SingleViewWorkflowBuilderProps) => {
   const {
     data: workflowData,
     error,
     isError,
+    isNotFound,
     isLoading,
-    isFetching
-  } = useWorkflowDataHttp(fallbackWorkflowId);
+    isFetching,
+    isRemote,
+    refetch
+  } = useWorkflowData(workflowId, { version });
   
   const [isInitialized, setIsInitialized] = useState(false);
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(initialSelection?.nodeId ?? null);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(initialSelection?.edgeId ?? null);
   const [hideWhileSelection, setHideWhileSelection] = useState(true);
   
   // State for focus mode
   const [focusMode, setFocusMode] = useState<FocusModeResult | null>(null);
   const [focusModeTimeout, setFocusModeTimeout] = useState<NodeJS.Timeout | null>(null);
   
-  // Current workflow data (either external or mock)
-  const currentWorkflowData = useMemo(() => {
-    if (workflowData) {
-      return validateWorkflowData(transformWorkflowData(workflowData));
+  // An imported document is shown in place of the stored workflow until it's saved
+  const navigate = useNavigate();
+  const repository = useWorkflowRepository();
+  const [imported, setImported] = useState<WorkflowImportOutcome | null>(null);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+
+  // Current workflow data from the configured repository, plus any problems found in it.
+  // Repositories return mapped workflows, so the inspector shows no separate transform step
+  const recorder = usePipelineRecorder();
+  const validationStep = useMemo((): MeasuredStep<ValidationResult> | null => {
+    if (imported) {
+      return { output: { data: imported.workflow, diagnostics: imported.diagnostics }, durationMs: 0 };
+    }
+    return workflowData ? measureStep(() => validateWorkflowData(workflowData)) : null;
+  }, [workflowData, imported]);
+  const validation = validationStep && 'output' in validationStep ? validationStep.output : null;
+
+  useEffect(() => {
+    recorder.clear('raw', 'transformed');
+    if (!validationStep) {
+      recorder.clear('validated');
+      return;
+    }
+    if (!imported) recorder.record('raw', workflowData);
+    recorder.recordStep('validated', validationStep);
+    if ('error' in validationStep) {
+      console.error('❌ Error validating workflow data:', validationStep.error);
     }
-    return validateWorkflowData(mockWorkflows[fallbackWorkflowId] || mockWorkflows[defaultWorkflow]);
-  }, [workflowData, fallbackWorkflowId]);
+  }, [validationStep, workflowData, imported, recorder]);
+  const currentWorkflowData = validation?.data ?? null;
+
+  const isLoadFailure = !currentWorkflowData && !isLoading && isError;
   
   // React Flow state
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  // Laid out by estimated sizes first, and again once React Flow has measured the nodes
+  const [measuredSizes, onMeasuredNodesChange] = useMeasuredNodeSizes(onNodesChange);
+
+  // Swimlanes: the workflow's saved setting until the user picks one
+  const [swimlaneChoice, setSwimlaneChoice] = useState<{ key?: SwimlaneKey } | null>(null);
+  const savedLayoutConfig = currentWorkflowData?.layout?.config;
+  const swimlaneKey = swimlaneChoice ? swimlaneChoice.key : savedLayoutConfig?.swimlaneKey;
+  const layoutConfig = useMemo<LayoutConfig>(
+    () => ({ ...defaultLayoutConfig, ...savedLayoutConfig, swimlaneKey }),
+    [savedLayoutConfig, swimlaneKey]
+  );
+  const lanes = useSwimlaneBands(currentWorkflowData, nodes, layoutConfig);
+  // Orthogonal routes when the workflow asks for them, following dragged nodes
+  const edgeRoutes = useEdgeRoutes(edges, nodes, layoutConfig, currentWorkflowData?.layout);
+  // Otherwise curves, fanned out at busy nodes
+  const edgeOffsets = useEdgeSeparation(edges, nodes, layoutConfig);
+  const labelPositions = useEdgeLabelPositions(edges, nodes, layoutConfig, edgeRoutes, edgeOffsets);
   
   // Node types for React Flow
   const nodeTypes = useMemo(() => ({
@@ -69,63 +149,81 @@ export const SingleViewWorkflowBuilder = ({ workflowId }: SingleViewWorkflowBuil
   
   // Convert workflow data to React Flow format
   const convertToReactFlowFormat = useCallback((workflowData: any) => {
-    const layout = calculateSmartLayout(workflowData, defaultLayoutConfig);
+    const { positions } = recorder.run('layout', () => resolveNodeLayout(workflowData, layoutConfig, measuredSizes));
     
-    const flowNodes: Node[] = workflowData.nodes.map((node: any) => {
-      const position = layout.positions.get(node.id) || { x: 0, y: 0 };
+    return recorder.run('reactFlow', () => {
+      const flowNodes: Node[] = workflowData.nodes.map((node: any) => {
+        const position = positions.get(node.id) || { x: 0, y: 0 };
       
-      return {
-        id: node.id,
-        type: node.type,
-        position,
-        data: { label: node.label },
+        return {
+          id: node.id,
+          type: node.type,
+          position,
+          data: { label: node.label },
+          style: {
+            background: 'transparent',
+            border: 'none',
+          },
+        };
+      });
+    
+      const flowEdges: Edge[] = workflowData.edges.map((edge: any) => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        type: 'animated',
+        animated: true,
+        label: edge.label || '',
         style: {
-          background: 'transparent',
-          border: 'none',
+          stroke: '#94a3b8',
+          strokeWidth: 2,
         },
-      };
-    });
-    
-    const flowEdges: Edge[] = workflowData.edges.map((edge: any) => ({
-      id: edge.id,
-      source: edge.source,
-      target: edge.target,
-      type: 'animated',
-      animated: true,
-      label: edge.label || '',
-      style: {
-        stroke: '#94a3b8',
-        strokeWidth: 2,
-      },
-      markerEnd: {
-        type: 'arrowclosed',
-        width: 20,
-        height: 20,
-        color: '#94a3b8',
-      },
-    }));
+        markerEnd: {
+          type: 'arrowclosed',
+          width: 20,
+          height: 20,
+          color: '#94a3b8',
+        },
+      }));
     
-    return { nodes: flowNodes, edges: flowEdges };
-  }, []);
+      return { nodes: flowNodes, edges: flowEdges };
+    });
+  }, [recorder, layoutConfig, measuredSizes]);
   
-  // Initialize workflow data
+  // Initialize workflow data, and re-layout whenever a fresher definition arrives
   useEffect(() => {
-    if (currentWorkflowData && !isInitialized) {
+    if (currentWorkflowData) {
       const { nodes: flowNodes, edges: flowEdges } = convertToReactFlowFormat(currentWorkflowData);
       setNodes(flowNodes);
       setEdges(flowEdges);
       setIsInitialized(true);
     }
-  }, [currentWorkflowData, convertToReactFlowFormat, setNodes, setEdges, isInitialized]);
+  }, [currentWorkflowData, convertToReactFlowFormat, setNodes, setEdges]);
+  
+  // Report selection changes so the page can keep them in the URL
+  useEffect(() => {
+    onSelectionChange?.({ nodeId: selectedNodeId, edgeId: selectedEdgeId });
+  }, [selectedNodeId, selectedEdgeId, onSelectionChange]);
   
   // Apply focus mode styling to nodes and edges
   const { processedNodes, processedEdges } = useMemo(() => {
-    const { styledNodes, styledEdges } = applyFocusModeStyling(nodes, edges, focusMode);
+    const selectedNodes = nodes.map(node => ({ ...node, selected: node.id === selectedNodeId }));
+    const selectedEdges = edges.map(edge => ({
+      ...edge,
+      selected: edge.id === selectedEdgeId,
+      data: {
+        ...edge.data,
+        ...(edgeRoutes && { waypoints: edgeRoutes.get(edge.id) }),
+        ...(edgeOffsets && { separation: edgeOffsets.get(edge.id) }),
+        labelPosition: labelPositions.get(edge.id),
+      },
+    }));
+    const { styledNodes, styledEdges } = applyFocusModeStyling(selectedNodes, selectedEdges, focusMode);
     return {
       processedNodes: styledNodes,
       processedEdges: styledEdges
     };
-  }, [nodes, edges, focusMode]);
+  }, [nodes, edges, edgeRoutes, edgeOffsets, labelPositions, focusMode, selectedNodeId, selectedEdgeId]);
   
   // Handle node selection and focus mode
   useEffect(() => {
@@ -193,6 +291,79 @@ export const SingleViewWorkflowBuilder = ({ workflowId }: SingleViewWorkflowBuil
   const onConnect = useCallback((params: Connection) => {
     setEdges((eds) => addEdge(params, eds));
   }, [setEdges]);
+
+  const handleImport = useCallback((outcome: WorkflowImportOutcome) => {
+    setImported(outcome);
+    setImportStatus(null);
+    setSelectedNodeId(null);
+    setSelectedEdgeId(null);
+  }, []);
+
+  // The workflow as currently laid out on the canvas, for export
+  const getDisplayedWorkflow = useCallback((): WorkflowData => ({
+    ...currentWorkflowData!,
+    layout: {
+      positions: Object.fromEntries(nodes.map(node => [node.id, { x: node.position.x, y: node.position.y }])),
+      ...(currentWorkflowData?.layout?.config && { config: currentWorkflowData.layout.config }),
+      ...(edgeRoutes && { edgeRoutes: Object.fromEntries(edgeRoutes) }),
+    },
+  }), [currentWorkflowData, nodes, edgeRoutes]);
+
+  // Image export snapshot; the focused subgraph follows the selection even after the highlight fades
+  const getDiagramSnapshot = useCallback((): DiagramSnapshot => {
+    const focus = selectedNodeId
+      ? calculateFocusMode(selectedNodeId, nodes, edges)
+      : selectedEdgeId ? calculateEdgeFocusMode(selectedEdgeId, nodes, edges) : null;
+    return {
+      workflow: getDisplayedWorkflow(),
+      focusedNodeIds: focus?.focusedNodes.map(node => node.id),
+    };
+  }, [getDisplayedWorkflow, selectedNodeId, selectedEdgeId, nodes, edges]);
+
+  // Stores the imported workflow under a new key and switches to it
+  const saveImported = useCallback(async () => {
+    if (!imported) return;
+    setImportStatus('Saving…');
+    try {
+      const key = await findAvailableWorkflowKey(repository, imported.workflow.name);
+      await repository.save(key, imported.workflow);
+      invalidateWorkflowCache(key);
+      navigate(`/view/${encodeURIComponent(key)}`);
+    } catch (saveError) {
+      setImportStatus(`Save failed: ${saveError instanceof Error ? saveError.message : String(saveError)}`);
+    }
+  }, [imported, repository, navigate]);
+  
+  if (isNotFound || isLoadFailure) {
+    return (
+      <div className="relative w-full h-[calc(100vh-60px)] flex items-center justify-center">
+        <div className="flex flex-col items-center justify-center h-96 gap-3 text-center">
+          <div className="text-4xl">{isNotFound ? '🔍' : '⚠️'}</div>
+          <div className="text-lg font-semibold text-gray-800">
+            {isNotFound ? 'Workflow not found' : 'Could not load workflow'}
+          </div>
+          <div className="text-sm text-gray-600 max-w-md">
+            {isNotFound
+              ? <>There is no workflow with id <code className="px-1 bg-gray-100 rounded">{workflowId}</code>{version ? ` (version ${version})` : ''}.</>
+              : error?.message}
+          </div>
+          <div className="flex gap-2">
+            {isLoadFailure && (
+              <button
+                onClick={() => refetch()}
+                className="px-3 py-1 text-sm font-medium rounded-md border border-gray-300 bg-gray-100 text-gray-700 hover:opacity-80"
+              >
+                🔄 Retry
+              </button>
+            )}
+            <a href="/" className="px-3 py-1 text-sm text-blue-500 hover:text-blue-700 underline">
+              Return to Home
+            </a>
+          </div>
+        </div>
+      </div>
+    );
+  }
   
   if (!currentWorkflowData || !isInitialized) {
     return (
@@ -207,7 +378,7 @@ export const SingleViewWorkflowBuilder = ({ workflowId }: SingleViewWorkflowBuil
   return (
     <div className="flex flex-col h-screen w-full bg-gray-50">
       {/* Hide While Selection Toggle */}
-      <div className="p-4 bg-white border-b border-gray-200">
+      <div className="p-4 bg-white border-b border-gray-200 flex items-center gap-4">
         <button
           onClick={() => setHideWhileSelection(!hideWhileSelection)}
           className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
@@ -218,16 +389,66 @@ export const SingleViewWorkflowBuilder = ({ workflowId }: SingleViewWorkflowBuil
         >
           {hideWhileSelection ? '👁️ Hide While Selection' : '👁️‍🗨️ Show All'}
         </button>
+
+        {/* Remote data status */}
+        {isError && (
+          <span className="text-sm text-red-600">
+            Could not refresh workflow{error ? `: ${error.message}` : ''} — showing cached data
+          </span>
+        )}
+        {isFetching && !isLoading && (
+          <span className="text-sm text-gray-500">Refreshing…</span>
+        )}
+        {/* Imported document */}
+        {imported && (
+          <>
+            <span className="text-sm text-gray-600">
+              Viewing imported {imported.format.toUpperCase()} “{imported.workflow.name}” — not saved
+            </span>
+            <button
+              onClick={saveImported}
+              className="px-3 py-1 text-sm font-medium rounded-md border border-blue-300 bg-blue-100 text-blue-700 hover:opacity-80"
+            >
+              💾 Save to catalog
+            </button>
+            <button
+              onClick={() => setImported(null)}
+              className="px-3 py-1 text-sm font-medium rounded-md border border-gray-300 bg-gray-100 text-gray-700 hover:opacity-80"
+            >
+              ✖ Close import
+            </button>
+            {importStatus && <span className="text-sm text-gray-600">{importStatus}</span>}
+          </>
+        )}
+
+        <div className="ml-auto flex items-center gap-2">
+          <SwimlaneSelect value={swimlaneKey} onChange={(key) => setSwimlaneChoice({ key })} />
+          <ImportWorkflowButton onImport={handleImport} />
+          <PasteWorkflowButton onImport={handleImport} />
+          <ExportWorkflowButton getWorkflow={getDisplayedWorkflow} />
+          <ExportImageButton getSnapshot={getDiagramSnapshot} />
+          <PipelineInspector recorder={recorder} />
+        </div>
+        {isRemote && !imported && (
+          <button
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="px-3 py-1 text-sm font-medium rounded-md border border-gray-300 bg-gray-100 text-gray-700 hover:opacity-80 disabled:opacity-50"
+          >
+            🔄 Refresh
+          </button>
+        )}
       </div>
 
       {/* Main Workflow Canvas */}
       <div className="flex-1 p-4">
         <div className="relative w-full h-full border-2 border-gray-300 bg-white rounded-lg shadow-sm">
           <ReactFlow
+            key={imported ? `imported-${imported.workflow.id}` : 'stored'}
             nodes={processedNodes}
             edges={processedEdges}
             onNodeClick={onNodeClick}
-            onNodesChange={onNodesChange}
+            onNodesChange={onMeasuredNodesChange}
             onEdgesChange={onEdgesChange}
             onEdgeClick={onEdgeClick}
             onConnect={onConnect}
@@ -249,12 +470,14 @@ export const SingleViewWorkflowBuilder = ({ workflowId }: SingleViewWorkflowBuil
                 color: '#94a3b8',
               },
             }}
-            fitView
+            fitView={!initialViewport || !!imported}
             fitViewOptions={{
               padding: 0.2,
               maxZoom: 1.5,
               minZoom: 0.1,
             }}
+            defaultViewport={initialViewport}
+            onMoveEnd={(_, viewport) => onViewportChange?.(viewport)}
             minZoom={0.1}
             maxZoom={2}
             attributionPosition="top-right"
@@ -265,6 +488,7 @@ export const SingleViewWorkflowBuilder = ({ workflowId }: SingleViewWorkflowBuil
               gap={20}
               size={1}
             />
+            <SwimlaneBackground lanes={lanes} />
             
             {/* React Flow Controls */}
             <Controls
@@ -275,6 +499,21 @@ export const SingleViewWorkflowBuilder = ({ workflowId }: SingleViewWorkflowBuil
               showInteractive={true}
             />
           </ReactFlow>
+
+          {/* Validation problems */}
+          <div className="absolute bottom-4 left-4 z-10">
+            <WorkflowProblemsPanel
+              diagnostics={validation?.diagnostics ?? []}
+              onSelectNode={(nodeId) => {
+                setSelectedNodeId(nodeId);
+                setSelectedEdgeId(null);
+              }}
+              onSelectEdge={(edgeId) => {
+                setSelectedEdgeId(edgeId);
+                setSelectedNodeId(null);
+              }}
+            />
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,41 @@
+import { ViewportPortal } from '@xyflow/react';
+import type { Swimlane } from '../utils/singleView/swimlaneLayout';
+
+interface SwimlaneBackgroundProps {
+  lanes: Swimlane[];
+}
+
+// Alternating tints, so neighbouring lanes stay apart
+const laneStyles = [
+  'bg-sky-50/80 border-sky-200 text-sky-800',
+  'bg-emerald-50/80 border-emerald-200 text-emerald-800',
+  'bg-violet-50/80 border-violet-200 text-violet-800',
+  'bg-orange-50/80 border-orange-200 text-orange-800',
+];
+
+/**
+ * Lane backgrounds with their headers, drawn in canvas coordinates behind edges and nodes
+ * Must be rendered inside <ReactFlow>
+ */
+export const SwimlaneBackground = ({ lanes }: SwimlaneBackgroundProps) => (
+  <ViewportPortal>
+    {lanes.map((lane, index) => (
+      <div
+        key={lane.id}
+        className={`absolute left-0 top-0 border rounded-lg pointer-events-none ${laneStyles[index % laneStyles.length]}`}
+        style={{
+          transform: `translate(${lane.x}px, ${lane.y}px)`,
+          width: lane.width,
+          height: lane.height,
+          zIndex: -1,
+        }}
+      >
+        <div className="absolute top-2 left-3 max-w-[8rem] truncate text-xs font-semibold uppercase tracking-wide" title={lane.label}>
+          {lane.label}
+        </div>
+      </div>
+    ))}
+  </ViewportPortal>
+);
+
+SwimlaneBackground.displayName = 'SwimlaneBackground';
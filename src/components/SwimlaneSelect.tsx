@@ -0,0 +1,27 @@
+import type { SwimlaneKey } from '../models/singleView/nodeTypes';
+import { swimlaneKeyOptions } from '../utils/singleView/swimlaneLayout';
+
+interface SwimlaneSelectProps {
+  value?: SwimlaneKey;
+  onChange: (key: SwimlaneKey | undefined) => void;
+  className?: string;
+}
+
+/**
+ * Picks the metadata key the canvas is divided into swimlanes by, or none
+ */
+export const SwimlaneSelect = ({ value, onChange, className }: SwimlaneSelectProps) => (
+  <select
+    value={value ?? ''}
+    onChange={(e) => onChange((e.target.value || undefined) as SwimlaneKey | undefined)}
+    className={className || 'px-2 py-1 text-sm rounded-md border border-gray-300 bg-gray-100 text-gray-700'}
+    title="Group the canvas into swimlanes"
+  >
+    <option value="">🏊 No lanes</option>
+    {swimlaneKeyOptions.map(({ key, label }) => (
+      <option key={key} value={key}>🏊 Lanes by {label.toLowerCase()}</option>
+    ))}
+  </select>
+);
+
+SwimlaneSelect.displayName = 'SwimlaneSelect';
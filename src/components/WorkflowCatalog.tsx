@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useWorkflowCatalog } from '../hooks/singleView/useWorkflowCatalog';
+import { WorkflowSummary } from '../models/singleView/nodeTypes';
+
+type SortKey = 'name' | 'updated' | 'size';
+
+const sortOptions: Array<{ value: SortKey; label: string }> = [
+  { value: 'updated', label: 'Last modified' },
+  { value: 'name', label: 'Name' },
+  { value: 'size', label: 'Size (nodes)' },
+];
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+
+/**
+ * Formats an ISO timestamp as "3 days ago", falling back to a dash when unknown
+ */
+const formatLastModified = (updatedAt?: string) => {
+  const time = updatedAt ? Date.parse(updatedAt) : NaN;
+  if (Number.isNaN(time)) return '—';
+
+  const seconds = Math.round((time - Date.now()) / 1000);
+  const units: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+    ['year', 31536000],
+    ['month', 2592000],
+    ['day', 86400],
+    ['hour', 3600],
+    ['minute', 60],
+  ];
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) {
+      return relativeTimeFormat.format(Math.round(seconds / size), unit);
+    }
+  }
+  return relativeTimeFormat.format(seconds, 'second');
+};
+
+const compareWorkflows = (sortKey: SortKey) => (a: WorkflowSummary, b: WorkflowSummary) => {
+  switch (sortKey) {
+    case 'name':
+      return a.name.localeCompare(b.name);
+    case 'size':
+      return b.nodeCount - a.nodeCount;
+    case 'updated':
+    default:
+      // Most recent first; entries without a timestamp sink to the bottom
+      return (Date.parse(b.updatedAt || '') || 0) - (Date.parse(a.updatedAt || '') || 0);
+  }
+};
+
+/**
+ * Searchable, sortable list of every workflow in the data source
+ */
+export const WorkflowCatalog = () => {
+  const navigate = useNavigate();
+  const { workflows, error, isLoading, refetch } = useWorkflowCatalog();
+  const [search, setSearch] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('updated');
+
+  const visibleWorkflows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return workflows
+      .filter(workflow => !query ||
+        workflow.name.toLowerCase().includes(query) ||
+        workflow.description.toLowerCase().includes(query) ||
+        workflow.key.toLowerCase().includes(query))
+      .sort(compareWorkflows(sortKey));
+  }, [workflows, search, sortKey]);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search workflows..."
+          className="bg-white border-gray-300 flex-1"
+        />
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as SortKey)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {sortOptions.map(option => (
+            <option key={option.value} value={option.value}>Sort by: {option.label}</option>
+          ))}
+        </select>
+        <Button onClick={() => navigate('/editor')} className="gap-2">
+          ✏️ New Workflow
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md flex items-center justify-between">
+          <span>Could not load workflows: {error.message}</span>
+          <button onClick={() => refetch()} className="underline hover:text-red-900">Retry</button>
+        </div>
+      )}
+
+      {/* Workflow list */}
+      <div className="bg-white border border-gray-200 rounded-lg shadow-sm divide-y divide-gray-200">
+        {isLoading && workflows.length === 0 && (
+          <div className="p-6 text-center text-gray-600">Loading workflows...</div>
+        )}
+
+        {!isLoading && visibleWorkflows.length === 0 && (
+          <div className="p-6 text-center text-gray-600">
+            {search ? 'No workflows match your search.' : 'No workflows available yet.'}
+          </div>
+        )}
+
+        {visibleWorkflows.map(workflow => (
+          <div key={workflow.key} className="p-4 flex flex-col sm:flex-row sm:items-center gap-4 text-left">
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold text-gray-900 truncate">{workflow.name}</div>
+              <div className="text-sm text-gray-600 line-clamp-2">{workflow.description}</div>
+              <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                <span>{workflow.nodeCount} nodes</span>
+                <span>{workflow.edgeCount} edges</span>
+                <span title={workflow.updatedAt}>Modified {formatLastModified(workflow.updatedAt)}</span>
+              </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" onClick={() => navigate(`/view/${encodeURIComponent(workflow.key)}`)}>
+                👁️ View
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => navigate(`/editor/${encodeURIComponent(workflow.key)}`)}>
+                ✏️ Edit
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+WorkflowCatalog.displayName = 'WorkflowCatalog';
@@ -1,4 +1,5 @@
-import React, { useState, useCallback, useMemo, memo } from 'react';
+import React, { useState, useCallback, useMemo, memo, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   ReactFlow,
   addEdge,
@@ -8,8 +9,11 @@ import {
   useNodesState,
   useEdgesState,
   Connection,
+  ConnectionLineComponentProps,
   Edge,
   Node,
+  FinalConnectionState,
+  ReactFlowInstance,
   ReactFlowProvider,
   BackgroundVariant,
   Handle,
@@ -27,13 +31,49 @@ import {
 
 import { Add } from '@mui/icons-material';
 import { AnimatedEdge } from '../edges/AnimatedEdge';
+import { RuleConnectionLine } from '../edges/RuleConnectionLine';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { calculateSmartLayout } from '../utils/singleView/layout-utils';
-import { WorkflowData } from '../models/singleView/nodeTypes';
+import { calculateSmartLayout, defaultLayoutConfig, getStoredPositions, resolveNodePositions } from '../utils/singleView/layout-utils';
+import { estimateNodeSize, getMeasuredNodeSizes } from '../utils/singleView/nodeSizing';
+import { getNextLayerPosition, getPlacedBoxes, placeNewNode } from '../utils/singleView/incrementalLayout';
+import { WorkflowImportOutcome } from '../utils/singleView/formats';
+import { validateWorkflowData } from '../utils/singleView/workflowDataUtils';
+import { invalidateWorkflowCache } from '../utils/singleView/workflowCache';
+import { calculateFocusMode } from '../utils/focusMode';
+import type { DiagramSnapshot } from '../utils/singleView/diagramImage';
+import { useWorkflowData } from '../hooks/singleView/useWorkflowData';
+import { useWorkflowRepository } from '../hooks/singleView/useWorkflowRepository';
+import { useNodePositionAnimation } from '../hooks/singleView/useNodePositionAnimation';
+import { useSwimlaneBands } from '../hooks/singleView/useSwimlaneBands';
+import { useEdgeRoutes } from '../hooks/singleView/useEdgeRoutes';
+import { useEdgeLabelPositions } from '../hooks/singleView/useEdgeLabelPositions';
+import { useEdgeSeparation } from '../hooks/singleView/useEdgeSeparation';
+import { findAvailableWorkflowKey } from '../repositories/workflowRepository';
+import { EdgeRouting, EventMetadata, LayoutConfig, StatusMetadata, SwimlaneKey, WorkflowData, WorkflowNode } from '../models/singleView/nodeTypes';
+import { WorkflowDiagnostic } from '../models/singleView/diagnostics';
+import {
+  ConnectionRuleMode,
+  ConnectionRules,
+  NodeKind,
+  checkConnection,
+  createIntermediateNode,
+  defaultConnectionRules,
+  findConnectionViolations,
+  splitEdge,
+} from '../utils/singleView/connectionRules';
+import { getEventMetadata, getStatusMetadata } from '../utils/singleView/nodeMetadata';
+import { WorkflowProblemsPanel } from './WorkflowProblemsPanel';
+import { ImportWorkflowButton } from './ImportWorkflowButton';
+import { PasteWorkflowButton } from './PasteWorkflowButton';
+import { ExportWorkflowButton } from './ExportWorkflowButton';
+import { ExportImageButton } from './ExportImageButton';
+import { SwimlaneBackground } from './SwimlaneBackground';
+import { SwimlaneSelect } from './SwimlaneSelect';
+import { EdgeRoutingSelect } from './EdgeRoutingSelect';
 
 interface WorkflowEditorProps {
   workflowId?: string;
@@ -46,6 +86,14 @@ interface ComponentPaletteItem {
   description: string;
 }
 
+// Connection dropped on a node the rules don't allow, waiting for the user to fix or dismiss it
+interface RejectedConnection {
+  source: string;
+  target: string;
+  message: string;
+  intermediateType?: NodeKind;
+}
+
 interface NodeEditingState {
   name: string;
   businessEventName?: string;
@@ -111,11 +159,116 @@ const businessEventOptions = [
   'Review'
 ];
 
+/**
+ * Side panel state for a node, restored from the metadata saved on it
+ */
+const editingStateFromNode = (
+  type: WorkflowNode['type'],
+  label: string,
+  metadata?: WorkflowNode['metadata']
+): NodeEditingState => {
+  if (type === 'status') {
+    const statusMetadata = getStatusMetadata({ type, metadata });
+    return {
+      name: label,
+      description: statusMetadata?.description || '',
+      showSecondPage: false
+    };
+  }
+
+  const eventMetadata = getEventMetadata({ type, metadata });
+  return {
+    name: label,
+    businessEventName: eventMetadata?.businessEventName ?? label,
+    focalEntity: eventMetadata?.focalEntity ?? focalEntityOptions[0],
+    description: eventMetadata?.description || '',
+    createdEntities: eventMetadata?.createdEntities ?? [],
+    modifiedEntities: eventMetadata?.modifiedEntities ?? [],
+    businessEvents: eventMetadata?.businessEvents ?? [],
+    condition: eventMetadata?.condition ?? 'None',
+    triggerAutomatic: eventMetadata?.trigger?.automatic ?? true,
+    triggerExternal: eventMetadata?.trigger?.external ?? false,
+    showSecondPage: false
+  };
+};
+
+/**
+ * Metadata stored on a node when the side panel is saved
+ */
+const metadataFromEditingState = (
+  type: WorkflowNode['type'],
+  state: NodeEditingState
+): EventMetadata | StatusMetadata | undefined => {
+  if (type === 'status') {
+    return state.description ? { description: state.description } : undefined;
+  }
+  return {
+    businessEventName: state.businessEventName,
+    focalEntity: state.focalEntity,
+    description: state.description,
+    createdEntities: state.createdEntities,
+    modifiedEntities: state.modifiedEntities,
+    businessEvents: state.businessEvents,
+    condition: state.condition,
+    trigger: {
+      automatic: !!state.triggerAutomatic,
+      external: !!state.triggerExternal
+    }
+  };
+};
+
+interface ChipSelectProps {
+  placeholder: string;
+  options: string[];
+  values: string[];
+  onChange: (values: string[]) => void;
+}
+
+/**
+ * Dropdown that adds picks to a removable chip list
+ */
+const ChipSelect = ({ placeholder, options, values, onChange }: ChipSelectProps) => (
+  <>
+    <select
+      value=""
+      onChange={(e) => e.target.value && onChange([...values, e.target.value])}
+      className="w-full bg-gray-700 border border-gray-600 rounded px-4 py-3 text-white h-12 mb-3"
+    >
+      <option value="">{placeholder}</option>
+      {options.filter(option => !values.includes(option)).map(option => (
+        <option key={option} value={option}>{option}</option>
+      ))}
+    </select>
+    {values.length > 0 && (
+      <div className="flex flex-wrap gap-2 mb-3">
+        {values.map(value => (
+          <span key={value} className="flex items-center gap-1 bg-gray-600 rounded-full px-3 py-1 text-xs">
+            {value}
+            <button
+              onClick={() => onChange(values.filter(v => v !== value))}
+              className="text-gray-300 hover:text-white"
+              title={`Remove ${value}`}
+            >
+              <Close className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+    )}
+  </>
+);
+
 export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
+  const navigate = useNavigate();
+
   // Workflow metadata
   const [workflowName, setWorkflowName] = useState('Hypo Loan Position');
   const [workflowDescription, setWorkflowDescription] = useState('');
   const [autoPositioning, setAutoPositioning] = useState(true);
+  const [swimlaneKey, setSwimlaneKey] = useState<SwimlaneKey | undefined>();
+  const [edgeRouting, setEdgeRouting] = useState<EdgeRouting | undefined>();
+  const [connectionRules, setConnectionRules] = useState<ConnectionRules>(defaultConnectionRules);
+  const [rejectedConnection, setRejectedConnection] = useState<RejectedConnection | null>(null);
   
   // Selected node for editing
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
@@ -136,21 +289,133 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
   // React Flow state
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  // Workflow laid out by estimated node sizes, laid out again once its nodes are measured
+  const pendingMeasuredLayoutRef = useRef<WorkflowData | null>(null);
+  const animateNodesTo = useNodePositionAnimation(setNodes);
+  // Set once React Flow is ready; converts drop points to canvas coordinates
+  const flowInstanceRef = useRef<Pick<ReactFlowInstance, 'screenToFlowPosition'> | null>(null);
+
+  // Existing workflow to edit (when opened from the catalog)
+  const repository = useWorkflowRepository();
+  const { data: storedWorkflow } = useWorkflowData(workflowId ?? '');
+  const sourceWorkflow = useMemo(
+    () => (storedWorkflow ? validateWorkflowData(storedWorkflow).data : null),
+    [storedWorkflow]
+  );
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+
+  // Layered layout unless the workflow was saved with other layout settings
+  const layoutConfig = useMemo<LayoutConfig>(
+    () => ({ ...defaultLayoutConfig, ...sourceWorkflow?.layout?.config, swimlaneKey, edgeRouting }),
+    [sourceWorkflow, swimlaneKey, edgeRouting]
+  );
+  // Orthogonal routes, recomputed as nodes move; the saved ones while nothing has moved
+  const edgeRoutes = useEdgeRoutes(edges, nodes, layoutConfig, sourceWorkflow?.layout);
+  // Curved edges fan out at busy nodes instead
+  const edgeOffsets = useEdgeSeparation(edges, nodes, layoutConfig);
+  const labelPositions = useEdgeLabelPositions(edges, nodes, layoutConfig, edgeRoutes, edgeOffsets);
+
+  // Edge whose label is being edited on the canvas
+  const [editingEdgeId, setEditingEdgeId] = useState<string | null>(null);
+  const changeEdgeLabel = useCallback((edgeId: string, label: string) => {
+    setEdges((eds) => eds.map(edge => (edge.id === edgeId ? { ...edge, label: label.trim() } : edge)));
+    setEditingEdgeId(null);
+  }, [setEdges]);
+  const cancelEdgeLabelEdit = useCallback(() => setEditingEdgeId(null), []);
+
+  const displayedEdges = useMemo(
+    () => edges.map(edge => ({
+      ...edge,
+      data: {
+        ...edge.data,
+        ...(edgeRoutes && { waypoints: edgeRoutes.get(edge.id) }),
+        ...(edgeOffsets && { separation: edgeOffsets.get(edge.id) }),
+        labelPosition: labelPositions.get(edge.id),
+        isEditingLabel: edge.id === editingEdgeId,
+        onEditLabel: setEditingEdgeId,
+        onLabelChange: changeEdgeLabel,
+        onLabelEditCancel: cancelEdgeLabelEdit,
+      },
+    })),
+    [edges, edgeRoutes, edgeOffsets, labelPositions, editingEdgeId, changeEdgeLabel, cancelEdgeLabelEdit]
+  );
+
+  // Problems reported by the last import (unsupported elements, repairs)
+  const [importDiagnostics, setImportDiagnostics] = useState<WorkflowDiagnostic[]>([]);
+
+  // Replaces the canvas with a workflow, using its stored layout when it has one
+  const loadWorkflowIntoCanvas = useCallback((workflow: WorkflowData) => {
+    const positions = resolveNodePositions(workflow);
+    pendingMeasuredLayoutRef.current = getStoredPositions(workflow) ? null : workflow;
+    setWorkflowName(workflow.name);
+    setWorkflowDescription(workflow.description);
+    setSwimlaneKey(workflow.layout?.config?.swimlaneKey);
+    setEdgeRouting(workflow.layout?.config?.edgeRouting);
+    setNodes(workflow.nodes.map(node => ({
+      id: node.id,
+      type: node.type,
+      position: positions.get(node.id) || { x: 0, y: 0 },
+      data: { label: node.label, metadata: node.metadata },
+    })));
+    setEdges(workflow.edges.map(edge => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      label: edge.label,
+      type: 'animated',
+    })));
+    setSelectedNode(null);
+    const savedMode = workflow.editor?.connectionRuleMode;
+    if (savedMode) {
+      setConnectionRules(prev => ({ ...prev, mode: savedMode }));
+    }
+  }, [setNodes, setEdges]);
+
+  // Second layout pass for a freshly loaded workflow, once React Flow has measured all its nodes
+  useEffect(() => {
+    const workflow = pendingMeasuredLayoutRef.current;
+    if (!workflow) return;
+    const measuredSizes = getMeasuredNodeSizes(nodes);
+    if (!workflow.nodes.every(node => measuredSizes.has(node.id))) return;
+    pendingMeasuredLayoutRef.current = null;
+    const positions = resolveNodePositions(workflow, defaultLayoutConfig, measuredSizes);
+    setNodes(current => current.map(node => {
+      const position = positions.get(node.id);
+      return position ? { ...node, position } : node;
+    }));
+  }, [nodes, setNodes]);
+
+  // Load the workflow into the canvas once - later revalidations must not clobber edits
+  const loadedWorkflowRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!sourceWorkflow || loadedWorkflowRef.current === workflowId) return;
+    loadedWorkflowRef.current = workflowId;
+    loadWorkflowIntoCanvas(sourceWorkflow);
+  }, [sourceWorkflow, workflowId, loadWorkflowIntoCanvas]);
+
+  // Imported documents replace the canvas; they're only stored once saved
+  const handleImport = useCallback((outcome: WorkflowImportOutcome) => {
+    loadWorkflowIntoCanvas(outcome.workflow);
+    // Connection rule violations are tracked live below
+    setImportDiagnostics(outcome.diagnostics.filter(diagnostic => diagnostic.code !== 'INVALID_CONNECTION'));
+    setSaveStatus(`Imported ${outcome.workflow.nodes.length} nodes from ${outcome.format.toUpperCase()} - not saved yet`);
+  }, [loadWorkflowIntoCanvas]);
 
   // Node types for React Flow
   // Inline Status Node Component
   const StatusNodeComponent = memo(({ data, selected, id }: any) => {
     const handleAddAlternate = (e: React.MouseEvent) => {
       e.stopPropagation();
+      // From data, which always carries the current callback; nodeTypes keeps the first render's closure
       if (id) {
-        addAlternateNode(id);
+        data.onAddAlternate?.(id);
       }
     };
 
     return (
       <div className="relative group">
         <div className={`
-          w-20 h-20 rounded-full border-2 flex items-center justify-center text-center text-sm font-medium shadow-lg
+          min-w-20 max-w-40 aspect-square p-2 rounded-full border-2 flex items-center justify-center text-center text-sm font-medium shadow-lg
           ${selected ? 'border-blue-500 bg-blue-50 shadow-blue-200' : 'border-amber-400 bg-gradient-to-br from-amber-50 to-amber-100'}
           hover:shadow-xl hover:scale-105 transition-all duration-300 cursor-pointer
         `}>
@@ -176,14 +441,14 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
     const handleAddAlternate = (e: React.MouseEvent) => {
       e.stopPropagation();
       if (id) {
-        addAlternateNode(id);
+        data.onAddAlternate?.(id);
       }
     };
 
     return (
       <div className="relative group">
         <div className={`
-          w-24 h-16 border-2 flex items-center justify-center text-center text-sm font-medium shadow-lg rounded-lg
+          min-w-24 max-w-64 min-h-16 py-2 border-2 flex items-center justify-center text-center text-sm font-medium shadow-lg rounded-lg
           ${selected ? 'border-blue-500 bg-blue-50 shadow-blue-200' : 'border-slate-400 bg-gradient-to-br from-slate-50 to-slate-100'}
           hover:shadow-xl hover:scale-105 transition-all duration-300 cursor-pointer
         `}>
@@ -214,8 +479,8 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
     animated: AnimatedEdge,
   }), []);
 
-  // Smart layout positioning
-  const handleSmartLayout = useCallback(() => {
+  // Tidy: the full smart layout, with the nodes gliding to their new places
+  const handleSmartLayout = useCallback((config: LayoutConfig = layoutConfig) => {
     if (nodes.length === 0) return;
 
     const workflowData: WorkflowData = {
@@ -225,7 +490,9 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
       nodes: nodes.map(node => ({
         id: node.id,
         type: node.type as 'status' | 'event',
-        label: node.data?.label || 'Untitled'
+        label: node.data?.label || 'Untitled',
+        // Swimlanes group by metadata
+        ...(node.data?.metadata ? { metadata: node.data.metadata as WorkflowNode['metadata'] } : {})
       })),
       edges: edges.map(edge => ({
         id: edge.id,
@@ -235,53 +502,118 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
       }))
     };
 
-    const layout = calculateSmartLayout(workflowData);
-    
-    const updatedNodes = nodes.map(node => {
-      const position = layout.positions.get(node.id);
-      if (position) {
-        return {
-          ...node,
-          position: { x: position.x, y: position.y }
-        };
-      }
-      return node;
-    });
+    const layout = calculateSmartLayout(workflowData, config, getMeasuredNodeSizes(nodes));
+    animateNodesTo(layout.positions);
+  }, [nodes, edges, workflowName, workflowDescription, layoutConfig, animateNodesTo]);
+
+  // A new grouping key rebuilds the lanes, and with them the layout
+  const changeSwimlaneKey = useCallback((key: SwimlaneKey | undefined) => {
+    setSwimlaneKey(key);
+    handleSmartLayout({ ...layoutConfig, swimlaneKey: key });
+  }, [layoutConfig, handleSmartLayout]);
+
+  // Where a new node goes, given where it belongs (top-left corner). With auto-positioning on it
+  // takes the nearest free spot, and other nodes only move when there is none
+  const positionNewNode = useCallback((type: NodeKind, label: string, preferred: { x: number; y: number }) => {
+    if (!autoPositioning) {
+      return { position: preferred, moved: new Map<string, { x: number; y: number }>() };
+    }
+    const size = estimateNodeSize({ type, label }, layoutConfig);
+    return placeNewNode(getPlacedBoxes(nodes, layoutConfig), size, preferred, layoutConfig);
+  }, [autoPositioning, nodes, layoutConfig]);
 
-    setNodes(updatedNodes);
-  }, [nodes, edges, workflowName, workflowDescription, setNodes]);
+  // Adds a node placed by positionNewNode; the nodes that made room for it glide aside
+  const addPositionedNode = useCallback((newNode: Node, moved: Map<string, { x: number; y: number }>) => {
+    setNodes((nds) => nds.concat(newNode));
+    animateNodesTo(moved);
+  }, [setNodes, animateNodesTo]);
 
   // Handle node clicks for editing
   const onNodeClick = useCallback((_: unknown, node: Node) => {
     setSelectedNode(node);
-    const nodeData = node.data as { label?: string };
-    
-    if (node.type === 'status') {
-      setEditingState({
-        name: nodeData.label || '',
-      });
-    } else if (node.type === 'event') {
-      setEditingState({
-        name: nodeData.label || '',
-        businessEventName: nodeData.label || '',
-        focalEntity: focalEntityOptions[0],
-        description: 'FLUME stages commitment data in PMF database.',
-        createdEntities: ['Loan Commitment'],
-        modifiedEntities: [],
-        businessEvents: [nodeData.label || ''],
-        condition: 'None',
-        triggerAutomatic: true,
-        triggerExternal: false,
-        showSecondPage: false
-      });
+    const nodeData = node.data as { label?: string; metadata?: WorkflowNode['metadata'] };
+
+    if (node.type === 'status' || node.type === 'event') {
+      setEditingState(editingStateFromNode(node.type, nodeData.label || '', nodeData.metadata));
     }
   }, []);
 
+  // Checks a prospective source → target connection against the connection rules
+  const getConnectionCheck = useCallback((sourceId: string, targetId: string) => {
+    const source = nodes.find(node => node.id === sourceId);
+    const target = nodes.find(node => node.id === targetId);
+    if (!source || !target) return { valid: true };
+    return checkConnection(source.type as NodeKind, target.type as NodeKind, connectionRules);
+  }, [nodes, connectionRules]);
+
+  // Rejects invalid connections while dragging in 'enforce' mode; 'warn' mode lets them through
+  const isValidConnection = useCallback((connection: Edge | Connection) => (
+    connectionRules.mode !== 'enforce' || getConnectionCheck(connection.source, connection.target).valid
+  ), [connectionRules.mode, getConnectionCheck]);
+
+  // The line being dragged shows rule violations before the drop, in 'enforce' and 'warn' mode alike
+  const connectionLine = useCallback((props: ConnectionLineComponentProps) => (
+    <RuleConnectionLine {...props} rules={connectionRules} />
+  ), [connectionRules]);
+
   // Handle new connections
   const onConnect = useCallback((params: Connection) => {
+    setRejectedConnection(null);
     setEdges((eds) => addEdge({ ...params, type: 'animated' }, eds));
   }, [setEdges]);
 
+  // A drop on a node the rules reject gets an offer to insert the missing node instead
+  const onConnectEnd = useCallback((_: MouseEvent | TouchEvent, connectionState: FinalConnectionState) => {
+    const { isValid, fromNode, fromHandle, toNode } = connectionState;
+    if (isValid !== false || !fromNode || !toNode) return;
+
+    // Dragging from a target handle connects the other way round
+    const [source, target] = fromHandle?.type === 'target' ? [toNode, fromNode] : [fromNode, toNode];
+    const check = getConnectionCheck(source.id, target.id);
+    if (!check.valid) {
+      setRejectedConnection({
+        source: source.id,
+        target: target.id,
+        message: check.message || 'Connection not allowed',
+        intermediateType: check.intermediateType,
+      });
+    }
+  }, [getConnectionCheck]);
+
+  // Connects source → new node → target, replacing the direct edge when there is one
+  const insertIntermediateNode = useCallback((
+    type: NodeKind,
+    sourceId: string,
+    targetId: string,
+    replacedEdge?: Edge
+  ) => {
+    const source = nodes.find(node => node.id === sourceId);
+    const target = nodes.find(node => node.id === targetId);
+    if (!source || !target) return;
+
+    const label = typeof replacedEdge?.label === 'string' ? replacedEdge.label : '';
+    const intermediate = createIntermediateNode(type, { source: sourceId, target: targetId, label }, `${type}-${Date.now()}`);
+    // Halfway between the two endpoints
+    const { position, moved } = positionNewNode(type, intermediate.label, {
+      x: (source.position.x + target.position.x) / 2,
+      y: (source.position.y + target.position.y) / 2,
+    });
+    const newNode: Node = {
+      id: intermediate.id,
+      type,
+      position,
+      data: { label: intermediate.label },
+    };
+    const newEdges = splitEdge(
+      { id: replacedEdge?.id ?? `${sourceId}-${targetId}`, source: sourceId, target: targetId },
+      newNode.id
+    ).map(edge => ({ ...edge, type: 'animated' }));
+
+    addPositionedNode(newNode, moved);
+    setEdges((eds) => eds.filter(edge => edge.id !== replacedEdge?.id).concat(newEdges));
+    setRejectedConnection(null);
+  }, [nodes, positionNewNode, addPositionedNode, setEdges]);
+
   // Handle drag and drop from palette
   const onDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
@@ -297,58 +629,32 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
       return;
     }
 
-    const reactFlowBounds = (event.currentTarget as Element).getBoundingClientRect();
-    
-    // Calculate position with proper offset and ensure visibility
-    let position = {
-      x: Math.max(50, event.clientX - reactFlowBounds.left - 320),
-      y: Math.max(50, event.clientY - reactFlowBounds.top - 100),
-    };
+    const flowInstance = flowInstanceRef.current;
+    if (!flowInstance) return;
 
-    // If there are existing nodes, position new node to the right of the rightmost node
-    if (nodes.length > 0) {
-      const rightmostNode = nodes.reduce((rightmost, node) => 
-        node.position.x > rightmost.position.x ? node : rightmost
-      );
-      position = {
-        x: rightmostNode.position.x + 200,
-        y: rightmostNode.position.y
-      };
-    }
+    // Centred on the drop point
+    const kind: NodeKind = type === 'status' ? 'status' : 'event';
+    const label = kind === 'status' ? 'New State' : 'New Block';
+    const dropPoint = flowInstance.screenToFlowPosition({ x: event.clientX, y: event.clientY });
+    const size = estimateNodeSize({ type: kind, label }, layoutConfig);
+    const { position, moved } = positionNewNode(kind, label, {
+      x: dropPoint.x - size.width / 2,
+      y: dropPoint.y - size.height / 2,
+    });
 
     const newNode: Node = {
       id: `${Date.now()}`,
       type: type,
       position,
-      data: { 
-        label: type === 'status' ? 'New State' : 'New Block' 
-      },
+      data: { label },
     };
 
-    setNodes((nds) => nds.concat(newNode));
+    addPositionedNode(newNode, moved);
     
     // Auto-select the new node for immediate editing
     setSelectedNode(newNode);
-    if (type === 'status') {
-      setEditingState({
-        name: 'New State',
-        showSecondPage: false
-      });
-    } else {
-      setEditingState({
-        name: 'New Block',
-        businessEventName: 'New Block',
-        focalEntity: focalEntityOptions[0],
-        description: '',
-        createdEntities: [],
-        modifiedEntities: [],
-        businessEvents: ['New Block'],
-        condition: 'None',
-        triggerAutomatic: true,
-        triggerExternal: false
-      });
-    }
-  }, [setNodes]);
+    setEditingState(editingStateFromNode(kind, label));
+  }, [layoutConfig, positionNewNode, addPositionedNode]);
 
   // Handle drag start from palette
   const onDragStart = (event: React.DragEvent, nodeType: string) => {
@@ -366,7 +672,8 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
                 ...node, 
                 data: { 
                   ...node.data, 
-                  label: editingState.businessEventName || editingState.name || 'Unnamed'
+                  label: editingState.businessEventName || editingState.name || 'Unnamed',
+                  metadata: metadataFromEditingState(node.type as WorkflowNode['type'], editingState)
                 } 
               }
             : node
@@ -392,26 +699,29 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
     const sourceNode = nodes.find(n => n.id === sourceNodeId);
     if (!sourceNode) return;
     
-    // Position alternate node to the right of the source node with proper spacing
-    const alternatePosition = {
-      x: sourceNode.position.x + 200,
-      y: sourceNode.position.y
-    };
-    
     // Determine alternate type (opposite of source)
     const alternateType = sourceNode.type === 'status' ? 'event' : 'status';
+    const label = alternateType === 'status' ? 'New State' : 'New Event';
+    
+    // One layer after the source, beside any alternates it already has
+    const [sourceBox] = getPlacedBoxes([sourceNode], layoutConfig);
+    const { position, moved } = positionNewNode(
+      alternateType,
+      label,
+      getNextLayerPosition(sourceBox, estimateNodeSize({ type: alternateType, label }, layoutConfig), layoutConfig)
+    );
     
     const newNode: Node = {
       id: `${alternateType}-${Date.now()}`,
       type: alternateType,
-      position: alternatePosition,
+      position,
       data: { 
-        label: alternateType === 'status' ? 'New State' : 'New Event',
+        label,
         onAddAlternate: addAlternateNode
       },
     };
     
-    setNodes((nds) => nds.concat(newNode));
+    addPositionedNode(newNode, moved);
     
     // Create connection from source to alternate
     const newEdge = {
@@ -424,27 +734,97 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
     
     // Auto-select the new node for editing
     setSelectedNode(newNode);
-    if (alternateType === 'status') {
-      setEditingState({
-        name: 'New State',
-        showSecondPage: false
-      });
-    } else {
-      setEditingState({
-        name: 'New Event',
-        businessEventName: 'New Event',
-        focalEntity: focalEntityOptions[0],
-        description: '',
-        createdEntities: [],
-        modifiedEntities: [],
-        businessEvents: ['New Event'],
-        condition: 'None',
-        triggerAutomatic: true,
-        triggerExternal: false,
-        showSecondPage: false
-      });
+    setEditingState(editingStateFromNode(alternateType, label));
+  }, [nodes, layoutConfig, positionNewNode, addPositionedNode, setEdges]);
+
+  // Snapshot of the canvas in the shared workflow model
+  const buildWorkflowData = useCallback((): WorkflowData => ({
+    id: sourceWorkflow?.id || workflowId || `workflow-${Date.now()}`,
+    name: workflowName,
+    description: workflowDescription,
+    nodes: nodes.map(node => ({
+      id: node.id,
+      type: node.type as 'status' | 'event',
+      label: (node.data?.label as string) || 'Untitled',
+      ...(node.data?.metadata ? { metadata: node.data.metadata as WorkflowNode['metadata'] } : {})
+    })),
+    edges: edges.map(edge => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      label: typeof edge.label === 'string' ? edge.label : ''
+    })),
+    layout: {
+      positions: Object.fromEntries(nodes.map(node => [node.id, { x: node.position.x, y: node.position.y }])),
+      ...((sourceWorkflow?.layout?.config || swimlaneKey || edgeRouting) && {
+        config: { ...sourceWorkflow?.layout?.config, swimlaneKey, edgeRouting }
+      }),
+      ...(edgeRoutes && { edgeRoutes: Object.fromEntries(edgeRoutes) })
+    },
+    editor: { connectionRuleMode: connectionRules.mode }
+  }), [sourceWorkflow, workflowId, workflowName, workflowDescription, nodes, edges, swimlaneKey, edgeRouting, edgeRoutes, connectionRules.mode]);
+
+  // Lane backgrounds follow the nodes as they're dragged
+  const canvasWorkflow = useMemo(() => buildWorkflowData(), [buildWorkflowData]);
+  const lanes = useSwimlaneBands(canvasWorkflow, nodes, layoutConfig);
+
+  // Image export snapshot; the focused subgraph is the selected node and its neighbours
+  const getDiagramSnapshot = useCallback((): DiagramSnapshot => ({
+    workflow: buildWorkflowData(),
+    focusedNodeIds: selectedNode
+      ? calculateFocusMode(selectedNode.id, nodes, edges).focusedNodes.map(node => node.id)
+      : undefined,
+  }), [buildWorkflowData, selectedNode, nodes, edges]);
+
+  // Existing edges that break the connection rules
+  const connectionViolations = useMemo(
+    () => findConnectionViolations(buildWorkflowData(), connectionRules),
+    [buildWorkflowData, connectionRules]
+  );
+
+  const getViolationFix = useCallback((diagnostic: WorkflowDiagnostic) => {
+    const edge = edges.find(e => e.id === diagnostic.edgeIds[0]);
+    if (!edge) return undefined;
+    const { intermediateType } = getConnectionCheck(edge.source, edge.target);
+    if (!intermediateType) return undefined;
+    return {
+      label: `Insert ${intermediateType}`,
+      apply: () => insertIntermediateNode(intermediateType, edge.source, edge.target, edge),
+    };
+  }, [edges, getConnectionCheck, insertIntermediateNode]);
+
+  // Persist the canvas as a new version through the repository
+  const saveWorkflow = useCallback(async () => {
+    setSaveStatus('Saving…');
+    try {
+      const key = workflowId || await findAvailableWorkflowKey(repository, workflowName);
+      const saved = await repository.save(key, buildWorkflowData());
+      invalidateWorkflowCache(key);
+      setSaveStatus(`Saved version ${saved.version || 'latest'}`);
+      if (!workflowId) {
+        // Keep the canvas as-is while the URL switches to the stored workflow
+        loadedWorkflowRef.current = key;
+        navigate(`/editor/${encodeURIComponent(key)}`, { replace: true });
+      }
+    } catch (error) {
+      setSaveStatus(`Save failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [workflowId, workflowName, repository, buildWorkflowData, navigate]);
+
+  const deleteWorkflow = useCallback(async () => {
+    if (workflowId && !window.confirm(`Delete workflow "${workflowName}"? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      if (workflowId) {
+        await repository.delete(workflowId);
+        invalidateWorkflowCache(workflowId);
+      }
+      navigate('/');
+    } catch (error) {
+      setSaveStatus(`Delete failed: ${error instanceof Error ? error.message : String(error)}`);
     }
-  }, [nodes, setNodes, setEdges, focalEntityOptions]);
+  }, [workflowId, workflowName, repository, navigate]);
 
   return (
     <div className="h-screen flex bg-[#F5F5DC]">
@@ -452,7 +832,7 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
       <div className="w-80 bg-white border-r border-gray-300 flex flex-col">
         {/* Header */}
         <div className="p-4 border-b border-gray-300">
-          <button className="flex items-center text-gray-600 hover:text-gray-800 mb-4">
+          <button onClick={() => navigate('/')} className="flex items-center text-gray-600 hover:text-gray-800 mb-4">
             <KeyboardArrowLeft className="w-5 h-5 mr-1" />
             Back
           </button>
@@ -519,6 +899,20 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
             ))}
           </div>
 
+          {/* Connection rules */}
+          <div className="flex items-center justify-between mt-6">
+            <span className="text-sm font-bold text-gray-700">Connection rules</span>
+            <select
+              value={connectionRules.mode}
+              onChange={(e) => setConnectionRules(prev => ({ ...prev, mode: e.target.value as ConnectionRuleMode }))}
+              className="bg-gray-50 border border-gray-300 rounded px-2 py-1 text-sm"
+            >
+              <option value="enforce">Enforce</option>
+              <option value="warn">Warn</option>
+              <option value="off">Off</option>
+            </select>
+          </div>
+
           {/* Auto-positioning toggle */}
           <div className="flex items-center justify-between mt-6">
             <span className="text-sm font-bold text-gray-700">Auto-positioning</span>
@@ -535,19 +929,51 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
               />
             </button>
           </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {autoPositioning
+              ? 'New nodes go to the nearest free spot; others only move to make room.'
+              : 'New nodes go exactly where they are dropped.'}
+          </p>
+          <SwimlaneSelect
+            value={swimlaneKey}
+            onChange={changeSwimlaneKey}
+            className="w-full mt-3 bg-gray-50 border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <EdgeRoutingSelect
+            value={edgeRouting}
+            onChange={setEdgeRouting}
+            className="w-full mt-3 bg-gray-50 border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <Button
+            onClick={() => handleSmartLayout()}
+            disabled={nodes.length === 0}
+            variant="outline"
+            className="w-full mt-3 border-gray-400 text-gray-700"
+          >
+            🧹 Tidy layout
+          </Button>
         </div>
 
         {/* Action Buttons */}
         <div className="p-4 border-t border-gray-300 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <ImportWorkflowButton onImport={handleImport} />
+            <PasteWorkflowButton onImport={handleImport} align="start" />
+            <ExportWorkflowButton getWorkflow={buildWorkflowData} menuPlacement="above" />
+            <ExportImageButton getSnapshot={getDiagramSnapshot} menuPlacement="above" />
+          </div>
           <div className="flex gap-2">
-            <Button variant="outline" className="flex-1 border-gray-400 text-gray-700">
+            <Button onClick={saveWorkflow} variant="outline" className="flex-1 border-gray-400 text-gray-700">
               Save Draft
             </Button>
             <Button className="flex-1 bg-blue-600 hover:bg-blue-700">
               Publish Draft
             </Button>
           </div>
-          <Button variant="destructive" className="w-full flex items-center justify-center gap-2 text-red-600 border-red-300 bg-white hover:bg-red-50">
+          {saveStatus && (
+            <div className="text-xs text-gray-600 text-center">{saveStatus}</div>
+          )}
+          <Button onClick={deleteWorkflow} variant="destructive" className="w-full flex items-center justify-center gap-2 text-red-600 border-red-300 bg-white hover:bg-red-50">
             <Delete className="w-4 h-4" />
             Delete Workflow
           </Button>
@@ -565,15 +991,20 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
                 onAddAlternate: addAlternateNode
               }
             }))}
-            edges={edges}
+            edges={displayedEdges}
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
+            onEdgeDoubleClick={(_, edge) => setEditingEdgeId(edge.id)}
             onConnect={onConnect}
+            onConnectEnd={onConnectEnd}
+            isValidConnection={isValidConnection}
             onNodeClick={onNodeClick}
+            onInit={(instance) => { flowInstanceRef.current = instance; }}
             onDrop={onDrop}
             onDragOver={onDragOver}
             nodeTypes={nodeTypes}
             edgeTypes={edgeTypes}
+            connectionLineComponent={connectionLine}
             connectionLineStyle={{
               stroke: '#94a3b8',
               strokeWidth: 2,
@@ -599,6 +1030,7 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
             className="bg-[#F5F5DC]"
           >
             <Background variant={BackgroundVariant.Dots} color="#C0C0C0" gap={16} size={1} />
+            <SwimlaneBackground lanes={lanes} />
             <Controls 
               position="bottom-right"
               showZoom={true}
@@ -618,6 +1050,42 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
             />
           </ReactFlow>
         </ReactFlowProvider>
+
+        {/* Rejected connection - offer the missing intermediate node */}
+        {rejectedConnection && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 bg-white border border-amber-300 rounded-lg shadow-lg px-4 py-2 text-sm">
+            <span className="text-amber-800">
+              ⚠️ {rejectedConnection.message.charAt(0).toUpperCase() + rejectedConnection.message.slice(1)}
+            </span>
+            {rejectedConnection.intermediateType && (
+              <button
+                onClick={() => insertIntermediateNode(
+                  rejectedConnection.intermediateType!,
+                  rejectedConnection.source,
+                  rejectedConnection.target
+                )}
+                className="px-2 py-1 text-xs font-medium rounded-md border border-blue-300 bg-blue-50 text-blue-700 hover:bg-blue-100"
+              >
+                🔧 Insert {rejectedConnection.intermediateType}
+              </button>
+            )}
+            <button
+              onClick={() => setRejectedConnection(null)}
+              className="text-gray-400 hover:text-gray-700"
+              title="Dismiss"
+            >
+              <Close className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Connection rule violations */}
+        <div className="absolute bottom-4 left-4 z-10">
+          <WorkflowProblemsPanel
+            diagnostics={[...importDiagnostics, ...connectionViolations]}
+            getFix={getViolationFix}
+          />
+        </div>
       </div>
 
       {/* Right Sidebar - Node Editor */}
@@ -655,6 +1123,18 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
                     placeholder="Enter state name"
                   />
                 </div>
+
+                <div>
+                  <Label className="text-sm font-medium text-white mb-3 block">Description</Label>
+                  <Textarea
+                    value={editingState.description || ''}
+                    onChange={(e) => setEditingState(prev => ({ ...prev, description: e.target.value }))}
+                    className="bg-gray-700 border-gray-600 text-white min-h-[100px]"
+                    rows={3}
+                    maxLength={240}
+                    placeholder="What does this state mean?"
+                  />
+                </div>
               </>
             ) : (
               // Event Node Editor - Matches Figma exactly
@@ -663,12 +1143,12 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
                   <Label className="text-sm font-medium text-white mb-3 block">
                     Business Event(s) and/or Subworkflow(s)
                   </Label>
-                  <select className="w-full bg-gray-700 border border-gray-600 rounded px-4 py-3 text-white h-12">
-                    <option>Stage</option>
-                    {businessEventOptions.map(event => (
-                      <option key={event} value={event}>{event}</option>
-                    ))}
-                  </select>
+                  <ChipSelect
+                    placeholder="Select business events"
+                    options={businessEventOptions}
+                    values={editingState.businessEvents || []}
+                    onChange={(businessEvents) => setEditingState(prev => ({ ...prev, businessEvents }))}
+                  />
                 </div>
 
                 <div>
@@ -740,12 +1220,12 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
                       <Label className="text-sm font-medium text-white mb-3 block">Description</Label>
                       <div className="relative">
                         <Textarea
-                          value={editingState.description || 'PMF enriches hypo loan positions.'}
+                          value={editingState.description || ''}
                           onChange={(e) => setEditingState(prev => ({ ...prev, description: e.target.value }))}
                           className="bg-gray-700 border-gray-600 text-white pr-16 min-h-[120px]"
                           rows={4}
                           maxLength={240}
-                          placeholder="Enter description..."
+                          placeholder="PMF enriches hypo loan positions."
                         />
                         <div className="absolute bottom-3 right-3 text-xs text-gray-400">
                           {editingState.description?.length || 0}/240
@@ -755,23 +1235,23 @@ export const WorkflowEditor = ({ workflowId }: WorkflowEditorProps) => {
 
                     <div>
                       <Label className="text-sm font-medium text-white mb-3 block">Created Entities</Label>
-                      <select className="w-full bg-gray-700 border border-gray-600 rounded px-4 py-3 text-white h-12 mb-3">
-                        <option>Select created entities</option>
-                        {createdEntityOptions.map(entity => (
-                          <option key={entity} value={entity}>{entity}</option>
-                        ))}
-                      </select>
+                      <ChipSelect
+                        placeholder="Select created entities"
+                        options={createdEntityOptions}
+                        values={editingState.createdEntities || []}
+                        onChange={(createdEntities) => setEditingState(prev => ({ ...prev, createdEntities }))}
+                      />
                       <button className="text-cyan-400 text-sm hover:text-cyan-300 font-medium">Advanced Select</button>
                     </div>
 
                     <div>
                       <Label className="text-sm font-medium text-white mb-3 block">Modified Entities</Label>
-                      <select className="w-full bg-gray-700 border border-gray-600 rounded px-4 py-3 text-white h-12 mb-3">
-                        <option>Select modified entities</option>
-                        {modifiedEntityOptions.map(entity => (
-                          <option key={entity} value={entity}>{entity}</option>
-                        ))}
-                      </select>
+                      <ChipSelect
+                        placeholder="Select modified entities"
+                        options={modifiedEntityOptions}
+                        values={editingState.modifiedEntities || []}
+                        onChange={(modifiedEntities) => setEditingState(prev => ({ ...prev, modifiedEntities }))}
+                      />
                       <button className="text-cyan-400 text-sm hover:text-cyan-300 font-medium">Advanced Select</button>
                     </div>
                   </>
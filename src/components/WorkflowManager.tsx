@@ -16,569 +16,20 @@ import {
 import '@xyflow/react/dist/style.css';
 import { AnimatedEdge } from './AnimatedEdge';
 import { Button } from '@/components/ui/button';
-import { calculateEdgeOffsets } from '../utils/edgeSeparation';
+import { defaultLayoutConfig } from '@/utils/singleView/layout-utils';
+import { WorkflowLayout } from '@/utils/layoutWorkerProtocol';
 import { calculateFocusMode, calculateEdgeFocusMode, applyFocusModeStyling, hasMultipleConnections, type FocusModeResult } from '@/utils/focusMode';
-
-/**
- * ============= CORE TYPES & INTERFACES =============
- * These define the shape of our workflow data and nodes
- */
-
-// Core workflow data structure - represents a single workflow step
-export interface WorkflowNode {
-  id: string;
-  type: 'status' | 'event';  // Status = circular nodes, Event = rectangular nodes
-  label: string;
-}
-
-// Connection between workflow nodes
-export interface WorkflowEdge {
-  id: string;
-  source: string;  // ID of source node
-  target: string;  // ID of target node
-  label: string;
-}
-
-// Complete workflow definition
-export interface WorkflowData {
-  id: string;
-  name: string;
-  description: string;
-  nodes: WorkflowNode[];
-  edges: WorkflowEdge[];
-}
-
-// Raw data that might come from backend APIs (flexible structure)
-export interface RawWorkflowData {
-  [key: string]: any;
-}
-
-// Layout configuration for positioning nodes
-export interface LayoutConfig {
-  workflowWidth: number;
-  workflowHeight: number;
-  stageWidth: number;
-  stageHeight: number;
-  circleSize: number;
-  padding: number;
-  spacing: number;
-  isHorizontal: boolean;
-}
-
-/**
- * ============= MOCK DATA FOR DEMONSTRATION =============
- * Real-world examples showing how the workflow visualizer handles different scenarios
- */
-
-export const mockWorkflows: Record<string, WorkflowData> = {
-  'ebm-version': {
-    id: "f564cd67-2502-46a1-8494-4f61df616811",
-    name: "EBM Version",
-    description: "Workflow definition for grouping a set of applications",
-    nodes: [
-      { id: "s1", type: "status", label: "Start" },
-      { id: "s2", type: "status", label: "Created" },
-      { id: "ev1", type: "event", label: "Link" },
-      { id: "s3", type: "status", label: "Locked" },
-      { id: "ev2", type: "event", label: "Approve" },
-      { id: "s4", type: "status", label: "Deployed" },
-      { id: "ev3", type: "event", label: "Deploy" },
-      { id: "s5", type: "status", label: "Canceled" },
-      { id: "ev4", type: "event", label: "Cancel" }
-    ],
-    edges: [
-      { id: "e1", source: "s1", target: "ev1", label: "" },
-      { id: "e2", source: "ev1", target: "s2", label: "" },
-      { id: "e3", source: "s2", target: "ev2", label: "" },
-      { id: "e4", source: "ev2", target: "s3", label: "" },
-      { id: "e5", source: "s3", target: "ev3", label: "" },
-      { id: "e6", source: "ev3", target: "s4", label: "" },
-      { id: "e7", source: "s2", target: "ev4", label: "" },
-      { id: "e8", source: "ev4", target: "s5", label: "" }
-    ]
-  },
-  'mortgage-origination': {
-    id: "mortgage-origination-001",
-    name: "Mortgage Origination Workflow",
-    description: "Complete mortgage loan origination process from application to funding",
-    nodes: [
-      { id: "app-start", type: "status", label: "Application Start" },
-      { id: "collect-docs", type: "event", label: "Document Collection" },
-      { id: "doc-review", type: "status", label: "Document Review" },
-      { id: "credit-check", type: "event", label: "Credit Verification" },
-      { id: "income-verify", type: "event", label: "Income Verification" },
-      { id: "property-appraisal", type: "event", label: "Property Appraisal" },
-      { id: "underwriting", type: "status", label: "Underwriting Review" },
-      { id: "approval-decision", type: "event", label: "Approval Decision" },
-      { id: "approved", type: "status", label: "Approved" },
-      { id: "rejected", type: "status", label: "Rejected" },
-      { id: "conditions", type: "status", label: "Conditional Approval" },
-      { id: "fulfill-conditions", type: "event", label: "Fulfill Conditions" },
-      { id: "final-approval", type: "event", label: "Final Approval" },
-      { id: "closing", type: "status", label: "Closing Process" },
-      { id: "funding", type: "status", label: "Loan Funded" }
-    ],
-    edges: [
-      { id: "e1", source: "app-start", target: "collect-docs", label: "" },
-      { id: "e2", source: "collect-docs", target: "doc-review", label: "" },
-      { id: "e3", source: "doc-review", target: "credit-check", label: "" },
-      { id: "e4", source: "credit-check", target: "income-verify", label: "" },
-      { id: "e5", source: "income-verify", target: "property-appraisal", label: "" },
-      { id: "e6", source: "property-appraisal", target: "underwriting", label: "" },
-      { id: "e7", source: "underwriting", target: "approval-decision", label: "" },
-      { id: "e8", source: "approval-decision", target: "approved", label: "" },
-      { id: "e9", source: "approval-decision", target: "rejected", label: "" },
-      { id: "e10", source: "approval-decision", target: "conditions", label: "" },
-      { id: "e11", source: "conditions", target: "fulfill-conditions", label: "" },
-      { id: "e12", source: "fulfill-conditions", target: "final-approval", label: "" },
-      { id: "e13", source: "final-approval", target: "approved", label: "" },
-      { id: "e14", source: "approved", target: "closing", label: "" },
-      { id: "e15", source: "closing", target: "funding", label: "" }
-    ]
-  }
-};
-
-export const defaultWorkflow = 'ebm-version';
-
-/**
- * ============= DATA TRANSFORMATION UTILITIES =============
- * These functions handle converting various backend data formats into our standard format
- */
-
-/**
- * Transforms raw workflow data from backend APIs into our standardized format
- * Handles various possible field names and structures
- */
-export const transformWorkflowData = (rawData: RawWorkflowData): WorkflowData => {
-  console.group('🔄 TRANSFORM WORKFLOW DATA DEBUG');
-  console.log('📋 Input raw data:', JSON.stringify(rawData, null, 2));
-  console.log('📋 Raw data type:', typeof rawData);
-  console.log('📋 Raw data keys:', Object.keys(rawData));
-  
-  // Extract workflow data from various possible structures
-  const workflowData = rawData.workflow || rawData.data || rawData;
-  console.log('📋 Extracted workflow data:', JSON.stringify(workflowData, null, 2));
-  console.log('📋 Workflow data keys:', Object.keys(workflowData));
-  
-  const fieldStatus = {
-    hasNodes: !!workflowData.nodes,
-    hasVertices: !!workflowData.vertices, 
-    hasStates: !!workflowData.states,
-    hasSteps: !!workflowData.steps,
-    hasEdges: !!workflowData.edges,
-    hasConnections: !!workflowData.connections,
-    hasTransitions: !!workflowData.transitions,
-    hasLinks: !!workflowData.links
-  };
-  console.log('📋 Field status check:', fieldStatus);
-  
-  // Deep inspection of data structure
-  if (workflowData.nodes) {
-    console.log('🔵 NODES DATA FOUND:');
-    console.log('  - Type:', Array.isArray(workflowData.nodes) ? 'Array' : typeof workflowData.nodes);
-    console.log('  - Length:', workflowData.nodes.length);
-    console.log('  - Sample nodes:', workflowData.nodes.slice(0, 3));
-  }
-  
-  if (workflowData.edges) {
-    console.log('🔗 EDGES DATA FOUND:');
-    console.log('  - Type:', Array.isArray(workflowData.edges) ? 'Array' : typeof workflowData.edges);
-    console.log('  - Length:', workflowData.edges.length);
-    console.log('  - Sample edges:', workflowData.edges.slice(0, 3));
-  }
-  
-  // Extract basic properties with multiple fallback options
-  const id = workflowData.id || 
-             workflowData.workflowId || 
-             workflowData.workflow_id || 
-             workflowData.uuid || 
-             `workflow-${Date.now()}`;
-             
-  const name = workflowData.name || 
-               workflowData.title || 
-               workflowData.workflow_name || 
-               workflowData.workflowName || 
-               'Unnamed Workflow';
-               
-  const description = workflowData.description || 
-                      workflowData.desc || 
-                      workflowData.summary || 
-                      'No description available';
-
-  /**
-   * Transform nodes from various possible formats
-   * Handles different field naming conventions
-   */
-  const transformNodes = (rawNodes: any[]): WorkflowNode[] => {
-    console.log('🔵 TRANSFORMING NODES:');
-    console.log('  - Input type:', Array.isArray(rawNodes) ? 'Array' : typeof rawNodes);
-    console.log('  - Input data:', JSON.stringify(rawNodes, null, 2));
-    
-    if (!Array.isArray(rawNodes)) {
-      console.warn('⚠️ rawNodes is not an array:', rawNodes);
-      return [];
-    }
-    
-    const transformed = rawNodes.map((node, index) => {
-      console.log(`  - Processing node ${index}:`, node);
-      
-      const id = node.id || node.nodeId || node.node_id || `node-${index}`;
-      const type: 'status' | 'event' = (node.type?.toLowerCase() === 'status' || 
-                   node.nodeType?.toLowerCase() === 'status' || 
-                   node.node_type?.toLowerCase() === 'status') ? 'status' : 'event';
-      const label = node.label || node.name || node.title || node.text || `Node ${index + 1}`;
-      
-      console.log(`    ✅ Transformed: id=${id}, type=${type}, label=${label}`);
-      
-      return { id, type, label };
-    });
-    
-    console.log('🔵 NODES TRANSFORMATION COMPLETE:', transformed);
-    return transformed;
-  };
-
-  /**
-   * Transform edges from various possible formats
-   * Handles different field naming conventions for connections
-   */
-  const transformEdges = (rawEdges: any[]): WorkflowEdge[] => {
-    console.log('🔗 TRANSFORMING EDGES:');
-    console.log('  - Input type:', Array.isArray(rawEdges) ? 'Array' : typeof rawEdges);
-    console.log('  - Input data:', JSON.stringify(rawEdges, null, 2));
-    
-    if (!Array.isArray(rawEdges)) {
-      console.warn('⚠️ rawEdges is not an array:', rawEdges);
-      return [];
-    }
-    
-    const transformed = rawEdges.map((edge, index) => {
-      console.log(`  - Processing edge ${index}:`, edge);
-      
-      const id = edge.id || edge.edgeId || edge.edge_id || `edge-${index}`;
-      const source = edge.source || edge.from || edge.sourceId || edge.source_id || '';
-      const target = edge.target || edge.to || edge.targetId || edge.target_id || '';
-      const label = edge.label || edge.name || edge.title || edge.text || '';
-      
-      console.log(`    ✅ Transformed: id=${id}, source=${source}, target=${target}, label=${label}`);
-      
-      return { id, source, target, label };
-    });
-    
-    console.log('🔗 EDGES TRANSFORMATION COMPLETE:', transformed);
-    return transformed;
-  };
-
-  // Extract nodes and edges with various fallback strategies
-  let nodes: WorkflowNode[] = [];
-  let edges: WorkflowEdge[] = [];
-
-  // Try to find nodes in various possible field names
-  if (workflowData.nodes) {
-    console.log('🔵 Found nodes field, raw data:', workflowData.nodes);
-    nodes = transformNodes(workflowData.nodes);
-  } else if (workflowData.vertices) {
-    console.log('🔵 Found vertices field, raw data:', workflowData.vertices);
-    nodes = transformNodes(workflowData.vertices);
-  } else if (workflowData.states) {
-    console.log('🔵 Found states field, raw data:', workflowData.states);
-    nodes = transformNodes(workflowData.states);
-  } else if (workflowData.steps) {
-    console.log('🔵 Found steps field, raw data:', workflowData.steps);
-    nodes = transformNodes(workflowData.steps);
-  } else {
-    console.warn('⚠️ No node data found in any expected field');
-  }
-
-  // Try to find edges in various possible field names
-  if (workflowData.edges) {
-    console.log('🔗 Found edges field, raw data:', workflowData.edges);
-    edges = transformEdges(workflowData.edges);
-  } else if (workflowData.connections) {
-    console.log('🔗 Found connections field, raw data:', workflowData.connections);
-    edges = transformEdges(workflowData.connections);
-  } else if (workflowData.transitions) {
-    console.log('🔗 Found transitions field, raw data:', workflowData.transitions);
-    edges = transformEdges(workflowData.transitions);
-  } else if (workflowData.links) {
-    console.log('🔗 Found links field, raw data:', workflowData.links);
-    edges = transformEdges(workflowData.links);
-  } else {
-    console.warn('⚠️ No edge data found in any expected field');
-  }
-
-  const result = { id, name, description, nodes, edges };
-  
-  console.log('✅ TRANSFORMATION RESULT:', {
-    id, 
-    name, 
-    description, 
-    nodeCount: nodes.length, 
-    edgeCount: edges.length
-  });
-  console.log('🔵 Final transformed nodes:', nodes);
-  console.log('🔗 Final transformed edges:', edges);
-  console.log('📋 Complete result object:', JSON.stringify(result, null, 2));
-  console.groupEnd();
-
-  return result;
-};
-
-/**
- * Validates transformed data and provides sensible defaults
- * Ensures we always have a workable workflow even with incomplete data
- */
-export const validateWorkflowData = (data: WorkflowData): WorkflowData => {
-  console.group('🔍 VALIDATE WORKFLOW DATA DEBUG');
-  console.log('📋 Input validation data:', JSON.stringify(data, null, 2));
-  
-  const validatedData = { ...data };
-  
-  // Ensure we have at least some nodes for a meaningful workflow
-  if (!validatedData.nodes || validatedData.nodes.length === 0) {
-    console.warn('⚠️ CRITICAL: No nodes found, creating default Start/End nodes');
-    validatedData.nodes = [
-      { id: 'default-start', type: 'status', label: 'Start' },
-      { id: 'default-end', type: 'status', label: 'End' }
-    ];
-    console.log('🔧 Created default nodes:', validatedData.nodes);
-  } else {
-    console.log(`✅ Found ${validatedData.nodes.length} nodes to validate`);
-    console.log('🔵 Node details:', validatedData.nodes);
-  }
-  
-  // Initialize edges array if missing
-  if (!validatedData.edges) {
-    console.log('🔧 Initializing empty edges array');
-    validatedData.edges = [];
-  } else {
-    console.log(`🔗 Found ${validatedData.edges.length} edges to validate`);
-  }
-  
-  // Remove any edges that reference non-existent nodes (data integrity)
-  const nodeIds = new Set(validatedData.nodes.map(node => node.id));
-  console.log('🔵 Available node IDs:', Array.from(nodeIds));
-  
-  const initialEdgeCount = validatedData.edges.length;
-  validatedData.edges = validatedData.edges.filter(edge => {
-    const hasValidSource = nodeIds.has(edge.source);
-    const hasValidTarget = nodeIds.has(edge.target);
-    const isValid = hasValidSource && hasValidTarget;
-    
-    if (!isValid) {
-      console.warn(`⚠️ Removing invalid edge: ${edge.id} (${edge.source} -> ${edge.target})`);
-      console.warn(`  - Source exists: ${hasValidSource}, Target exists: ${hasValidTarget}`);
-    }
-    
-    return isValid;
-  });
-  
-  const finalEdgeCount = validatedData.edges.length;
-  if (initialEdgeCount !== finalEdgeCount) {
-    console.warn(`🔧 Removed ${initialEdgeCount - finalEdgeCount} invalid edges`);
-  }
-  
-  console.log('✅ VALIDATION COMPLETE:', {
-    nodeCount: validatedData.nodes.length,
-    edgeCount: validatedData.edges.length
-  });
-  console.log('📋 Final validated data:', JSON.stringify(validatedData, null, 2));
-  console.groupEnd();
-  
-  return validatedData;
-};
-
-/**
- * ============= LAYOUT & POSITIONING ALGORITHMS =============
- * These handle the automatic positioning of nodes for optimal visual layout
- */
-
-// Default configuration for layout calculations
-export const defaultLayoutConfig: LayoutConfig = {
-  workflowWidth: 1800,
-  workflowHeight: 1200,
-  stageWidth: 200,
-  stageHeight: 120,
-  circleSize: 80,
-  padding: 150,
-  spacing: 350,
-  isHorizontal: true,
-};
-
-/**
- * Analyzes the graph structure to understand connections and hierarchy
- * This helps us position nodes intelligently
- */
-export const analyzeGraphStructure = (workflowData: WorkflowData) => {
-  const { nodes, edges } = workflowData;
-  
-  // Create adjacency maps for efficient graph traversal
-  const outgoing = new Map<string, string[]>();
-  const incoming = new Map<string, string[]>();
-  
-  // Initialize maps for all nodes
-  nodes.forEach(node => {
-    outgoing.set(node.id, []);
-    incoming.set(node.id, []);
-  });
-  
-  // Build adjacency lists from edges
-  edges.forEach(edge => {
-    if (outgoing.has(edge.source) && incoming.has(edge.target)) {
-      outgoing.get(edge.source)!.push(edge.target);
-      incoming.get(edge.target)!.push(edge.source);
-    }
-  });
-  
-  // Find root nodes (no incoming edges) - these are natural starting points
-  const rootNodes = nodes.filter(node => 
-    incoming.get(node.id)?.length === 0
-  );
-  
-  // Find leaf nodes (no outgoing edges) - these are natural end points
-  const leafNodes = nodes.filter(node => 
-    outgoing.get(node.id)?.length === 0
-  );
-  
-  // If no clear root exists, use nodes with most outgoing connections as start points
-  const startNodes = rootNodes.length > 0 ? rootNodes : 
-    nodes.sort((a, b) => 
-      (outgoing.get(b.id)?.length || 0) - (outgoing.get(a.id)?.length || 0)
-    ).slice(0, 1);
-  
-  return {
-    nodes,
-    edges,
-    outgoing,
-    incoming,
-    rootNodes,
-    leafNodes,
-    startNodes,
-    nodeCount: nodes.length,
-    edgeCount: edges.length
-  };
-};
-
-/**
- * Calculates optimal node positions using hierarchical layout
- * Uses BFS to assign levels and arranges nodes for minimal edge crossings
- */
-export const calculateSmartLayout = (
-  workflowData: WorkflowData,
-  config: LayoutConfig = defaultLayoutConfig
-) => {
-  const analysis = analyzeGraphStructure(workflowData);
-  const { nodes, outgoing, startNodes } = analysis;
-  const { padding, stageWidth, stageHeight, isHorizontal } = config;
-  
-  // Use BFS to calculate hierarchical levels
-  const levels = new Map<string, number>();
-  const positions = new Map<string, { x: number; y: number; level: number; row: number }>();
-  const visited = new Set<string>();
-  
-  // Initialize BFS queue with start nodes at level 0
-  const queue: Array<{ nodeId: string; level: number }> = [];
-  
-  startNodes.forEach(node => {
-    queue.push({ nodeId: node.id, level: 0 });
-    levels.set(node.id, 0);
-  });
-  
-  // BFS traversal to assign levels (hierarchical positioning)
-  while (queue.length > 0) {
-    const { nodeId, level } = queue.shift()!;
-    
-    if (visited.has(nodeId)) continue;
-    visited.add(nodeId);
-    
-    // Process all children of current node
-    const children = outgoing.get(nodeId) || [];
-    children.forEach(childId => {
-      if (!visited.has(childId)) {
-        const newLevel = level + 1;
-        // Assign to the earliest possible level (closest to root)
-        if (!levels.has(childId) || levels.get(childId)! > newLevel) {
-          levels.set(childId, newLevel);
-          queue.push({ nodeId: childId, level: newLevel });
-        }
-      }
-    });
-  }
-  
-  // Handle any orphaned nodes (not connected to main graph)
-  nodes.forEach(node => {
-    if (!levels.has(node.id)) {
-      levels.set(node.id, 0);
-    }
-  });
-  
-  // Group nodes by level for organized positioning
-  const levelGroups = new Map<number, string[]>();
-  levels.forEach((level, nodeId) => {
-    if (!levelGroups.has(level)) {
-      levelGroups.set(level, []);
-    }
-    levelGroups.get(level)!.push(nodeId);
-  });
-  
-  const maxLevel = Math.max(...Array.from(levels.values()));
-  
-  // Enhanced spacing for clean, professional appearance
-  const levelSpacing = 350; // Distance between hierarchy levels
-  const nodeSpacing = 150;  // Distance between nodes in same level
-  
-  // Calculate actual positions based on layout orientation
-  if (isHorizontal) {
-    // Horizontal layout: left-to-right flow
-    for (let level = 0; level <= maxLevel; level++) {
-      const nodesInLevel = levelGroups.get(level) || [];
-      const x = padding + level * levelSpacing;
-      
-      // Center nodes vertically within level
-      const totalHeight = nodesInLevel.length * stageHeight + (nodesInLevel.length - 1) * nodeSpacing;
-      const startY = padding + Math.max(100, (1000 - totalHeight) / 2);
-      
-      nodesInLevel.forEach((nodeId, index) => {
-        const y = startY + index * (stageHeight + nodeSpacing);
-        positions.set(nodeId, { x, y, level, row: index });
-      });
-    }
-  } else {
-    // Vertical layout: top-to-bottom flow
-    for (let level = 0; level <= maxLevel; level++) {
-      const nodesInLevel = levelGroups.get(level) || [];
-      const y = padding + level * levelSpacing;
-      
-      // Center nodes horizontally within level
-      const totalWidth = nodesInLevel.length * stageWidth + (nodesInLevel.length - 1) * nodeSpacing;
-      const startX = padding + Math.max(100, (1800 - totalWidth) / 2);
-      
-      nodesInLevel.forEach((nodeId, index) => {
-        const x = startX + index * (stageWidth + nodeSpacing);
-        positions.set(nodeId, { x, y, level, row: index });
-      });
-    }
-  }
-  
-  // Calculate canvas dimensions to fit all nodes
-  let canvasWidth, canvasHeight;
-  if (isHorizontal) {
-    canvasWidth = Math.max((maxLevel + 1) * levelSpacing + 2 * padding + stageWidth, 1800);
-    canvasHeight = 1200;
-  } else {
-    canvasWidth = 2000;
-    canvasHeight = Math.max((maxLevel + 1) * levelSpacing + 2 * padding + stageHeight, 1200);
-  }
-  
-  return {
-    positions,
-    levels,
-    levelGroups,
-    canvasWidth,
-    canvasHeight,
-    maxLevel,
-    analysis
-  };
-};
+import { defaultWorkflow, transformWorkflowDataWithReport, validateWorkflowData } from '@/utils/singleView/workflowDataUtils';
+import { WorkflowData, RawWorkflowData } from '@/models/singleView/nodeTypes';
+import { WorkflowProblemsPanel } from './WorkflowProblemsPanel';
+import { useWorkflowData } from '@/hooks/singleView/useWorkflowData';
+import { useWorkflowCatalog } from '@/hooks/singleView/useWorkflowCatalog';
+import { usePipelineRecorder } from '@/hooks/singleView/usePipelineTrace';
+import { measureStep } from '@/utils/singleView/pipelineTrace';
+import { useMeasuredNodeSizes } from '@/hooks/singleView/useMeasuredNodeSizes';
+import { useWorkerLayout } from '@/hooks/singleView/useWorkerLayout';
+import { PipelineInspector } from './PipelineInspector';
+import { LayoutProgress } from './LayoutProgress';
 
 /**
  * Generates React Flow edges with smart routing and styling
@@ -586,16 +37,14 @@ export const calculateSmartLayout = (
  */
 export const generateSmartEdges = (
   workflowData: WorkflowData,
-  layout: ReturnType<typeof calculateSmartLayout>,
+  layout: WorkflowLayout,
   isHorizontal: boolean = true,
   selectedNodeId: string | null = null,
   selectedEdgeId: string | null = null
 ): Edge[] => {
-  const { positions, levels } = layout;
-  console.log('🔗 Generating smart edges for', workflowData.edges.length, 'edge definitions');
+  const { positions, levels, backEdges, edgeRoutes } = layout;
   
   if (!workflowData.edges || workflowData.edges.length === 0) {
-    console.warn('⚠️ No edges found in workflow data');
     return [];
   }
   
@@ -603,30 +52,31 @@ export const generateSmartEdges = (
     const sourcePos = positions.get(edge.source);
     const targetPos = positions.get(edge.target);
     
-    // Validate that both nodes exist in the layout
+    // Skip edges whose nodes aren't in the layout (the inspector's React Flow diff lists them)
     if (!sourcePos || !targetPos) {
-      console.error(`❌ Edge ${edge.id} references invalid nodes - source: ${edge.source}, target: ${edge.target}`);
       return null;
     }
     
     const sourceLevel = levels.get(edge.source) || 0;
     const targetLevel = levels.get(edge.target) || 0;
     
-    // Detect backward flow (connections that go against main hierarchy)
-    const isBackwardFlow = targetLevel <= sourceLevel && sourceLevel > 0;
+    // Backward flow: back edges found by the layout's depth-first search (rework loops)
+    const isBackwardFlow = backEdges.has(edge.id);
+    // Orthogonally routed edges follow their route, loops included
+    const waypoints = edgeRoutes?.get(edge.id);
+    // Loops spanning more levels run further out, so nested loops don't overlap
+    const loopOffset = 30 + 20 * Math.abs(sourceLevel - targetLevel);
     
     // Check if this edge should be highlighted
     const isConnectedToSelectedNode = selectedNodeId && (edge.source === selectedNodeId || edge.target === selectedNodeId);
     const isSelectedEdge = selectedEdgeId === edge.id;
     
-    console.log(`✅ Processing edge ${edge.id}: ${edge.source} → ${edge.target} (levels: ${sourceLevel} → ${targetLevel})`);
-    
     // Determine connection points based on layout orientation and flow direction
     let sourceHandle, targetHandle;
     
     if (isHorizontal) {
-      if (isBackwardFlow) {
-        // Backward flow: use bottom connections to avoid visual conflicts
+      if (isBackwardFlow && !waypoints) {
+        // Backward flow: leave and enter from below, so loops run under the main flow
         sourceHandle = 'bottom-source';
         targetHandle = 'bottom-target';
       } else {
@@ -635,8 +85,8 @@ export const generateSmartEdges = (
         targetHandle = 'left-target';
       }
     } else {
-      if (isBackwardFlow) {
-        // Backward flow in vertical layout: use right connections
+      if (isBackwardFlow && !waypoints) {
+        // Backward flow in vertical layout: loops run beside the main flow, on the right
         sourceHandle = 'right-source';
         targetHandle = 'right-target';
       } else {
@@ -686,15 +136,17 @@ export const generateSmartEdges = (
         height: 20,
         color: isSelectedEdge ? '#3b82f6' : isConnectedToSelectedNode ? '#f59e0b' : '#94a3b8',
       },
-      type: (isSelectedEdge || isConnectedToSelectedNode) ? 'animated' : (isBackwardFlow ? 'smoothstep' : 'bezier'),
+      type: (isSelectedEdge || isConnectedToSelectedNode || waypoints) ? 'animated' : (isBackwardFlow ? 'smoothstep' : 'bezier'),
+      ...(isBackwardFlow && { pathOptions: { offset: loopOffset } }),
       data: {
         isAnimated: isSelectedEdge || isConnectedToSelectedNode,
         edgeType: isBackwardFlow ? 'smoothstep' : 'bezier',
+        ...(isBackwardFlow && { stepOffset: loopOffset }),
+        ...(waypoints && { waypoints }),
       },
     };
   }).filter(Boolean) as Edge[];
   
-  console.log('✅ Generated edges:', generatedEdges.length);
   return generatedEdges;
 };
 
@@ -704,18 +156,15 @@ export const generateSmartEdges = (
  */
 export const generateReactFlowNodes = (
   workflowData: WorkflowData,
-  layout: ReturnType<typeof calculateSmartLayout>,
+  layout: WorkflowLayout,
   isHorizontal: boolean
 ): Node[] => {
   const { positions } = layout;
   
-  console.log('🎨 Generating React Flow nodes for', workflowData.nodes.length, 'workflow nodes');
-  
   const reactFlowNodes = workflowData.nodes.map((workflowNode) => {
     const position = positions.get(workflowNode.id);
     
     if (!position) {
-      console.error(`❌ No position found for node ${workflowNode.id}`);
       return null;
     }
     
@@ -730,7 +179,6 @@ export const generateReactFlowNodes = (
     };
   }).filter(Boolean) as Node[];
   
-  console.log('✅ Generated React Flow nodes:', reactFlowNodes.length);
   return reactFlowNodes;
 };
 
@@ -739,17 +187,18 @@ export const generateReactFlowNodes = (
  * Custom node components that render in the workflow canvas
  */
 
+// Smallest StatusNode (min-w-24), assumed by the layout until nodes are measured
+const STATUS_NODE_SIZE = 96;
+
 /**
  * Status Node Component (Circular nodes representing states/statuses)
  * These represent points in time or conditions in the workflow
  */
 const StatusNode = memo(({ data, selected }: NodeProps) => {
-  console.log('🟢 Rendering Status Node:', data);
-  
   return (
     <div 
       className={`
-        relative w-24 h-24 rounded-full border-2 
+        relative min-w-24 max-w-40 aspect-square p-2 rounded-full border-2 
         transition-all duration-300 ease-in-out
         ${selected 
           ? 'ring-4 ring-blue-500 ring-opacity-60 bg-blue-50 border-blue-400 scale-110 animate-pulse shadow-xl' 
@@ -826,12 +275,10 @@ const StatusNode = memo(({ data, selected }: NodeProps) => {
  * These represent actions that can be taken or events that occur
  */
 const EventNode = memo(({ data, selected }: NodeProps) => {
-  console.log('📦 Rendering Event Node:', data);
-  
   return (
     <div 
       className={`
-        relative px-4 py-3 min-w-[120px] h-16
+        relative px-4 py-3 min-w-[120px] max-w-64 min-h-16
         border-2 transition-all duration-300 ease-in-out
         ${selected 
           ? 'ring-4 ring-blue-500 ring-opacity-60 bg-blue-50 border-blue-400 scale-110 animate-pulse shadow-xl' 
@@ -931,6 +378,7 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
   const [isHorizontal, setIsHorizontal] = useState(true);
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  const [measuredSizes, onMeasuredNodesChange] = useMeasuredNodeSizes(onNodesChange);
   const [isInitialized, setIsInitialized] = useState(false);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
@@ -940,79 +388,96 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
   const [focusMode, setFocusMode] = useState<FocusModeResult | null>(null);
   const [focusModeTimeout, setFocusModeTimeout] = useState<NodeJS.Timeout | null>(null);
 
+  // Stored workflows come from the configured repository
+  const { workflows: availableWorkflows } = useWorkflowCatalog();
+  const { data: storedWorkflow } = useWorkflowData(selectedWorkflow, { enabled: !useExternalData });
+  const recorder = usePipelineRecorder();
+
   // ========== WORKFLOW DATA PROCESSING ==========
   
   /**
-   * Transform the selected workflow data for React Flow
-   * This runs whenever the selected workflow or layout orientation changes
+   * Transform and validate the selected workflow data
+   * Stored workflows come mapped from the repository, with their layout, so only external
+   * payloads are transformed. Each step is measured here and recorded for the pipeline
+   * inspector once rendered
    */
-  const currentWorkflowData = useMemo(() => {
-    console.group('🔧 WORKFLOW DATA PROCESSING MEMO');
-    
-    if (useExternalData && workflowData) {
-      console.log('🔄 Processing external workflow data');
-      console.log('📋 Raw external data:', JSON.stringify(workflowData, null, 2));
-      
-      try {
-        const transformedData = transformWorkflowData(workflowData);
-        const validatedData = validateWorkflowData(transformedData);
-        console.log('✅ External workflow data processing complete');
-        console.groupEnd();
-        return validatedData;
-      } catch (error) {
-        console.error('❌ Error processing external data:', error);
-        console.groupEnd();
-        return null;
-      }
+  const { validation, processingSteps } = useMemo(() => {
+    const rawData = useExternalData ? workflowData : storedWorkflow;
+    if (!rawData) {
+      return { validation: null, processingSteps: null };
+    }
+
+    const transformed = useExternalData ? measureStep(() => transformWorkflowDataWithReport(rawData)) : null;
+    const mapped = transformed ? ('output' in transformed ? transformed.output.workflow : null) : storedWorkflow;
+    const validated = mapped ? measureStep(() => validateWorkflowData(mapped)) : null;
+    return {
+      validation: validated && 'output' in validated ? validated.output : null,
+      processingSteps: { rawData, transformed, validated },
+    };
+  }, [storedWorkflow, workflowData, useExternalData]);
+
+  useEffect(() => {
+    if (!processingSteps) {
+      recorder.clear('raw', 'transformed', 'validated');
+      return;
+    }
+
+    const { rawData, transformed, validated } = processingSteps;
+    recorder.record('raw', rawData);
+    if (transformed) {
+      recorder.recordStep('transformed', transformed);
     } else {
-      console.log('🔄 Processing mock workflow data for:', selectedWorkflow);
-      const rawWorkflow = mockWorkflows[selectedWorkflow];
-      if (!rawWorkflow) {
-        console.error('❌ Workflow not found:', selectedWorkflow);
-        console.groupEnd();
-        return null;
-      }
-      console.log('📋 Raw mock data:', JSON.stringify(rawWorkflow, null, 2));
-      
-      try {
-        const transformedData = transformWorkflowData(rawWorkflow);
-        const validatedData = validateWorkflowData(transformedData);
-        console.log('✅ Mock workflow data processing complete');
-        console.groupEnd();
-        return validatedData;
-      } catch (error) {
-        console.error('❌ Error processing mock data:', error);
-        console.groupEnd();
-        return null;
-      }
+      recorder.clear('transformed');
     }
-  }, [selectedWorkflow, workflowData, useExternalData]);
+    if (validated) {
+      recorder.recordStep('validated', validated);
+    } else {
+      recorder.clear('validated');
+    }
+    const failed = transformed && 'error' in transformed ? transformed : validated && 'error' in validated ? validated : null;
+    if (failed) {
+      console.error('❌ Error processing workflow data:', failed.error);
+    }
+  }, [processingSteps, recorder]);
+
+  const currentWorkflowData = validation?.data ?? null;
 
   /**
-   * Calculate layout and generate positioned nodes/edges
-   * This handles the visual positioning and routing logic
+   * Smart layout in the layout worker, by measured node sizes once React Flow has rendered the
+   * nodes. Selection isn't an input, so selecting never lays the workflow out again
    */
-  const { processedNodes, processedEdges } = useMemo(() => {
-    console.group('🧮 LAYOUT CALCULATION MEMO');
-    console.log('📐 Starting layout calculation...');
-    console.log('🔧 Layout params:', { isHorizontal, hasData: !!currentWorkflowData });
-    
+  const edgeRouting = currentWorkflowData?.layout?.config?.edgeRouting;
+  const layoutConfig = useMemo(
+    () => ({ ...defaultLayoutConfig, circleSize: STATUS_NODE_SIZE, edgeRouting, isHorizontal }),
+    [edgeRouting, isHorizontal]
+  );
+  const { layout, durationMs: layoutMs, cached: layoutCached, isRunning: isLayoutRunning, error: layoutError } =
+    useWorkerLayout(currentWorkflowData, layoutConfig, measuredSizes);
+
+  useEffect(() => {
     if (!currentWorkflowData) {
-      console.warn('⚠️ No workflow data available for layout calculation');
-      console.groupEnd();
-      return { processedNodes: [], processedEdges: [] };
+      recorder.clear('layout');
+    } else if (layout) {
+      recorder.record('layout', {
+        ...layout,
+        measuredSizes: currentWorkflowData.nodes.filter(node => measuredSizes.has(node.id)).length,
+        cached: layoutCached,
+        source: 'smart',
+      }, layoutMs);
+    } else if (layoutError) {
+      console.error('❌ Layout calculation failed:', layoutError);
     }
+  }, [currentWorkflowData, layout, layoutMs, layoutCached, layoutError, measuredSizes, recorder]);
 
-    console.log('📋 Input workflow data for layout:', JSON.stringify(currentWorkflowData, null, 2));
-    
-    try {
-      // Use our smart layout algorithm
-      const layoutConfig = { ...defaultLayoutConfig, isHorizontal };
-      console.log('🔧 Layout config:', layoutConfig);
-      
-      const layout = calculateSmartLayout(currentWorkflowData, layoutConfig);
-      console.log('✅ Smart layout calculation complete');
-      
+  /**
+   * Generate positioned nodes/edges from the layout, with the selection highlighted
+   */
+  const { processedNodes, processedEdges, flowStep } = useMemo(() => {
+    if (!currentWorkflowData || !layout) {
+      return { processedNodes: [], processedEdges: [], flowStep: null };
+    }
+
+    const flowStep = measureStep(() => {
       // Generate React Flow nodes with proper positioning and highlighting
       const reactFlowNodes = generateReactFlowNodes(currentWorkflowData, layout, isHorizontal).map(node => ({
         ...node,
@@ -1024,26 +489,21 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
         }
       }));
       const reactFlowEdges = generateSmartEdges(currentWorkflowData, layout, isHorizontal, selectedNodeId, selectedEdgeId);
-      
-      console.log('✅ React Flow generation complete:', {
-        nodeCount: reactFlowNodes.length,
-        edgeCount: reactFlowEdges.length,
-        isHorizontal
-      });
-      console.log('🔵 Generated nodes:', reactFlowNodes);
-      console.log('🔗 Generated edges:', reactFlowEdges);
-      
-      console.groupEnd();
-      return {
-        processedNodes: reactFlowNodes,
-        processedEdges: reactFlowEdges
-      };
-    } catch (error) {
-      console.error('❌ Layout calculation failed:', error);
-      console.groupEnd();
-      return { processedNodes: [], processedEdges: [] };
+      return { nodes: reactFlowNodes, edges: reactFlowEdges };
+    });
+    return 'output' in flowStep
+      ? { processedNodes: flowStep.output.nodes, processedEdges: flowStep.output.edges, flowStep }
+      : { processedNodes: [], processedEdges: [], flowStep };
+  }, [currentWorkflowData, layout, isHorizontal, selectedNodeId, selectedEdgeId]);
+
+  useEffect(() => {
+    if (flowStep) {
+      recorder.recordStep('reactFlow', flowStep);
+      if ('error' in flowStep) console.error('❌ Generating the flow failed:', flowStep.error);
+    } else if (!currentWorkflowData) {
+      recorder.clear('reactFlow');
     }
-  }, [currentWorkflowData, isHorizontal, selectedNodeId, selectedEdgeId]);
+  }, [flowStep, currentWorkflowData, recorder]);
 
   /**
    * Apply focus mode styling to nodes and edges
@@ -1057,30 +517,14 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
    * This ensures the visualization stays in sync
    */
   useEffect(() => {
-    console.group('🔄 REACT FLOW STATE UPDATE');
-    console.log('🔧 State update triggered with:', {
-      nodeCount: styledNodes.length,
-      edgeCount: styledEdges.length,
-      isInitialized,
-      hasFocusMode: !!focusMode
-    });
-    
     if (styledNodes.length > 0) {
-      console.log('✅ Updating nodes state');
       setNodes(styledNodes);
       setIsInitialized(true);
-    } else {
-      console.warn('⚠️ No processed nodes to set');
     }
     
     if (styledEdges.length > 0) {
-      console.log('✅ Updating edges state');
       setEdges(styledEdges);
-    } else {
-      console.warn('⚠️ No processed edges to set');
     }
-    
-    console.groupEnd();
   }, [styledNodes, styledEdges, setNodes, setEdges, focusMode]);
 
   // ========== EVENT HANDLERS ==========
@@ -1089,7 +533,6 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
    * Handle new connections between nodes (user-created edges)
    */
   const onConnect = useCallback((params: Connection) => {
-    console.log('🔗 Creating new connection:', params);
     setEdges((eds) => addEdge(params, eds));
   }, [setEdges]);
 
@@ -1097,7 +540,6 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
    * Handle workflow selection changes
    */
   const handleWorkflowChange = useCallback((workflowId: string) => {
-    console.log('🔄 Changing workflow to:', workflowId);
     setSelectedWorkflow(workflowId);
     setIsInitialized(false);
   }, []);
@@ -1106,7 +548,6 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
    * Handle layout orientation changes
    */
   const handleLayoutChange = useCallback(() => {
-    console.log('🔄 Toggling layout orientation from', isHorizontal ? 'horizontal' : 'vertical');
     setIsHorizontal(!isHorizontal);
     setIsInitialized(false);
   }, [isHorizontal]);
@@ -1115,7 +556,6 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
    * Handle node selection to highlight connected edges and trigger focus mode
    */
   const onNodeClick = useCallback((event: React.MouseEvent, node: Node) => {
-    console.log('🔵 Node clicked:', node.id);
     const newSelectedNodeId = selectedNodeId === node.id ? null : node.id;
     setSelectedNodeId(newSelectedNodeId);
     setSelectedEdgeId(null);
@@ -1128,13 +568,11 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
     
     // If a node is selected and has multiple connections, trigger focus mode (only if enabled)
     if (newSelectedNodeId && hideWhileSelection && hasMultipleConnections(newSelectedNodeId, processedEdges)) {
-      console.log('🎯 Triggering focus mode for node with multiple connections:', newSelectedNodeId);
       const focusResult = calculateFocusMode(newSelectedNodeId, processedNodes, processedEdges);
       setFocusMode(focusResult);
       
       // Auto-clear focus mode after 4 seconds
       const timeout = setTimeout(() => {
-        console.log('⏰ Focus mode timeout - returning to normal view');
         setFocusMode(null);
         setFocusModeTimeout(null);
       }, 4000);
@@ -1148,7 +586,6 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
    * Handle edge selection to highlight connected nodes and trigger focus mode
    */
   const onEdgeClick = useCallback((event: React.MouseEvent, edge: Edge) => {
-    console.log('🔗 Edge clicked:', edge.id);
     const newSelectedEdgeId = selectedEdgeId === edge.id ? null : edge.id;
     setSelectedEdgeId(newSelectedEdgeId);
     setSelectedNodeId(null);
@@ -1161,13 +598,11 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
     
     // If an edge is selected, trigger focus mode (only if enabled)
     if (newSelectedEdgeId && hideWhileSelection) {
-      console.log('🎯 Triggering focus mode for edge:', newSelectedEdgeId);
       const focusResult = calculateEdgeFocusMode(newSelectedEdgeId, processedNodes, processedEdges);
       setFocusMode(focusResult);
       
       // Auto-clear focus mode after 4 seconds
       const timeout = setTimeout(() => {
-        console.log('⏰ Focus mode timeout - returning to normal view');
         setFocusMode(null);
         setFocusModeTimeout(null);
       }, 4000);
@@ -1183,7 +618,11 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
   if (!currentWorkflowData || !isInitialized) {
     return (
       <div className="flex items-center justify-center h-96">
-        <div className="text-lg text-gray-600">Loading workflow visualization...</div>
+        {currentWorkflowData && isLayoutRunning ? (
+          <LayoutProgress nodeCount={currentWorkflowData.nodes.length} />
+        ) : (
+          <div className="text-lg text-gray-600">Loading workflow visualization...</div>
+        )}
       </div>
     );
   }
@@ -1201,7 +640,7 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
       {/* Controls Section */}
       <div className="flex items-center justify-between p-4 bg-white border-b border-gray-200">
         <div className="flex items-center gap-4">
-          {/* Workflow Selection - Only show for mock data */}
+          {/* Workflow Selection - Only show for stored workflows */}
           {!useExternalData && (
             <div className="flex items-center gap-2">
               <label className="text-sm font-medium text-gray-700">Workflow:</label>
@@ -1210,8 +649,8 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
                 onChange={(e) => handleWorkflowChange(e.target.value)}
                 className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
-                {Object.entries(mockWorkflows).map(([id, workflow]) => (
-                  <option key={id} value={id}>
+                {availableWorkflows.map(workflow => (
+                  <option key={workflow.key} value={workflow.key}>
                     {workflow.name}
                   </option>
                 ))}
@@ -1250,7 +689,8 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
             <span>⚡</span>
             {isHorizontal ? 'Switch to Vertical' : 'Switch to Horizontal'}
           </Button>
-          
+
+          <PipelineInspector recorder={recorder} />
         </div>
 
         {/* Legend Section */}
@@ -1285,7 +725,7 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
             nodes={nodes}
             edges={edges}
             onNodeClick={onNodeClick}
-            onNodesChange={onNodesChange}
+            onNodesChange={onMeasuredNodesChange}
             onEdgesChange={onEdgesChange}
             onEdgeClick={onEdgeClick}
             onConnect={onConnect}
@@ -1334,6 +774,26 @@ export const WorkflowManager = ({ workflowData, useExternalData = false }: Workf
               showInteractive={true}
             />
           </ReactFlow>
+
+          {/* Relayouts for measured sizes keep the previous layout on screen meanwhile */}
+          {isLayoutRunning && (
+            <LayoutProgress nodeCount={currentWorkflowData.nodes.length} className="absolute top-4 left-4 z-10" />
+          )}
+
+          {/* Validation problems */}
+          <div className="absolute bottom-4 left-4 z-10">
+            <WorkflowProblemsPanel
+              diagnostics={validation?.diagnostics ?? []}
+              onSelectNode={(nodeId) => {
+                setSelectedNodeId(nodeId);
+                setSelectedEdgeId(null);
+              }}
+              onSelectEdge={(edgeId) => {
+                setSelectedEdgeId(edgeId);
+                setSelectedNodeId(null);
+              }}
+            />
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { ExpandLess, ExpandMore } from '@mui/icons-material';
+import { DiagnosticCode, DiagnosticSeverity, WorkflowDiagnostic } from '../models/singleView/diagnostics';
+
+interface WorkflowProblemsPanelProps {
+  diagnostics: WorkflowDiagnostic[];
+  onSelectNode?: (nodeId: string) => void;
+  onSelectEdge?: (edgeId: string) => void;
+  // Quick fix offered next to a problem, e.g. inserting a missing node
+  getFix?: (diagnostic: WorkflowDiagnostic) => { label: string; apply: () => void } | undefined;
+  defaultExpanded?: boolean;
+}
+
+const severityOrder: DiagnosticSeverity[] = ['error', 'warning', 'info'];
+
+// Diagnostics whose edge was dropped during validation - point at the surviving node instead
+const removedEdgeCodes: DiagnosticCode[] = ['BLANK_EDGE_ENDPOINT', 'DANGLING_EDGE'];
+
+const severityStyles: Record<DiagnosticSeverity, { icon: string; text: string }> = {
+  error: { icon: '⛔', text: 'text-red-700' },
+  warning: { icon: '⚠️', text: 'text-amber-700' },
+  info: { icon: 'ℹ️', text: 'text-blue-700' },
+};
+
+/**
+ * Collapsible list of validation diagnostics
+ * Clicking a problem selects the affected edge (or node) on the canvas
+ */
+export const WorkflowProblemsPanel = ({
+  diagnostics,
+  onSelectNode,
+  onSelectEdge,
+  getFix,
+  defaultExpanded = false,
+}: WorkflowProblemsPanelProps) => {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  const counts = severityOrder.map(severity => ({
+    severity,
+    count: diagnostics.filter(diagnostic => diagnostic.severity === severity).length,
+  })).filter(({ count }) => count > 0);
+
+  const sortedDiagnostics = [...diagnostics].sort(
+    (a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity)
+  );
+
+  const handleSelect = (diagnostic: WorkflowDiagnostic) => {
+    const edgeRemoved = removedEdgeCodes.includes(diagnostic.code);
+    if (!edgeRemoved && diagnostic.edgeIds.length > 0 && onSelectEdge) {
+      onSelectEdge(diagnostic.edgeIds[0]);
+    } else if (diagnostic.nodeIds.length > 0 && onSelectNode) {
+      onSelectNode(diagnostic.nodeIds[0]);
+    }
+  };
+
+  return (
+    <div className="w-96 max-w-full bg-white border border-gray-300 rounded-lg shadow-lg text-sm">
+      {/* Header */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-3 py-2 font-medium text-gray-800 hover:bg-gray-50 rounded-lg"
+      >
+        <span className="flex items-center gap-3">
+          Problems
+          {counts.map(({ severity, count }) => (
+            <span key={severity} className={`flex items-center gap-1 ${severityStyles[severity].text}`}>
+              {severityStyles[severity].icon} {count}
+            </span>
+          ))}
+        </span>
+        {isExpanded ? <ExpandMore className="w-5 h-5" /> : <ExpandLess className="w-5 h-5" />}
+      </button>
+
+      {/* Problem list */}
+      {isExpanded && (
+        <ul className="max-h-64 overflow-y-auto border-t border-gray-200 divide-y divide-gray-100">
+          {sortedDiagnostics.map((diagnostic, index) => {
+            const fix = getFix?.(diagnostic);
+            return (
+              <li key={`${diagnostic.code}-${index}`} className="flex items-start">
+                <button
+                  onClick={() => handleSelect(diagnostic)}
+                  className="flex-1 text-left px-3 py-2 hover:bg-gray-50 flex gap-2"
+                >
+                  <span>{severityStyles[diagnostic.severity].icon}</span>
+                  <span className="flex-1">
+                    <span className={severityStyles[diagnostic.severity].text}>{diagnostic.message}</span>
+                    <span className="block text-xs text-gray-500">
+                      {diagnostic.code}
+                      {diagnostic.repaired && ' • auto-repaired'}
+                    </span>
+                  </span>
+                </button>
+                {fix && (
+                  <button
+                    onClick={fix.apply}
+                    className="m-2 px-2 py-1 text-xs font-medium rounded-md border border-blue-300 bg-blue-50 text-blue-700 hover:bg-blue-100 whitespace-nowrap"
+                  >
+                    🔧 {fix.label}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+WorkflowProblemsPanel.displayName = 'WorkflowProblemsPanel';
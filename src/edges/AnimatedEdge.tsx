@@ -1,4 +1,9 @@
 import { getBezierPath, EdgeProps } from '@xyflow/react';
+import { getRoundedPath, getRoutePoints, type PortSide } from '../utils/singleView/edgeRouting';
+import { getSeparatedPath, type EdgeOffset } from '../utils/singleView/edgeSeparation';
+import { EdgeLabel } from './EdgeLabel';
+
+type Point = { x: number; y: number };
 
 export const AnimatedEdge = ({
   id,
@@ -10,16 +15,36 @@ export const AnimatedEdge = ({
   targetPosition,
   style = {},
   data,
+  label,
   markerEnd,
 }: EdgeProps) => {
-  const [edgePath] = getBezierPath({
-    sourceX,
-    sourceY,
-    sourcePosition,
-    targetX,
-    targetY,
-    targetPosition,
-  });
+  // Orthogonal routes come as bends between the handles; everything else is a bezier curve,
+  // moved apart from the node's other edges when the view separates them
+  const waypoints = data?.waypoints as Point[] | undefined;
+  const separation = data?.separation as EdgeOffset | undefined;
+  const [edgePath, labelX, labelY] = waypoints
+    ? getRoundedPath(getRoutePoints(
+        { x: sourceX, y: sourceY },
+        sourcePosition as PortSide,
+        waypoints,
+        { x: targetX, y: targetY },
+        targetPosition as PortSide
+      ))
+    : separation
+    ? getSeparatedPath({ x: sourceX, y: sourceY }, { x: targetX, y: targetY }, separation)
+    : getBezierPath({
+        sourceX,
+        sourceY,
+        sourcePosition,
+        targetX,
+        targetY,
+        targetPosition,
+      });
+
+  // Placed clear of nodes and other labels by the view; the middle of the edge otherwise
+  const labelPosition = data?.labelPosition as Point | undefined;
+  const labelText = typeof label === 'string' ? label : '';
+  const isEditingLabel = Boolean(data?.isEditingLabel);
 
   return (
     <>
@@ -30,8 +55,20 @@ export const AnimatedEdge = ({
         d={edgePath}
         markerEnd={markerEnd}
       />
+      {(labelText || isEditingLabel) && (
+        <EdgeLabel
+          edgeId={id}
+          label={labelText}
+          x={labelPosition?.x ?? labelX}
+          y={labelPosition?.y ?? labelY}
+          isEditing={isEditingLabel}
+          onEdit={data?.onEditLabel as ((edgeId: string) => void) | undefined}
+          onChange={data?.onLabelChange as ((edgeId: string, label: string) => void) | undefined}
+          onCancel={data?.onLabelEditCancel as (() => void) | undefined}
+        />
+      )}
     </>
   );
 };
 
-AnimatedEdge.displayName = 'AnimatedEdge';
\ No newline at end of file
+AnimatedEdge.displayName = 'AnimatedEdge';
@@ -0,0 +1,63 @@
+import { useRef } from 'react';
+import { EdgeLabelRenderer } from '@xyflow/react';
+
+interface EdgeLabelProps {
+  edgeId: string;
+  label: string;
+  x: number;
+  y: number;
+  isEditing?: boolean;
+  onEdit?: (edgeId: string) => void;                        // Double-click starts editing
+  onChange?: (edgeId: string, label: string) => void;       // Label edited
+  onCancel?: () => void;                                    // Editing ended without a change
+}
+
+/**
+ * An edge label above the edges, centred on (x, y). Long labels are truncated and shown in
+ * full on hover. With `onEdit`, double-clicking it turns it into a text field: Enter or
+ * leaving the field saves, Escape cancels
+ */
+export const EdgeLabel = ({ edgeId, label, x, y, isEditing, onEdit, onChange, onCancel }: EdgeLabelProps) => {
+  const cancelledRef = useRef(false);
+
+  const finishEditing = (value: string) => {
+    if (cancelledRef.current || value.trim() === label) onCancel?.();
+    else onChange?.(edgeId, value);
+    cancelledRef.current = false;
+  };
+
+  return (
+    <EdgeLabelRenderer>
+      <div
+        className="absolute nodrag nopan pointer-events-auto hover:z-10"
+        style={{ transform: `translate(-50%, -50%) translate(${x}px, ${y}px)` }}
+      >
+        {isEditing ? (
+          <input
+            autoFocus
+            defaultValue={label}
+            placeholder="Label"
+            onFocus={(e) => e.target.select()}
+            onBlur={(e) => finishEditing(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') cancelledRef.current = true;
+              if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+            }}
+            className="w-40 px-1.5 py-0.5 text-[11px] text-slate-700 bg-white border border-blue-400 rounded outline-none shadow-sm"
+          />
+        ) : (
+          <div
+            title={label}
+            onDoubleClick={onEdit && (() => onEdit(edgeId))}
+            className={`max-w-40 truncate px-1.5 py-0.5 text-[11px] leading-4 text-slate-600 bg-white/90 border border-slate-200 rounded
+              hover:max-w-none hover:shadow-sm ${onEdit ? 'cursor-text' : ''}`}
+          >
+            {label}
+          </div>
+        )}
+      </div>
+    </EdgeLabelRenderer>
+  );
+};
+
+EdgeLabel.displayName = 'EdgeLabel';
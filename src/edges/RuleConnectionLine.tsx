@@ -0,0 +1,65 @@
+import { ConnectionLineComponentProps, getBezierPath } from '@xyflow/react';
+import { ConnectionRules, NodeKind, checkConnection } from '../utils/singleView/connectionRules';
+
+interface RuleConnectionLineProps extends ConnectionLineComponentProps {
+  rules: ConnectionRules;
+}
+
+/**
+ * The line drawn while dragging a new connection. Over a node the connection rules reject it
+ * turns red and dashed and says why, whether the rules block the drop ('enforce') or only flag
+ * it ('warn')
+ */
+export const RuleConnectionLine = ({
+  fromNode,
+  fromHandle,
+  toNode,
+  fromX,
+  fromY,
+  toX,
+  toY,
+  fromPosition,
+  toPosition,
+  connectionLineStyle,
+  rules,
+}: RuleConnectionLineProps) => {
+  // Dragging from a target handle connects the other way round
+  const [source, target] = fromHandle.type === 'source' ? [fromNode, toNode] : [toNode, fromNode];
+  const check = source && target
+    ? checkConnection(source.type as NodeKind, target.type as NodeKind, rules)
+    : { valid: true };
+
+  const [path] = getBezierPath({
+    sourceX: fromX,
+    sourceY: fromY,
+    sourcePosition: fromPosition,
+    targetX: toX,
+    targetY: toY,
+    targetPosition: toPosition,
+  });
+
+  return (
+    <g>
+      <path
+        d={path}
+        fill="none"
+        style={check.valid ? connectionLineStyle : { ...connectionLineStyle, stroke: '#ef4444', strokeDasharray: '6 4' }}
+      />
+      {!check.valid && check.message && (
+        <text
+          x={toX + 12}
+          y={toY - 12}
+          fontSize={11}
+          fill="#b91c1c"
+          paintOrder="stroke"
+          stroke="#ffffff"
+          strokeWidth={4}
+        >
+          ⚠️ {check.message}
+        </text>
+      )}
+    </g>
+  );
+};
+
+RuleConnectionLine.displayName = 'RuleConnectionLine';
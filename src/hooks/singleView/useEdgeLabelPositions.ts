@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { Edge, Node } from '@xyflow/react';
+import { LayoutConfig } from '../../models/singleView/nodeTypes';
+import { getPlacedBoxes } from '../../utils/singleView/incrementalLayout';
+import { placeEdgeLabels } from '../../utils/singleView/edgeLabels';
+import { EdgeOffset } from '../../utils/singleView/edgeSeparation';
+
+type Point = { x: number; y: number };
+
+/**
+ * Label centres for the labelled edges on the canvas, clear of nodes and of each other.
+ * Recomputed as nodes move, so labels stay out of the way of dragged nodes
+ */
+export const useEdgeLabelPositions = (
+  edges: Edge[],
+  nodes: Node[],
+  config: LayoutConfig,
+  routes?: Map<string, Point[]> | null,
+  offsets?: Map<string, EdgeOffset> | null
+) => useMemo(
+  () => placeEdgeLabels(
+    edges.map(edge => ({ ...edge, label: typeof edge.label === 'string' ? edge.label : undefined })),
+    getPlacedBoxes(nodes, config),
+    routes,
+    offsets
+  ),
+  [edges, nodes, config, routes, offsets]
+);
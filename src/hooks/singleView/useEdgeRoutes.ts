@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { Node } from '@xyflow/react';
+import { LayoutConfig, WorkflowLayout } from '../../models/singleView/nodeTypes';
+import { PlacedBox, getPlacedBoxes } from '../../utils/singleView/incrementalLayout';
+import { RoutePorts, routeEdges } from '../../utils/singleView/edgeRouting';
+
+type Point = { x: number; y: number };
+type RoutedEdge = { id: string; source: string; target: string };
+
+// Stored positions are whole pixels more often than not
+const POSITION_TOLERANCE = 0.5;
+
+const PORTS: RoutePorts = { source: 'right', target: 'left' };
+
+interface RoutedCanvas {
+  edges: RoutedEdge[];
+  config: LayoutConfig;
+  stored?: WorkflowLayout;
+  geometry: Map<string, string>;  // Position and size of each node the routes were made for
+  routes: Map<string, Point[]>;
+  isDragging: boolean;
+}
+
+const getGeometry = (boxes: PlacedBox[]) => new Map(boxes.map(({ id, position, size }) =>
+  [id, `${position.x},${position.y},${size.width},${size.height}`]
+));
+
+/**
+ * Orthogonal routes for the edges on the canvas, by edge id, or null unless `config.edgeRouting`
+ * is 'orthogonal'. Routes follow the nodes as they're dragged or measured. While every node is
+ * where `stored` has it and `stored` routes every edge, the stored routes are used as they are.
+ * Changes that don't move a node (e.g. selection) keep the routes. While nodes are dragged only
+ * the edges touching them are routed again, and everything is once the drag ends.
+ * Viewer and editor nodes have their handles on the left and right in either orientation
+ */
+export const useEdgeRoutes = (
+  edges: RoutedEdge[],
+  nodes: Node[],
+  config: LayoutConfig,
+  stored?: WorkflowLayout
+): Map<string, Point[]> | null => {
+  // Routes from the last render no node was being dragged in
+  const settledRef = useRef<RoutedCanvas | null>(null);
+
+  const routed = useMemo((): RoutedCanvas | null => {
+    if (config.edgeRouting !== 'orthogonal') return null;
+
+    const boxes = getPlacedBoxes(nodes, config);
+    const geometry = getGeometry(boxes);
+    const isDragging = nodes.some(node => node.dragging);
+    const canvas = { edges, config, stored, geometry, isDragging };
+
+    const settled = settledRef.current;
+    const movedIds = settled && settled.edges === edges && settled.config === config &&
+      settled.stored === stored && settled.geometry.size === geometry.size
+      ? new Set(nodes.filter(node => settled.geometry.get(node.id) !== geometry.get(node.id)).map(node => node.id))
+      : null;
+    if (settled && movedIds?.size === 0) {
+      return { ...canvas, routes: settled.routes };
+    }
+
+    const storedRoutes = stored?.edgeRoutes;
+    const atStoredPositions = nodes.every(node => {
+      const position = stored?.positions[node.id];
+      return position &&
+        Math.abs(position.x - node.position.x) <= POSITION_TOLERANCE &&
+        Math.abs(position.y - node.position.y) <= POSITION_TOLERANCE;
+    });
+    if (storedRoutes && atStoredPositions && edges.every(edge => storedRoutes[edge.id])) {
+      return { ...canvas, routes: new Map(edges.map(edge => [edge.id, storedRoutes[edge.id]])) };
+    }
+
+    if (settled && movedIds && isDragging) {
+      const touched = edges.filter(edge => movedIds.has(edge.source) || movedIds.has(edge.target));
+      return { ...canvas, routes: new Map([...settled.routes, ...routeEdges(touched, boxes, PORTS)]) };
+    }
+
+    return { ...canvas, routes: routeEdges(edges, boxes, PORTS) };
+  }, [edges, nodes, config, stored]);
+
+  useEffect(() => {
+    if (!routed?.isDragging) {
+      settledRef.current = routed;
+    }
+  }, [routed]);
+
+  return routed?.routes ?? null;
+};
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { Node } from '@xyflow/react';
+import { LayoutConfig } from '../../models/singleView/nodeTypes';
+import { getPlacedBoxes } from '../../utils/singleView/incrementalLayout';
+import { EdgeOffset, calculateEdgeOffsets } from '../../utils/singleView/edgeSeparation';
+
+/**
+ * Attach point offsets and bends for the curved edges on the canvas, by edge id, or null when
+ * `config.edgeRouting` is 'orthogonal' (the router keeps those apart). 'bundled' routing bundles
+ * the edges of busy nodes. Follows the nodes as they're dragged or measured
+ */
+export const useEdgeSeparation = (
+  edges: Array<{ id: string; source: string; target: string }>,
+  nodes: Node[],
+  config: LayoutConfig
+) => useMemo((): Map<string, EdgeOffset> | null => {
+  if (config.edgeRouting === 'orthogonal') return null;
+  return calculateEdgeOffsets(edges, getPlacedBoxes(nodes, config), { bundle: config.edgeRouting === 'bundled' });
+}, [edges, nodes, config]);
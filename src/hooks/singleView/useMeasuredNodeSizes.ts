@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react';
+import { Node, OnNodesChange } from '@xyflow/react';
+import { NodeSizes } from '../../utils/singleView/nodeSizing';
+
+// Re-measuring a node can differ by a fraction of a pixel; that doesn't warrant a new layout
+const SIZE_TOLERANCE = 1;
+
+/**
+ * Node sizes React Flow measured, collected from the dimension changes it reports
+ * Returns the sizes and a nodes-change handler that records them before passing the changes on.
+ * The map is only replaced when a size really changed, so a layout can depend on it: the first
+ * pass uses estimated sizes and measuring the rendered nodes triggers a second, exact pass
+ */
+export const useMeasuredNodeSizes = <N extends Node>(onNodesChange: OnNodesChange<N>) => {
+  const [sizes, setSizes] = useState<NodeSizes>(() => new Map());
+
+  const handleNodesChange = useCallback<OnNodesChange<N>>(changes => {
+    onNodesChange(changes);
+    const measured = changes.flatMap(change =>
+      change.type === 'dimensions' && change.dimensions ? [{ id: change.id, ...change.dimensions }] : []
+    );
+    if (measured.length === 0) return;
+
+    setSizes(current => {
+      const changed = measured.filter(({ id, width, height }) => {
+        const known = current.get(id);
+        return !known || Math.abs(known.width - width) > SIZE_TOLERANCE || Math.abs(known.height - height) > SIZE_TOLERANCE;
+      });
+      if (changed.length === 0) return current;
+      const next = new Map(current);
+      changed.forEach(({ id, width, height }) => next.set(id, { width, height }));
+      return next;
+    });
+  }, [onNodesChange]);
+
+  return [sizes, handleNodesChange] as const;
+};
@@ -0,0 +1,49 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef } from 'react';
+import { Node } from '@xyflow/react';
+
+type Point = { x: number; y: number };
+
+const ANIMATION_MS = 400;
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+/**
+ * Moves nodes to new positions with a short eased transition instead of a jump
+ * Returns `animateTo(targets)`; a new call takes over from wherever the nodes are by then.
+ * Users who prefer reduced motion get the jump
+ */
+export const useNodePositionAnimation = <N extends Node>(setNodes: Dispatch<SetStateAction<N[]>>) => {
+  const frameRef = useRef<number | null>(null);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  return useCallback((targets: Map<string, Point>) => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    if (targets.size === 0) return;
+
+    const reduceMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+    const startedAt = performance.now();
+    let starts: Map<string, Point> | null = null;
+
+    const step = (now: number) => {
+      const progress = reduceMotion ? 1 : Math.min(1, (now - startedAt) / ANIMATION_MS);
+      const eased = easeInOut(progress);
+      setNodes(current => {
+        starts ??= new Map(current.map(node => [node.id, node.position]));
+        return current.map(node => {
+          const target = targets.get(node.id);
+          const start = starts!.get(node.id);
+          if (!target || !start) return node;
+          return {
+            ...node,
+            position: { x: start.x + (target.x - start.x) * eased, y: start.y + (target.y - start.y) * eased },
+          };
+        });
+      });
+      frameRef.current = progress < 1 ? requestAnimationFrame(step) : null;
+    };
+    frameRef.current = requestAnimationFrame(step);
+  }, [setNodes]);
+};
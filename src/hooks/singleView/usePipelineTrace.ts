@@ -0,0 +1,27 @@
+import { useState, useSyncExternalStore } from 'react';
+import {
+  PipelineRecorder,
+  createPipelineRecorder,
+  isPipelineDebugEnabled,
+  setPipelineDebugEnabled,
+  subscribePipelineDebug,
+} from '../../utils/singleView/pipelineTrace';
+
+/**
+ * Whether pipeline debugging (and with it the inspector) is on, and a setter
+ */
+export const usePipelineDebug = () => {
+  const enabled = useSyncExternalStore(subscribePipelineDebug, isPipelineDebugEnabled);
+  return [enabled, setPipelineDebugEnabled] as const;
+};
+
+/**
+ * A recorder that lives as long as the calling view
+ */
+export const usePipelineRecorder = (): PipelineRecorder => useState(createPipelineRecorder)[0];
+
+/**
+ * The stages recorded so far, re-rendering whenever one is recorded
+ */
+export const usePipelineTrace = (recorder: PipelineRecorder) =>
+  useSyncExternalStore(recorder.subscribe, recorder.getTrace);
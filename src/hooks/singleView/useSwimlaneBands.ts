@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { Node } from '@xyflow/react';
+import { LayoutConfig, WorkflowData } from '../../models/singleView/nodeTypes';
+import { assignSwimlanes, getSwimlaneBands } from '../../utils/singleView/swimlaneLayout';
+import { getPlacedBoxes } from '../../utils/singleView/incrementalLayout';
+
+/**
+ * Lane backgrounds for the nodes where they currently are, so the lanes follow dragged nodes
+ * Lanes are reassigned when the workflow or `config.swimlaneKey` changes; none without a key
+ */
+export const useSwimlaneBands = (workflowData: WorkflowData | null, nodes: Node[], config: LayoutConfig) => {
+  const { swimlaneKey } = config;
+  const assignment = useMemo(
+    () => (workflowData && swimlaneKey ? assignSwimlanes(workflowData, swimlaneKey) : null),
+    [workflowData, swimlaneKey]
+  );
+
+  return useMemo(() => {
+    if (!assignment) return [];
+    const boxes = getPlacedBoxes(nodes, config);
+    return getSwimlaneBands(
+      assignment.lanes,
+      assignment.laneOf,
+      new Map(boxes.map(box => [box.id, box.position])),
+      new Map(boxes.map(box => [box.id, box.size])),
+      config
+    );
+  }, [assignment, nodes, config]);
+};
@@ -0,0 +1,55 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { Viewport } from '@xyflow/react';
+
+export interface ViewerSelection {
+  nodeId?: string | null;
+  edgeId?: string | null;
+}
+
+/**
+ * Reads and writes viewer state that should survive a shared link:
+ * ?node=<id> | ?edge=<id> for the selection and ?x=&y=&zoom= for the viewport
+ */
+export const useViewerUrlState = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const selection = useMemo<ViewerSelection>(() => ({
+    nodeId: searchParams.get('node'),
+    edgeId: searchParams.get('edge'),
+  }), [searchParams]);
+
+  const viewport = useMemo<Viewport | undefined>(() => {
+    const x = Number(searchParams.get('x'));
+    const y = Number(searchParams.get('y'));
+    const zoom = Number(searchParams.get('zoom'));
+    if (!searchParams.has('zoom') || [x, y, zoom].some(Number.isNaN) || zoom <= 0) {
+      return undefined;
+    }
+    return { x, y, zoom };
+  }, [searchParams]);
+
+  // Replace instead of push so panning around doesn't flood the history stack
+  const setSelection = useCallback(({ nodeId, edgeId }: ViewerSelection) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete('node');
+      next.delete('edge');
+      if (nodeId) next.set('node', nodeId);
+      if (edgeId) next.set('edge', edgeId);
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const setViewport = useCallback(({ x, y, zoom }: Viewport) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set('x', String(Math.round(x)));
+      next.set('y', String(Math.round(y)));
+      next.set('zoom', zoom.toFixed(2));
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  return { selection, viewport, setSelection, setViewport };
+};
@@ -0,0 +1,120 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { LayoutConfig, WorkflowData } from '../../models/singleView/nodeTypes';
+import { NodeSizes } from '../../utils/singleView/nodeSizing';
+import {
+  CachedLayout,
+  LayoutWorkerRequest,
+  LayoutWorkerResponse,
+  calculateWorkerLayout,
+  hashLayoutInput,
+  readLayoutCache,
+  writeLayoutCache,
+} from '../../utils/layoutWorkerProtocol';
+
+interface WorkerLayoutState extends CachedLayout {
+  key: string;
+  cached: boolean;
+}
+
+const createLayoutWorker = () =>
+  new Worker(new URL('../../workers/layout.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * `calculateWorkerLayout` in a Web Worker, so large workflows don't freeze the page
+ * Layouts are cached by a structural hash of the input; only a change to the graph, the config or
+ * the measured sizes starts a new one. `layout` is null until the layout for the current input is
+ * ready, and `isRunning` is true while it's being computed. Starting a new layout abandons the one
+ * in progress. Without Web Worker support the layout runs in place
+ */
+export const useWorkerLayout = (workflowData: WorkflowData | null, config: LayoutConfig, measured: NodeSizes) => {
+  const [state, setState] = useState<WorkerLayoutState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<{ id: number; key: string } | null>(null);
+  const nextIdRef = useRef(0);
+  // Key of the layout currently wanted; replies for any other input are dropped
+  const latestKeyRef = useRef<string | null>(null);
+
+  const key = useMemo(
+    () => (workflowData ? hashLayoutInput(workflowData, config, measured) : null),
+    [workflowData, config, measured]
+  );
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pendingRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    latestKeyRef.current = key;
+    if (!key || !workflowData) return;
+    if (pendingRef.current?.key === key) return;
+
+    // A busy worker is still on an input that's no longer wanted, cached or not
+    if (pendingRef.current) {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pendingRef.current = null;
+    }
+
+    const cachedLayout = readLayoutCache(key);
+    if (cachedLayout) {
+      setState(current => (current?.key === key ? current : { key, ...cachedLayout, cached: true }));
+      setError(null);
+      return;
+    }
+
+    if (typeof Worker === 'undefined') {
+      const startedAt = performance.now();
+      try {
+        const entry = { layout: calculateWorkerLayout(workflowData, config, measured), durationMs: performance.now() - startedAt };
+        writeLayoutCache(key, entry);
+        setState({ key, ...entry, cached: false });
+        setError(null);
+      } catch (layoutError) {
+        setError(layoutError instanceof Error ? layoutError.message : String(layoutError));
+      }
+      return;
+    }
+
+    const worker = workerRef.current ?? (workerRef.current = createLayoutWorker());
+    const request: LayoutWorkerRequest = { type: 'layout', id: ++nextIdRef.current, workflowData, config, measured };
+    pendingRef.current = { id: request.id, key };
+    setError(null);
+
+    worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+      const response = event.data;
+      if (response.id !== pendingRef.current?.id) return;
+      const { key: requestKey } = pendingRef.current;
+      pendingRef.current = null;
+      const isLatest = requestKey === latestKeyRef.current;
+      if (response.type === 'error') {
+        if (isLatest) setError(response.message);
+        return;
+      }
+      const entry = { layout: response.layout, durationMs: response.durationMs };
+      writeLayoutCache(requestKey, entry);
+      if (!isLatest) return;
+      setState({ key: requestKey, ...entry, cached: false });
+      setError(null);
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      pendingRef.current = null;
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      setError(event.message || 'Layout worker failed');
+    };
+    worker.postMessage(request);
+  }, [key, workflowData, config, measured]);
+
+  const isCurrent = state !== null && state.key === key;
+  return {
+    layout: isCurrent ? state.layout : null,
+    durationMs: isCurrent ? state.durationMs : 0,
+    cached: isCurrent && state.cached,
+    isRunning: key !== null && !isCurrent && error === null,
+    error,
+  };
+};
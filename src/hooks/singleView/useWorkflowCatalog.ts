@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { WorkflowSummary } from '../../models/singleView/nodeTypes';
+import { isAbortError } from '../../utils/singleView/workflowHttpClient';
+import { useWorkflowRepository } from './useWorkflowRepository';
+
+/**
+ * Lists every workflow from the configured WorkflowRepository
+ */
+export const useWorkflowCatalog = () => {
+  const repository = useWorkflowRepository();
+  const [workflows, setWorkflows] = useState<WorkflowSummary[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+
+    try {
+      const list = await repository.list(controller.signal);
+      if (controller.signal.aborted) return;
+      setWorkflows(list);
+      setError(null);
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    load();
+    return () => controllerRef.current?.abort();
+  }, [load]);
+
+  return { workflows, error, isLoading, refetch: load };
+};
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { WorkflowData } from '../../models/singleView/nodeTypes';
+import { defaultWorkflowHttpConfig, isAbortError } from '../../utils/singleView/workflowHttpClient';
+import {
+  getWorkflowCacheKey,
+  readWorkflowCache,
+  writeWorkflowCache,
+  isCacheEntryStale,
+} from '../../utils/singleView/workflowCache';
+import { useWorkflowRepository } from './useWorkflowRepository';
+
+export interface UseWorkflowDataOptions {
+  version?: string;      // Specific workflow version, latest when omitted
+  staleTimeMs?: number;  // Cached entries older than this are revalidated
+  enabled?: boolean;
+}
+
+/**
+ * Loads a workflow definition through the configured WorkflowRepository
+ * Serves cached data immediately and revalidates it in the background once stale
+ * (stale-while-revalidate); in-flight requests are cancelled when the id changes
+ */
+export const useWorkflowData = (workflowId: string, options: UseWorkflowDataOptions = {}) => {
+  const repository = useWorkflowRepository();
+  const { version, staleTimeMs = defaultWorkflowHttpConfig.staleTimeMs } = options;
+  const enabled = (options.enabled ?? true) && !!workflowId;
+  const cacheKey = getWorkflowCacheKey(repository.kind, workflowId, version);
+
+  const [workflowData, setWorkflowData] = useState<WorkflowData | null>(
+    () => (enabled ? readWorkflowCache(cacheKey)?.data ?? null : null)
+  );
+  const [error, setError] = useState<Error | null>(null);
+  const [isError, setIsError] = useState(false);
+  const [isNotFound, setIsNotFound] = useState(false);
+  // Start in the loading state when a request is about to be made, so callers never
+  // briefly see "no data and not loading" before the first effect runs
+  const [isLoading, setIsLoading] = useState(() => enabled && !readWorkflowCache(cacheKey));
+  const [isFetching, setIsFetching] = useState(false);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Runs one request, replacing (and cancelling) any request in flight
+   */
+  const load = useCallback(async (hasData: boolean) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setIsFetching(true);
+    setIsLoading(!hasData);
+
+    try {
+      const data = await repository.get(workflowId, { version, signal: controller.signal });
+      // Local backends ignore the signal, so drop results that arrive after cancellation
+      if (controller.signal.aborted) return;
+      if (data) {
+        writeWorkflowCache(cacheKey, data);
+      }
+      setWorkflowData(data);
+      setIsNotFound(!data);
+      setError(null);
+      setIsError(false);
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      setError(err instanceof Error ? err : new Error(String(err)));
+      setIsError(true);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsFetching(false);
+        setIsLoading(false);
+      }
+    }
+  }, [repository, workflowId, version, cacheKey]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setWorkflowData(null);
+      setError(null);
+      setIsError(false);
+      setIsNotFound(false);
+      setIsLoading(false);
+      return;
+    }
+
+    const cached = readWorkflowCache(cacheKey);
+    setWorkflowData(cached?.data ?? null);
+    setError(null);
+    setIsError(false);
+    setIsNotFound(false);
+
+    if (!cached || isCacheEntryStale(cached, staleTimeMs)) {
+      load(!!cached);
+    }
+
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      setIsFetching(false);
+      setIsLoading(false);
+    };
+  }, [enabled, cacheKey, staleTimeMs, load]);
+
+  /**
+   * Forces a round-trip to the repository, keeping the current data visible meanwhile
+   */
+  const refetch = useCallback(() => {
+    if (!enabled) return Promise.resolve();
+    return load(!!readWorkflowCache(cacheKey));
+  }, [enabled, cacheKey, load]);
+
+  return {
+    data: workflowData,
+    error,
+    isError,
+    isNotFound,
+    isLoading,
+    isFetching,
+    isRemote: repository.kind === 'rest',
+    refetch
+  };
+};
@@ -0,0 +1,11 @@
+import { createContext, useContext } from 'react';
+import { WorkflowRepository, getDefaultWorkflowRepository } from '../../repositories';
+
+/**
+ * Lets a subtree use a different backend (e.g. an in-memory repository in demos)
+ * Without a provider the configured app-wide repository is used
+ */
+export const WorkflowRepositoryContext = createContext<WorkflowRepository | null>(null);
+
+export const useWorkflowRepository = (): WorkflowRepository =>
+  useContext(WorkflowRepositoryContext) ?? getDefaultWorkflowRepository();
@@ -0,0 +1,33 @@
+import { WorkflowData } from './nodeTypes';
+
+/**
+ * ============= VALIDATION DIAGNOSTICS =============
+ * Problems found (and possibly repaired) while validating a workflow
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'EMPTY_WORKFLOW'         // No nodes at all
+  | 'DUPLICATE_NODE_ID'      // Later duplicates are removed
+  | 'DUPLICATE_EDGE_ID'      // Later duplicates get a unique id
+  | 'BLANK_EDGE_ENDPOINT'    // Edge without a source or target - removed
+  | 'DANGLING_EDGE'          // Edge pointing at a node that doesn't exist - removed
+  | 'SELF_LOOP'              // Edge from a node to itself
+  | 'INVALID_CONNECTION'     // Edge that breaks the connection rules (e.g. status → status)
+  | 'IMPORT_WARNING'         // Something in an imported document that couldn't be carried over
+  | 'EMPTY_LABEL';           // Node without a visible label
+
+export interface WorkflowDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  nodeIds: string[];
+  edgeIds: string[];
+  repaired?: boolean;  // True when validation changed the data to work around the problem
+}
+
+export interface ValidationResult {
+  data: WorkflowData;
+  diagnostics: WorkflowDiagnostic[];
+}
@@ -0,0 +1,49 @@
+import { WorkflowData } from './nodeTypes';
+
+/**
+ * ============= IMPORT / EXPORT =============
+ * Shapes shared by the converters between WorkflowData and external formats
+ */
+
+export type ImportWarningCode =
+  | 'UNSUPPORTED_ELEMENT'    // Element type with no workflow equivalent - skipped
+  | 'COLLAPSED_ELEMENT'      // Element replaced by direct edges (e.g. a BPMN gateway)
+  | 'MISSING_REFERENCE'      // Flow/transition pointing at an element that doesn't exist
+  | 'MULTIPLE_ROOTS'         // Several processes/machines - only the first is imported
+  | 'INVALID_VALUE'          // Attribute that couldn't be interpreted
+  | 'MIGRATED';              // Older document version upgraded to the current one
+
+export interface ImportWarning {
+  code: ImportWarningCode;
+  message: string;
+  elementId?: string;    // Id in the source document
+  elementType?: string;  // e.g. "bpmn:exclusiveGateway"
+}
+
+export interface ImportResult {
+  workflow: WorkflowData;   // Carries `layout` when the source had coordinates
+  warnings: ImportWarning[];
+}
+
+// Identifies a converter in the format registry
+export type WorkflowFormatId = 'bpmn' | 'scxml' | 'xstate' | 'mermaid' | 'mermaid-state' | 'dot' | 'json';
+
+export interface WorkflowImporter {
+  format: WorkflowFormatId;
+  label: string;
+  extensions: string[];              // File extensions, without the dot
+  detect: (text: string) => boolean; // Cheap content sniffing for pasted text
+  parse: (text: string) => ImportResult;
+}
+
+// Node positions keyed by node id - the same shape as WorkflowLayout.positions
+export type NodePositions = Record<string, { x: number; y: number }>;
+
+export interface WorkflowExporter {
+  format: WorkflowFormatId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  // Positions are only used by formats that carry a diagram
+  serialize: (workflow: WorkflowData, positions: NodePositions) => string;
+}
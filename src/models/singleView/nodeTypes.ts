@@ -3,11 +3,35 @@
  * These define the shape of our workflow data and nodes
  */
 
+// How an event is triggered
+export interface EventTrigger {
+  automatic: boolean;
+  external: boolean;
+}
+
+// Details of an event (transition block) - what the editor's side panel collects
+export interface EventMetadata {
+  businessEventName?: string;
+  focalEntity?: string;
+  description?: string;
+  createdEntities?: string[];
+  modifiedEntities?: string[];
+  businessEvents?: string[];
+  condition?: string;       // Guard for the transition; "None" or absent when unconditional
+  trigger?: EventTrigger;
+}
+
+// Details of a status (state)
+export interface StatusMetadata {
+  description?: string;
+}
+
 // Core workflow data structure - represents a single workflow step
 export interface WorkflowNode {
   id: string;
   type: 'status' | 'event';  // Status = circular nodes, Event = rectangular nodes
   label: string;
+  metadata?: EventMetadata | StatusMetadata;  // EventMetadata for events, StatusMetadata for statuses
 }
 
 // Connection between workflow nodes
@@ -18,6 +42,18 @@ export interface WorkflowEdge {
   label: string;
 }
 
+// Node coordinates carried with the workflow (imported diagrams, saved editor layouts)
+export interface WorkflowLayout {
+  positions: Record<string, { x: number; y: number }>;  // Top-left corner per node id
+  config?: Partial<LayoutConfig>;  // Overrides of defaultLayoutConfig for the automatic layout
+  edgeRoutes?: Record<string, Array<{ x: number; y: number }>>;  // Orthogonal bends per edge id, for these positions
+}
+
+// Editor settings saved with the workflow
+export interface WorkflowEditorMetadata {
+  connectionRuleMode?: 'enforce' | 'warn' | 'off';
+}
+
 // Complete workflow definition
 export interface WorkflowData {
   id: string;
@@ -25,6 +61,20 @@ export interface WorkflowData {
   description: string;
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
+  updatedAt?: string;  // ISO timestamp of the last modification, when the source provides one
+  layout?: WorkflowLayout;  // Used instead of the automatic layout when it covers every node
+  editor?: WorkflowEditorMetadata;
+}
+
+// Lightweight catalog entry - enough to list workflows without loading every graph
+export interface WorkflowSummary {
+  key: string;         // Identifier used in routes (/view/:key, /editor/:key)
+  id: string;
+  name: string;
+  description: string;
+  nodeCount: number;
+  edgeCount: number;
+  updatedAt?: string;
 }
 
 // Raw data that might come from backend APIs (flexible structure)
@@ -32,14 +82,27 @@ export interface RawWorkflowData {
   [key: string]: any;
 }
 
+// 'layered' - Sugiyama-style layering with crossing minimisation; 'bfs' - the original level stacking
+export type LayoutAlgorithm = 'layered' | 'bfs';
+
+// Event metadata that swimlanes group by; 'trigger' groups automatic, external and manual events
+export type SwimlaneKey = 'focalEntity' | 'trigger' | 'condition';
+
+// 'bezier' - curves straight between the handles; 'bundled' - curves that share a run out of busy
+// nodes; 'orthogonal' - right-angled routes around the nodes
+export type EdgeRouting = 'bezier' | 'bundled' | 'orthogonal';
+
 // Layout configuration for positioning nodes
 export interface LayoutConfig {
-  workflowWidth: number;
-  workflowHeight: number;
-  stageWidth: number;
+  workflowWidth: number;   // Area the layout is centred in across a vertical flow
+  workflowHeight: number;  // Area the layout is centred in across a horizontal flow
+  stageWidth: number;      // Smallest footprint of a node; larger nodes take their own size
   stageHeight: number;
-  circleSize: number;
-  padding: number;
-  spacing: number;
+  circleSize: number;      // Smallest status diameter assumed before a node is measured
+  padding: number;         // Margin around the layout
+  spacing: number;         // Layer distance centre to centre (more for thick layers); a third of it between nodes
   isHorizontal: boolean;
+  algorithm?: LayoutAlgorithm;  // Defaults to 'layered'
+  swimlaneKey?: SwimlaneKey;    // Lays the workflow out in lanes by this key (layered within lanes)
+  edgeRouting?: EdgeRouting;    // Defaults to 'bezier'
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * ============= DATA PIPELINE TRACE =============
+ * What each step between the backend payload and the canvas produced, for the inspector
+ */
+
+export type PipelineStageId =
+  | 'raw'          // Payload as received
+  | 'transformed'  // After field mapping (transformWorkflowData)
+  | 'validated'    // After validateWorkflowData
+  | 'layout'       // Levels and positions
+  | 'reactFlow';   // Nodes and edges handed to React Flow
+
+export interface PipelineStage {
+  id: PipelineStageId;
+  durationMs: number;
+  counts: Record<string, number>;
+  details?: Record<string, string>;  // Short facts, e.g. the mapping profile that matched
+  data: unknown;                     // The stage output, kept by reference
+  error?: string;                    // Set when the step threw
+  recordedAt: number;
+}
+
+export type PipelineTrace = Partial<Record<PipelineStageId, PipelineStage>>;
+
+/**
+ * Ids that differ between two stages; `changed` only lists items both stages
+ * describe the same way (e.g. positions in the layout and on the canvas)
+ */
+export interface PipelineCollectionDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface PipelineStageDiff {
+  nodes?: PipelineCollectionDiff;
+  edges?: PipelineCollectionDiff;
+}
@@ -0,0 +1,18 @@
+import { WorkflowData, WorkflowEditorMetadata, WorkflowLayout } from './nodeTypes';
+
+/**
+ * ============= WORKFLOW DOCUMENT =============
+ * The canonical file format: a versioned envelope around the workflow graph, its
+ * layout and editor settings. The JSON Schema lives in src/schemas
+ */
+
+export const WORKFLOW_DOCUMENT_FORMAT = 'pmf-workflow';
+
+export interface WorkflowDocument {
+  $schema?: string;
+  format: typeof WORKFLOW_DOCUMENT_FORMAT;
+  version: number;
+  workflow: Omit<WorkflowData, 'layout' | 'editor'>;
+  layout?: WorkflowLayout;
+  editor?: WorkflowEditorMetadata;
+}
@@ -20,7 +20,7 @@ export const EventNode = memo(({ data, selected, id }: NodeProps) => {
   return (
     <div className="relative group">
       <div className={`
-        w-24 h-16 border-2 flex items-center justify-center text-center text-sm font-medium
+        min-w-24 max-w-64 min-h-16 py-2 border-2 flex items-center justify-center text-center text-sm font-medium
         ${selected ? 'border-blue-500 bg-blue-50' : 'border-slate-300 bg-slate-50'}
         hover:shadow-lg transition-all duration-200
       `}>
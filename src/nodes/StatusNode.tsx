@@ -20,7 +20,7 @@ export const StatusNode = memo(({ data, selected, id }: NodeProps) => {
   return (
     <div className="relative group">
       <div className={`
-        w-20 h-20 rounded-full border-2 flex items-center justify-center text-center text-sm font-medium
+        min-w-20 max-w-40 aspect-square p-2 rounded-full border-2 flex items-center justify-center text-center text-sm font-medium
         ${selected ? 'border-blue-500 bg-blue-50' : 'border-amber-300 bg-amber-50'}
         hover:shadow-lg transition-all duration-200
       `}>
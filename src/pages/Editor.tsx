@@ -1,7 +1,10 @@
+import { useParams } from "react-router-dom";
 import { WorkflowEditor } from "@/components/WorkflowEditor";
 
 const EditorPage = () => {
-  return <WorkflowEditor />;
+  const { workflowId } = useParams();
+  // Not keyed by id: saving a new workflow moves it to /editor/:workflowId without remounting
+  return <WorkflowEditor workflowId={workflowId} />;
 };
 
-export default EditorPage;
\ No newline at end of file
+export default EditorPage;
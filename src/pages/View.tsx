@@ -1,7 +1,29 @@
+import { Navigate, useLocation, useParams } from "react-router-dom";
 import { SingleViewWorkflowBuilder } from "@/components/SingleViewWorkflowBuilder";
+import { useViewerUrlState } from "@/hooks/singleView/useViewerUrlState";
+import { defaultWorkflow } from "@/utils/singleView/workflowDataUtils";
 
 const ViewPage = () => {
-  return <SingleViewWorkflowBuilder workflowId="ebm-version" />;
+  const { workflowId, version } = useParams();
+  const location = useLocation();
+  const { selection, viewport, setSelection, setViewport } = useViewerUrlState();
+
+  // Bare /view keeps working by redirecting to the default workflow
+  if (!workflowId) {
+    return <Navigate to={`/view/${defaultWorkflow}${location.search}`} replace />;
+  }
+
+  return (
+    <SingleViewWorkflowBuilder
+      key={`${workflowId}@${version ?? 'latest'}`}
+      workflowId={workflowId}
+      version={version}
+      initialSelection={selection}
+      initialViewport={viewport}
+      onSelectionChange={setSelection}
+      onViewportChange={setViewport}
+    />
+  );
 };
 
-export default ViewPage;
\ No newline at end of file
+export default ViewPage;
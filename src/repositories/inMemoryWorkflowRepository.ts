@@ -0,0 +1,38 @@
+import { WorkflowData } from '../models/singleView/nodeTypes';
+import { mockWorkflows } from '../utils/singleView/workflowDataUtils';
+import {
+  WorkflowRepository,
+  StoredWorkflowRecord,
+  createSeedRecords,
+  createVersionedWorkflowRepository,
+} from './workflowRepository';
+
+// Records are deep-copied on the way in and out so callers can't mutate stored versions
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Keeps workflows in memory for the lifetime of the page, seeded from the bundled mocks
+ */
+export const createInMemoryWorkflowRepository = (
+  seed: Record<string, WorkflowData> = mockWorkflows
+): WorkflowRepository => {
+  const records = new Map<string, StoredWorkflowRecord>(
+    createSeedRecords(seed).map(record => [record.key, clone(record)])
+  );
+
+  return createVersionedWorkflowRepository('memory', {
+    async readAll() {
+      return Array.from(records.values()).map(clone);
+    },
+    async read(key) {
+      const record = records.get(key);
+      return record ? clone(record) : undefined;
+    },
+    async write(record) {
+      records.set(record.key, clone(record));
+    },
+    async remove(key) {
+      records.delete(key);
+    },
+  });
+};
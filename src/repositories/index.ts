@@ -0,0 +1,51 @@
+import { defaultWorkflowHttpConfig } from '../utils/singleView/workflowHttpClient';
+import { WorkflowRepository, WorkflowRepositoryKind } from './workflowRepository';
+import { createInMemoryWorkflowRepository } from './inMemoryWorkflowRepository';
+import { createLocalStorageWorkflowRepository } from './localStorageWorkflowRepository';
+import { createIndexedDbWorkflowRepository } from './indexedDbWorkflowRepository';
+import { createRestWorkflowRepository } from './restWorkflowRepository';
+
+export * from './workflowRepository';
+export { createInMemoryWorkflowRepository } from './inMemoryWorkflowRepository';
+export { createLocalStorageWorkflowRepository } from './localStorageWorkflowRepository';
+export { createIndexedDbWorkflowRepository } from './indexedDbWorkflowRepository';
+export { createRestWorkflowRepository } from './restWorkflowRepository';
+
+const repositoryKinds: WorkflowRepositoryKind[] = ['memory', 'localStorage', 'indexedDB', 'rest'];
+
+/**
+ * Picks the backend from VITE_WORKFLOW_REPOSITORY, defaulting to REST when an API
+ * base URL is configured and to the in-memory mocks otherwise
+ */
+export const resolveWorkflowRepositoryKind = (
+  configured: string | undefined = import.meta.env.VITE_WORKFLOW_REPOSITORY
+): WorkflowRepositoryKind => {
+  if (configured && repositoryKinds.includes(configured as WorkflowRepositoryKind)) {
+    return configured as WorkflowRepositoryKind;
+  }
+  return defaultWorkflowHttpConfig.baseUrl ? 'rest' : 'memory';
+};
+
+export const createWorkflowRepository = (kind: WorkflowRepositoryKind = resolveWorkflowRepositoryKind()): WorkflowRepository => {
+  switch (kind) {
+    case 'localStorage':
+      return createLocalStorageWorkflowRepository();
+    case 'indexedDB':
+      return createIndexedDbWorkflowRepository();
+    case 'rest':
+      return createRestWorkflowRepository();
+    case 'memory':
+    default:
+      return createInMemoryWorkflowRepository();
+  }
+};
+
+let defaultRepository: WorkflowRepository | null = null;
+
+/**
+ * App-wide repository instance, created lazily so storage is only touched when needed
+ */
+export const getDefaultWorkflowRepository = (): WorkflowRepository => {
+  defaultRepository = defaultRepository || createWorkflowRepository();
+  return defaultRepository;
+};
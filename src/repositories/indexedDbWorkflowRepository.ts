@@ -0,0 +1,74 @@
+import { WorkflowData } from '../models/singleView/nodeTypes';
+import { mockWorkflows } from '../utils/singleView/workflowDataUtils';
+import {
+  WorkflowRepository,
+  StoredWorkflowRecord,
+  createSeedRecords,
+  createVersionedWorkflowRepository,
+} from './workflowRepository';
+
+const DEFAULT_DATABASE = 'pmf-workflows';
+const STORE_NAME = 'workflows';
+const DATABASE_VERSION = 1;
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens the database, creating the object store and seeding it on first use
+ */
+const openDatabase = (name: string, seed: Record<string, WorkflowData>): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        const store = database.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        createSeedRecords(seed).forEach(record => store.put(record));
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Persists workflows in IndexedDB - suited to larger graphs and long version histories
+ */
+export const createIndexedDbWorkflowRepository = (
+  databaseName: string = DEFAULT_DATABASE,
+  seed: Record<string, WorkflowData> = mockWorkflows
+): WorkflowRepository => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    databasePromise = databasePromise || openDatabase(databaseName, seed);
+    return databasePromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const database = await getDatabase();
+    const store = database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return requestToPromise(run(store));
+  };
+
+  return createVersionedWorkflowRepository('indexedDB', {
+    async readAll() {
+      return withStore<StoredWorkflowRecord[]>('readonly', store => store.getAll());
+    },
+    async read(key) {
+      return withStore<StoredWorkflowRecord | undefined>('readonly', store => store.get(key));
+    },
+    async write(record) {
+      await withStore('readwrite', store => store.put(record));
+    },
+    async remove(key) {
+      await withStore('readwrite', store => store.delete(key));
+    },
+  });
+};
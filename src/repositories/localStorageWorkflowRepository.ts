@@ -0,0 +1,75 @@
+import { WorkflowData } from '../models/singleView/nodeTypes';
+import { mockWorkflows } from '../utils/singleView/workflowDataUtils';
+import {
+  WorkflowRepository,
+  StoredWorkflowRecord,
+  createSeedRecords,
+  createVersionedWorkflowRepository,
+} from './workflowRepository';
+
+const DEFAULT_PREFIX = 'pmf.workflows';
+
+/**
+ * Persists workflows in localStorage, one entry per workflow plus an index of keys
+ * The store is seeded once from the bundled mocks so it's usable offline straight away
+ */
+export const createLocalStorageWorkflowRepository = (
+  prefix: string = DEFAULT_PREFIX,
+  seed: Record<string, WorkflowData> = mockWorkflows,
+  storage: Storage = window.localStorage
+): WorkflowRepository => {
+  const indexKey = `${prefix}.index`;
+  const recordKey = (key: string) => `${prefix}.workflow.${key}`;
+
+  const readIndex = (): string[] => {
+    try {
+      const keys = JSON.parse(storage.getItem(indexKey) || '[]');
+      return Array.isArray(keys) ? keys : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const writeIndex = (keys: string[]) => storage.setItem(indexKey, JSON.stringify(keys));
+
+  const readRecord = (key: string): StoredWorkflowRecord | undefined => {
+    try {
+      const raw = storage.getItem(recordKey(key));
+      return raw ? JSON.parse(raw) : undefined;
+    } catch {
+      return undefined;  // Corrupt entries are treated as missing rather than breaking the list
+    }
+  };
+
+  const writeRecord = (record: StoredWorkflowRecord) => {
+    storage.setItem(recordKey(record.key), JSON.stringify(record));
+    const keys = readIndex();
+    if (!keys.includes(record.key)) {
+      writeIndex([...keys, record.key]);
+    }
+  };
+
+  // The index doubles as the "already seeded" marker
+  if (storage.getItem(indexKey) === null) {
+    writeIndex([]);
+    createSeedRecords(seed).forEach(writeRecord);
+  }
+
+  return createVersionedWorkflowRepository('localStorage', {
+    async readAll() {
+      return readIndex()
+        .map(readRecord)
+        .filter((record): record is StoredWorkflowRecord => !!record);
+    },
+    async read(key) {
+      return readRecord(key);
+    },
+    async write(record) {
+      writeRecord(record);
+    },
+    async remove(key) {
+      storage.removeItem(recordKey(key));
+      writeIndex(readIndex().filter(existing => existing !== key));
+    },
+  });
+};
@@ -0,0 +1,77 @@
+import { RawWorkflowData } from '../models/singleView/nodeTypes';
+import { transformWorkflowData, transformWorkflowSummary } from '../utils/singleView/workflowDataUtils';
+import {
+  WorkflowHttpConfig,
+  defaultWorkflowHttpConfig,
+  fetchWorkflowDefinition,
+  fetchWorkflowList,
+  fetchWorkflowVersions,
+  saveWorkflowDefinition,
+  deleteWorkflowDefinition,
+  isNotFoundError,
+} from '../utils/singleView/workflowHttpClient';
+import { WorkflowRepository, WorkflowVersionInfo } from './workflowRepository';
+
+/**
+ * Normalises a version entry from the backend, tolerating common field names
+ */
+const transformVersionInfo = (rawVersion: RawWorkflowData, index: number): WorkflowVersionInfo => {
+  const workflow = rawVersion.workflow ? transformWorkflowData(rawVersion.workflow) : null;
+  return {
+    version: String(rawVersion.version ?? rawVersion.versionId ?? rawVersion.id ?? index + 1),
+    savedAt: rawVersion.savedAt || rawVersion.createdAt || rawVersion.updatedAt || rawVersion.created_at || '',
+    name: rawVersion.name || workflow?.name || '',
+    nodeCount: Number(rawVersion.nodeCount ?? workflow?.nodes.length ?? 0),
+    edgeCount: Number(rawVersion.edgeCount ?? workflow?.edges.length ?? 0),
+  };
+};
+
+/**
+ * Talks to a workflow REST API (see README for the expected endpoints)
+ * Responses go through transformWorkflowData so any supported payload shape works
+ */
+export const createRestWorkflowRepository = (
+  config: WorkflowHttpConfig = defaultWorkflowHttpConfig
+): WorkflowRepository => ({
+  kind: 'rest',
+
+  async list(signal) {
+    const rawList = await fetchWorkflowList(config, signal);
+    return rawList.map(transformWorkflowSummary);
+  },
+
+  async get(key, { version, signal } = {}) {
+    try {
+      return transformWorkflowData(await fetchWorkflowDefinition(key, config, signal, version));
+    } catch (error) {
+      if (isNotFoundError(error)) return null;
+      throw error;
+    }
+  },
+
+  async save(key, workflow) {
+    const response = await saveWorkflowDefinition(key, workflow, config);
+    const saved = response?.nodes ? transformWorkflowData(response) : workflow;
+    return {
+      version: String(response?.version ?? ''),
+      savedAt: response?.savedAt || response?.updatedAt || new Date().toISOString(),
+      name: saved.name,
+      nodeCount: saved.nodes.length,
+      edgeCount: saved.edges.length,
+    };
+  },
+
+  async delete(key) {
+    await deleteWorkflowDefinition(key, config);
+  },
+
+  async listVersions(key, signal) {
+    try {
+      const rawVersions = await fetchWorkflowVersions(key, config, signal);
+      return rawVersions.map(transformVersionInfo);
+    } catch (error) {
+      if (isNotFoundError(error)) return [];
+      throw error;
+    }
+  },
+});
@@ -0,0 +1,148 @@
+import { WorkflowData, WorkflowSummary } from '../models/singleView/nodeTypes';
+import { summarizeWorkflow } from '../utils/singleView/workflowDataUtils';
+
+/**
+ * ============= WORKFLOW REPOSITORY =============
+ * Storage-agnostic access to workflow definitions. The viewer, editor and manager
+ * only talk to this interface, so backends can be swapped by configuration
+ */
+
+export type WorkflowRepositoryKind = 'memory' | 'localStorage' | 'indexedDB' | 'rest';
+
+// One saved snapshot of a workflow
+export interface WorkflowVersionInfo {
+  version: string;
+  savedAt: string;  // ISO timestamp
+  name: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export interface WorkflowGetOptions {
+  version?: string;  // Latest version when omitted
+  signal?: AbortSignal;
+}
+
+export interface WorkflowRepository {
+  readonly kind: WorkflowRepositoryKind;
+  list(signal?: AbortSignal): Promise<WorkflowSummary[]>;
+  // Resolves to null when the workflow (or the requested version) doesn't exist
+  get(key: string, options?: WorkflowGetOptions): Promise<WorkflowData | null>;
+  save(key: string, workflow: WorkflowData): Promise<WorkflowVersionInfo>;
+  delete(key: string): Promise<void>;
+  listVersions(key: string, signal?: AbortSignal): Promise<WorkflowVersionInfo[]>;
+}
+
+/**
+ * ============= VERSIONED RECORD STORAGE =============
+ * The local backends (memory, localStorage, IndexedDB) share the same record shape
+ * and version bookkeeping; they only differ in where records are kept
+ */
+
+export interface StoredWorkflowVersion {
+  version: string;
+  savedAt: string;
+  workflow: WorkflowData;
+}
+
+export interface StoredWorkflowRecord {
+  key: string;
+  versions: StoredWorkflowVersion[];  // Oldest first
+}
+
+export interface WorkflowRecordStore {
+  readAll(): Promise<StoredWorkflowRecord[]>;
+  read(key: string): Promise<StoredWorkflowRecord | undefined>;
+  write(record: StoredWorkflowRecord): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+const toVersionInfo = ({ version, savedAt, workflow }: StoredWorkflowVersion): WorkflowVersionInfo => ({
+  version,
+  savedAt,
+  name: workflow.name,
+  nodeCount: workflow.nodes.length,
+  edgeCount: workflow.edges.length,
+});
+
+/**
+ * Builds initial records from a keyed set of workflows (e.g. the bundled mocks)
+ */
+export const createSeedRecords = (workflows: Record<string, WorkflowData>): StoredWorkflowRecord[] =>
+  Object.entries(workflows).map(([key, workflow]) => ({
+    key,
+    versions: [{
+      version: '1',
+      savedAt: workflow.updatedAt || new Date(0).toISOString(),
+      workflow,
+    }],
+  }));
+
+/**
+ * Implements the repository contract on top of any record store
+ * Every save appends a new numbered version; get() returns the latest unless asked otherwise
+ */
+export const createVersionedWorkflowRepository = (
+  kind: WorkflowRepositoryKind,
+  store: WorkflowRecordStore
+): WorkflowRepository => ({
+  kind,
+
+  async list() {
+    const records = await store.readAll();
+    return records
+      .filter(record => record.versions.length > 0)
+      .map(record => summarizeWorkflow(record.key, record.versions[record.versions.length - 1].workflow));
+  },
+
+  async get(key, { version } = {}) {
+    const record = await store.read(key);
+    if (!record || record.versions.length === 0) return null;
+
+    const entry = version
+      ? record.versions.find(candidate => candidate.version === version)
+      : record.versions[record.versions.length - 1];
+    return entry ? entry.workflow : null;
+  },
+
+  async save(key, workflow) {
+    const record = (await store.read(key)) || { key, versions: [] };
+    const lastVersion = record.versions[record.versions.length - 1];
+    const savedAt = new Date().toISOString();
+    const entry: StoredWorkflowVersion = {
+      version: String((lastVersion ? Number(lastVersion.version) || record.versions.length : 0) + 1),
+      savedAt,
+      workflow: { ...workflow, updatedAt: savedAt },
+    };
+
+    await store.write({ key, versions: [...record.versions, entry] });
+    return toVersionInfo(entry);
+  },
+
+  async delete(key) {
+    await store.remove(key);
+  },
+
+  async listVersions(key) {
+    const record = await store.read(key);
+    return record ? record.versions.map(toVersionInfo).reverse() : [];
+  },
+});
+
+/**
+ * Turns a workflow name into a URL-safe repository key
+ */
+export const slugifyWorkflowName = (name: string) =>
+  name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || `workflow-${Date.now()}`;
+
+/**
+ * Key for a new workflow derived from its name, never overwriting another workflow
+ */
+export const findAvailableWorkflowKey = async (repository: WorkflowRepository, name: string) => {
+  const baseKey = slugifyWorkflowName(name);
+  let key = baseKey;
+  for (let suffix = 2; await repository.get(key); suffix++) {
+    key = `${baseKey}-${suffix}`;
+  }
+  return key;
+};
@@ -0,0 +1,100 @@
+import { LayoutConfig, WorkflowData } from '../models/singleView/nodeTypes';
+import { NodeSizes } from './singleView/nodeSizing';
+import { calculateSmartLayout } from './singleView/layout-utils';
+import { routeEdges } from './singleView/edgeRouting';
+
+/**
+ * ============= LAYOUT WORKER PROTOCOL =============
+ * Messages between `WorkflowManager` and the layout worker. Everything crosses by structured
+ * clone, so the layout's Maps and Sets arrive intact. Every request carries an id; the answer
+ * to a request that has been superseded is dropped
+ */
+
+/**
+ * The smart layout, plus orthogonal routes between the laid-out nodes when `config` asks for
+ * them. `WorkflowManager`'s edges use the orientation's forward handles; the router takes loops
+ * the long way round
+ */
+export const calculateWorkerLayout = (workflowData: WorkflowData, config: LayoutConfig, measured?: NodeSizes) => {
+  const layout = calculateSmartLayout(workflowData, config, measured);
+  if (config.edgeRouting !== 'orthogonal') return layout;
+  const boxes = Array.from(layout.positions, ([id, position]) => ({ id, position, size: layout.sizes.get(id)! }));
+  const edgeRoutes = routeEdges(workflowData.edges, boxes, config.isHorizontal
+    ? { source: 'right', target: 'left' }
+    : { source: 'bottom', target: 'top' });
+  return { ...layout, edgeRoutes };
+};
+
+export type WorkflowLayout = ReturnType<typeof calculateSmartLayout> & {
+  edgeRoutes?: Map<string, Array<{ x: number; y: number }>>;
+};
+
+export interface LayoutWorkerRequest {
+  type: 'layout';
+  id: number;
+  workflowData: WorkflowData;
+  config: LayoutConfig;
+  measured: NodeSizes;
+}
+
+export type LayoutWorkerResponse =
+  | { type: 'result'; id: number; layout: WorkflowLayout; durationMs: number }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * ============= LAYOUT CACHE =============
+ * Finished layouts by a hash of everything that shapes them: node ids, types and labels (labels
+ * decide estimated sizes), edges, the config and measured sizes. Node and edge order count too,
+ * since both layouts break ties by it. Module-level so reopening a workflow is instant
+ */
+
+export interface CachedLayout {
+  layout: WorkflowLayout;
+  durationMs: number;
+}
+
+// Enough for switching between a handful of workflows and both orientations
+const MAX_CACHED_LAYOUTS = 20;
+
+const layoutCache = new Map<string, CachedLayout>();
+
+// 53-bit string hash (cyrb53): cheap, and collisions are unlikely at this cache size
+const hashString = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export const hashLayoutInput = (workflowData: WorkflowData, config: LayoutConfig, measured: NodeSizes) => {
+  const nodes = workflowData.nodes.map(node => {
+    const size = measured.get(node.id);
+    return [node.id, node.type, node.label, size && `${Math.round(size.width)}x${Math.round(size.height)}`].join('\u0001');
+  });
+  const edges = workflowData.edges.map(edge => [edge.id, edge.source, edge.target].join('\u0001'));
+  return hashString([nodes.join('\u0002'), edges.join('\u0002'), JSON.stringify(config)].join('\u0003'));
+};
+
+export const readLayoutCache = (key: string): CachedLayout | undefined => {
+  const entry = layoutCache.get(key);
+  if (entry) {
+    // Most recently used last, so the oldest goes first
+    layoutCache.delete(key);
+    layoutCache.set(key, entry);
+  }
+  return entry;
+};
+
+export const writeLayoutCache = (key: string, entry: CachedLayout) => {
+  layoutCache.delete(key);
+  layoutCache.set(key, entry);
+  if (layoutCache.size > MAX_CACHED_LAYOUTS) {
+    layoutCache.delete(layoutCache.keys().next().value);
+  }
+};
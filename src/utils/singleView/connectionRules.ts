@@ -0,0 +1,114 @@
+import { WorkflowData, WorkflowEdge, WorkflowNode } from '../../models/singleView/nodeTypes';
+import { WorkflowDiagnostic } from '../../models/singleView/diagnostics';
+
+/**
+ * ============= CONNECTION RULES =============
+ * Which node types may be connected to which. Our workflows alternate
+ * status → event → status, so by default every other pairing is a violation
+ */
+
+export type NodeKind = WorkflowNode['type'];
+
+// 'enforce' rejects invalid connections, 'warn' allows them but flags them, 'off' disables checks
+export type ConnectionRuleMode = 'enforce' | 'warn' | 'off';
+
+export interface ConnectionRules {
+  mode: ConnectionRuleMode;
+  allowed: Record<NodeKind, NodeKind[]>;  // source type -> target types it may connect to
+}
+
+export interface ConnectionCheck {
+  valid: boolean;
+  message?: string;
+  // Node type that would make the connection valid if inserted between source and target
+  intermediateType?: NodeKind;
+}
+
+export const defaultConnectionRules: ConnectionRules = {
+  mode: 'enforce',
+  allowed: {
+    status: ['event'],
+    event: ['status'],
+  },
+};
+
+const nodeKinds: NodeKind[] = ['status', 'event'];
+
+const withArticle = (kind: NodeKind) => `${/^[aeiou]/.test(kind) ? 'an' : 'a'} ${kind}`;
+
+/**
+ * Checks a single source → target pairing against the rules
+ */
+export const checkConnection = (
+  sourceType: NodeKind,
+  targetType: NodeKind,
+  rules: ConnectionRules = defaultConnectionRules
+): ConnectionCheck => {
+  if (rules.mode === 'off' || rules.allowed[sourceType]?.includes(targetType)) {
+    return { valid: true };
+  }
+
+  const intermediateType = nodeKinds.find(kind =>
+    rules.allowed[sourceType]?.includes(kind) && rules.allowed[kind]?.includes(targetType)
+  );
+
+  return {
+    valid: false,
+    message: `${withArticle(sourceType)} node can't connect directly to ${withArticle(targetType)} node`,
+    intermediateType,
+  };
+};
+
+/**
+ * Flags every existing edge that breaks the rules, one diagnostic per edge
+ */
+export const findConnectionViolations = (
+  data: WorkflowData,
+  rules: ConnectionRules = defaultConnectionRules
+): WorkflowDiagnostic[] => {
+  if (rules.mode === 'off') return [];
+
+  const nodesById = new Map(data.nodes.map(node => [node.id, node]));
+
+  return data.edges.flatMap(edge => {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target) return [];
+
+    const check = checkConnection(source.type, target.type, rules);
+    if (check.valid) return [];
+
+    return [{
+      code: 'INVALID_CONNECTION' as const,
+      severity: rules.mode === 'enforce' ? 'error' as const : 'warning' as const,
+      message: `Edge "${source.label}" → "${target.label}": ${check.message}` +
+        (check.intermediateType ? ` - insert ${withArticle(check.intermediateType)} between them` : ''),
+      nodeIds: [source.id, target.id],
+      edgeIds: [edge.id],
+    }];
+  });
+};
+
+/**
+ * New node to place between the endpoints of an edge; the edge label becomes the node label
+ */
+export const createIntermediateNode = (
+  type: NodeKind,
+  edge: Pick<WorkflowEdge, 'source' | 'target' | 'label'>,
+  id: string = `${type}-${edge.source}-${edge.target}`
+): WorkflowNode => ({
+  id,
+  type,
+  label: edge.label || (type === 'status' ? 'New State' : 'New Event'),
+});
+
+/**
+ * Replaces source → target with source → node → target
+ */
+export const splitEdge = (
+  edge: Pick<WorkflowEdge, 'id' | 'source' | 'target'>,
+  nodeId: string
+): [WorkflowEdge, WorkflowEdge] => [
+  { id: `${edge.id}-in`, source: edge.source, target: nodeId, label: '' },
+  { id: `${edge.id}-out`, source: nodeId, target: edge.target, label: '' },
+];
@@ -0,0 +1,263 @@
+import { getBezierPath, Position } from '@xyflow/react';
+import { WorkflowData, WorkflowNode } from '../../models/singleView/nodeTypes';
+import { escapeXml } from './formats/xmlUtils';
+import { defaultLayoutConfig, resolveNodePositions } from './layout-utils';
+import { estimateNodeSize } from './nodeSizing';
+import { getRoundedPath, getRoutePoints } from './edgeRouting';
+import { placeEdgeLabels } from './edgeLabels';
+import { calculateEdgeOffsets, getSeparatedPath } from './edgeSeparation';
+import { createImagePdf } from './pdfDocument';
+
+/**
+ * ============= DIAGRAM IMAGE EXPORT =============
+ * Renders a workflow as a standalone SVG - the same shapes, colours and edges (separated bezier
+ * curves, or the stored orthogonal routes) as the canvas, plus a title block and legend - and rasterises it for PNG and PDF.
+ * Drawing from data instead of copying the canvas DOM keeps exports free of UI chrome
+ * and of AnimatedEdge's animated decorations (flowing dashes, moving dots)
+ */
+
+export type DiagramImageFormat = 'svg' | 'png' | 'pdf';
+
+export interface DiagramSnapshot {
+  workflow: WorkflowData;       // Positions come from its layout, or the smart layout without one
+  focusedNodeIds?: string[];    // Focus-mode subgraph for the current selection, if any
+}
+
+export interface DiagramImageOptions {
+  focusedOnly?: boolean;  // Only draw the focused subgraph
+  legend?: boolean;
+  scale?: number;         // PNG/PDF resolution multiplier
+}
+
+export interface RenderedDiagram {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// Colours of StatusNode / EventNode (Tailwind amber and slate shades); sizes follow the labels
+// as they do on the canvas
+const nodeStyles: Record<WorkflowNode['type'], { fill: string; stroke: string; text: string }> = {
+  status: { fill: '#fffbeb', stroke: '#fcd34d', text: '#92400e' },
+  event: { fill: '#f8fafc', stroke: '#cbd5e1', text: '#334155' },
+};
+const edgeColor = '#94a3b8';
+const fontFamily = 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif';
+
+const margin = 32;
+const legendHeight = 40;
+
+/**
+ * Greedy word wrap using an average glyph width - good enough without a text measurer
+ */
+const wrapText = (text: string, maxWidth: number, fontSize: number, maxLines = Infinity) => {
+  const maxChars = Math.max(4, Math.floor(maxWidth / (fontSize * 0.55)));
+  const lines: string[] = [];
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word);
+    }
+  });
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, Math.max(1, maxChars - 1))}…`;
+  }
+  return lines;
+};
+
+const textBlock = (lines: string[], x: number, y: number, fontSize: number, color: string, extra = '') => {
+  const lineHeight = fontSize * 1.25;
+  const top = y - ((lines.length - 1) * lineHeight) / 2;
+  return `<text x="${x}" y="${top}" font-size="${fontSize}" fill="${color}" text-anchor="middle" dominant-baseline="central"${extra}>` +
+    lines.map((line, index) => `<tspan x="${x}" dy="${index === 0 ? 0 : lineHeight}">${escapeXml(line)}</tspan>`).join('') +
+    '</text>';
+};
+
+const nodeShape = (type: WorkflowNode['type'], x: number, y: number, width: number, height: number) => {
+  const style = nodeStyles[type];
+  return type === 'status'
+    ? `<ellipse cx="${x + width / 2}" cy="${y + height / 2}" rx="${width / 2}" ry="${height / 2}" fill="${style.fill}" stroke="${style.stroke}" stroke-width="2" />`
+    : `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${style.fill}" stroke="${style.stroke}" stroke-width="2" />`;
+};
+
+const legend = (x: number, y: number) => [
+  `<g transform="translate(${x}, ${y})" font-size="12" fill="#374151">`,
+  nodeShape('status', 0, 4, 20, 20),
+  '<text x="28" y="14" dominant-baseline="central">Status</text>',
+  nodeShape('event', 90, 6, 24, 16),
+  '<text x="122" y="14" dominant-baseline="central">Event</text>',
+  `<line x1="180" y1="14" x2="214" y2="14" stroke="${edgeColor}" stroke-width="2" marker-end="url(#arrow)" />`,
+  '<text x="222" y="14" dominant-baseline="central">Transition</text>',
+  '</g>',
+].join('');
+
+/**
+ * Builds the SVG document for a workflow snapshot
+ */
+export const renderDiagramSvg = (snapshot: DiagramSnapshot, options: DiagramImageOptions = {}): RenderedDiagram => {
+  const { workflow, focusedNodeIds } = snapshot;
+  const focus = options.focusedOnly && focusedNodeIds?.length ? new Set(focusedNodeIds) : null;
+  const nodes = focus ? workflow.nodes.filter(node => focus.has(node.id)) : workflow.nodes;
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const edges = workflow.edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+  const positions = resolveNodePositions(workflow);
+
+  // Diagram bounds, so the export is cropped to the nodes rather than the viewport
+  const boxes = nodes.map(node => {
+    const { x, y } = positions.get(node.id) || { x: 0, y: 0 };
+    return { node, x, y, ...estimateNodeSize(node, defaultLayoutConfig) };
+  });
+  const left = boxes.length > 0 ? Math.min(...boxes.map(box => box.x)) : 0;
+  const top = boxes.length > 0 ? Math.min(...boxes.map(box => box.y)) : 0;
+  const diagramWidth = boxes.length > 0 ? Math.max(...boxes.map(box => box.x + box.width)) - left : 0;
+  const diagramHeight = boxes.length > 0 ? Math.max(...boxes.map(box => box.y + box.height)) - top : 0;
+
+  // Title block
+  const width = Math.max(diagramWidth + margin * 2, 480);
+  const titleLines = wrapText(workflow.name || workflow.id, width - margin * 2, 20, 2);
+  const descriptionLines = workflow.description ? wrapText(workflow.description, width - margin * 2, 13, 4) : [];
+  const focusNote = focus ? 'Focused subgraph' : '';
+  const headerHeight = margin + titleLines.length * 25 + descriptionLines.length * 17 + (focusNote ? 18 : 0) + 16;
+  const height = headerHeight + diagramHeight + (options.legend === false ? margin : legendHeight + margin);
+
+  const header = [
+    ...titleLines.map((line, index) =>
+      `<text x="${margin}" y="${margin + 18 + index * 25}" font-size="20" font-weight="600" fill="#111827">${escapeXml(line)}</text>`
+    ),
+    ...descriptionLines.map((line, index) =>
+      `<text x="${margin}" y="${margin + titleLines.length * 25 + 12 + index * 17}" font-size="13" fill="#4b5563">${escapeXml(line)}</text>`
+    ),
+    focusNote &&
+      `<text x="${margin}" y="${headerHeight - 16}" font-size="12" font-style="italic" fill="#2563eb">${focusNote}</text>`,
+  ].filter(Boolean);
+
+  // Centred horizontally when the title block is wider than the diagram
+  const translate = (x: number, y: number) => ({
+    x: x - left + (width - diagramWidth) / 2,
+    y: y - top + headerHeight,
+  });
+  const boxesById = new Map(boxes.map(box => [box.node.id, { ...box, ...translate(box.x, box.y) }]));
+  const routes = new Map(Object.entries(workflow.layout?.edgeRoutes ?? {}).map(
+    ([id, route]) => [id, route.map(point => translate(point.x, point.y))]
+  ));
+  const placedBoxes = Array.from(boxesById.values()).map(box => ({ id: box.node.id, position: { x: box.x, y: box.y }, size: box }));
+  // Curves separated and labels placed as on the canvas
+  const edgeRouting = workflow.layout?.config?.edgeRouting;
+  const offsets = edgeRouting === 'orthogonal' ? null : calculateEdgeOffsets(edges, placedBoxes, { bundle: edgeRouting === 'bundled' });
+  const labelPositions = placeEdgeLabels(edges, placedBoxes, routes, offsets);
+
+  const edgeElements = edges.flatMap(edge => {
+    const source = boxesById.get(edge.source)!;
+    const target = boxesById.get(edge.target)!;
+    const sourcePoint = { x: source.x + source.width, y: source.y + source.height / 2 };
+    const targetPoint = { x: target.x, y: target.y + target.height / 2 };
+    const route = routes.get(edge.id);
+    const offset = offsets?.get(edge.id);
+    const [path, labelX, labelY] = route
+      ? getRoundedPath(getRoutePoints(sourcePoint, 'right', route, targetPoint, 'left'))
+      : offset
+      ? getSeparatedPath(sourcePoint, targetPoint, offset)
+      : getBezierPath({
+          sourceX: sourcePoint.x,
+          sourceY: sourcePoint.y,
+          sourcePosition: Position.Right,
+          targetX: targetPoint.x,
+          targetY: targetPoint.y,
+          targetPosition: Position.Left,
+        });
+    return [
+      `<path d="${path}" fill="none" stroke="${edgeColor}" stroke-width="2" marker-end="url(#arrow)" />`,
+      edge.label && textBlock([edge.label], labelPositions.get(edge.id)?.x ?? labelX, labelPositions.get(edge.id)?.y ?? labelY, 11, '#475569', ' paint-order="stroke" stroke="#ffffff" stroke-width="4"'),
+    ].filter(Boolean);
+  });
+
+  const nodeElements = Array.from(boxesById.values()).map(box => [
+    nodeShape(box.node.type, box.x, box.y, box.width, box.height),
+    textBlock(
+      wrapText(box.node.label, box.width - 16, 14, Math.max(1, Math.floor((box.height - 16) / 17.5))),
+      box.x + box.width / 2,
+      box.y + box.height / 2,
+      14,
+      nodeStyles[box.node.type].text,
+      ' font-weight="500"'
+    ),
+  ].join(''));
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${fontFamily}">`,
+    '<defs>',
+    `<marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${edgeColor}" /></marker>`,
+    '</defs>',
+    `<rect width="${width}" height="${height}" fill="#ffffff" />`,
+    ...header,
+    ...edgeElements,
+    ...nodeElements,
+    options.legend === false ? '' : legend(margin, height - margin - legendHeight + 8),
+    '</svg>',
+  ].join('\n');
+
+  return { svg, width, height };
+};
+
+/**
+ * Draws the SVG onto a canvas at the given scale
+ */
+const rasterize = async ({ svg, width, height }: RenderedDiagram, scale: number) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The diagram could not be rendered as an image'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas rendering is not available');
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Could not encode ${type}`))), type, quality);
+  });
+
+/**
+ * Produces the exported file contents for a snapshot
+ */
+export const createDiagramImage = async (
+  snapshot: DiagramSnapshot,
+  format: DiagramImageFormat,
+  options: DiagramImageOptions = {}
+): Promise<Blob> => {
+  const rendered = renderDiagramSvg(snapshot, options);
+  if (format === 'svg') {
+    return new Blob([rendered.svg], { type: 'image/svg+xml' });
+  }
+
+  const canvas = await rasterize(rendered, options.scale ?? 2);
+  if (format === 'png') {
+    return canvasToBlob(canvas, 'image/png');
+  }
+
+  // PDF pages are sized in points (1/72") at the diagram's CSS pixel size (1/96")
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+  return createImagePdf(new Uint8Array(await jpeg.arrayBuffer()), {
+    imageWidth: canvas.width,
+    imageHeight: canvas.height,
+    pageWidth: rendered.width * 0.75,
+    pageHeight: rendered.height * 0.75,
+    title: snapshot.workflow.name,
+  });
+};
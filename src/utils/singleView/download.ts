@@ -0,0 +1,17 @@
+/**
+ * Saves a blob through a temporary download link
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadTextFile = (content: string, fileName: string, mimeType: string) =>
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
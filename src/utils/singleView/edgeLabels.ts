@@ -0,0 +1,120 @@
+import type { PlacedBox } from './incrementalLayout';
+import { getRoutePoints } from './edgeRouting';
+import { EdgeOffset, getSeparatedPoints } from './edgeSeparation';
+
+/**
+ * ============= EDGE LABEL PLACEMENT =============
+ * Puts each edge label on its edge where it covers no node and no other label. Candidate spots
+ * run along the edge outward from its middle, and just above and below it; labels are
+ * placed in edge order, each taking the first free spot (or the least covered one)
+ */
+
+type Point = { x: number; y: number };
+
+export interface LabelBox {
+  width: number;
+  height: number;
+}
+
+// Longer labels are truncated on the canvas; the full text shows on hover
+export const MAX_LABEL_WIDTH = 160;
+const LABEL_HEIGHT = 20;
+const LABEL_CHAR_WIDTH = 6.2;   // 11px text
+const LABEL_PADDING = 12;
+// Space kept between a label and nodes or other labels
+const LABEL_MARGIN = 4;
+// Where along the edge labels may go, best first
+const ALONG_EDGE = [0.5, 0.4, 0.6, 0.3, 0.7, 0.2, 0.8];
+// Shifts above and below tried at each spot, in label heights
+const ACROSS_EDGE = [0, -1, 1];
+
+export const estimateLabelSize = (label: string): LabelBox => ({
+  width: Math.min(MAX_LABEL_WIDTH, label.length * LABEL_CHAR_WIDTH + LABEL_PADDING),
+  height: LABEL_HEIGHT,
+});
+
+/**
+ * Points along a polyline, at fractions of its length
+ */
+const samplePolyline = (points: Point[], samples: number[]) => {
+  const lengths = points.slice(1).map((point, index) => Math.hypot(point.x - points[index].x, point.y - points[index].y));
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return samples.map(t => {
+    let remaining = t * total;
+    for (let index = 0; index < lengths.length; index++) {
+      if (remaining <= lengths[index] || index === lengths.length - 1) {
+        const ratio = lengths[index] ? Math.min(1, remaining / lengths[index]) : 0;
+        return {
+          x: points[index].x + (points[index + 1].x - points[index].x) * ratio,
+          y: points[index].y + (points[index + 1].y - points[index].y) * ratio,
+        };
+      }
+      remaining -= lengths[index];
+    }
+    return points[0];
+  });
+};
+
+const overlapArea = (a: { x: number; y: number } & LabelBox, b: { x: number; y: number } & LabelBox) =>
+  Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)) *
+  Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+
+/**
+ * Label centre per edge id for the labelled `edges` between `boxes`. Edges leave their source
+ * on the right and enter their target on the left; `routes` holds the bends of orthogonally
+ * routed edges, the others are bezier curves, separated by `offsets`
+ */
+export const placeEdgeLabels = (
+  edges: Array<{ id: string; source: string; target: string; label?: string }>,
+  boxes: PlacedBox[],
+  routes?: Map<string, Point[]> | null,
+  offsets?: Map<string, EdgeOffset> | null
+): Map<string, Point> => {
+  const byId = new Map(boxes.map(box => [box.id, box]));
+  const obstacles = boxes.map(box => ({
+    x: box.position.x - LABEL_MARGIN,
+    y: box.position.y - LABEL_MARGIN,
+    width: box.size.width + 2 * LABEL_MARGIN,
+    height: box.size.height + 2 * LABEL_MARGIN,
+  }));
+  const placed: Array<{ x: number; y: number } & LabelBox> = [];
+  const centres = new Map<string, Point>();
+
+  edges.forEach(edge => {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!edge.label || !source || !target) return;
+
+    const sourcePort = { x: source.position.x + source.size.width, y: source.position.y + source.size.height / 2 };
+    const targetPort = { x: target.position.x, y: target.position.y + target.size.height / 2 };
+    const route = routes?.get(edge.id);
+    const along = route
+      ? samplePolyline(getRoutePoints(sourcePort, 'right', route, targetPort, 'left'), ALONG_EDGE)
+      : samplePolyline(getSeparatedPoints(sourcePort, targetPort, offsets?.get(edge.id)), ALONG_EDGE);
+
+    const size = estimateLabelSize(edge.label);
+    const candidates = along.flatMap(point => ACROSS_EDGE.map(side => ({ x: point.x, y: point.y + side * (size.height + LABEL_MARGIN) })));
+    let best = candidates[0];
+    let bestCost = Infinity;
+    for (const candidate of candidates) {
+      const box = { x: candidate.x - size.width / 2, y: candidate.y - size.height / 2, ...size };
+      const cost = obstacles.reduce((sum, obstacle) => sum + overlapArea(box, obstacle), 0) +
+        placed.reduce((sum, label) => sum + overlapArea(box, label), 0);
+      if (cost < bestCost) {
+        best = candidate;
+        bestCost = cost;
+        if (cost === 0) break;
+      }
+    }
+
+    centres.set(edge.id, best);
+    placed.push({
+      x: best.x - size.width / 2 - LABEL_MARGIN,
+      y: best.y - size.height / 2 - LABEL_MARGIN,
+      width: size.width + 2 * LABEL_MARGIN,
+      height: size.height + 2 * LABEL_MARGIN,
+    });
+  });
+
+  return centres;
+};
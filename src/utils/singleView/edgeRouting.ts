@@ -0,0 +1,468 @@
+import type { PlacedBox } from './incrementalLayout';
+
+/**
+ * ============= ORTHOGONAL EDGE ROUTING =============
+ * Routes edges as horizontal and vertical segments around the nodes' bounding boxes. Each edge
+ * leaves its source and enters its target straight out of the handle side, then takes the path
+ * with the fewest bends and least length through the channels between nodes (an A* search over
+ * the coordinates of the node sides). Segments are then centred in their channel, and edges
+ * that share a segment are spread apart. Routes are stored as the bends between the handles
+ */
+
+type Point = { x: number; y: number };
+
+export type PortSide = 'left' | 'right' | 'top' | 'bottom';
+
+export interface RoutePorts {
+  source: PortSide;
+  target: PortSide;
+}
+
+// Distance routes keep from nodes
+const CLEARANCE = 16;
+// Distance between edges sharing a segment
+const EDGE_SPACING = 8;
+// A bend costs as much as this much extra length
+const BEND_PENALTY = 48;
+// How far beyond its ends an edge may look for a way round, before trying the whole canvas
+const SEARCH_MARGIN = 240;
+// Corner radius of drawn routes
+export const ROUTE_CORNER_RADIUS = 8;
+
+const directions: Record<PortSide, Point> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 },
+};
+
+interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const inflate = (box: PlacedBox, by: number): Rect => ({
+  left: box.position.x - by,
+  top: box.position.y - by,
+  right: box.position.x + box.size.width + by,
+  bottom: box.position.y + box.size.height + by,
+});
+
+// Middle of a box side, where React Flow puts the handle
+const getPort = (box: PlacedBox, side: PortSide): Point => {
+  const { position: { x, y }, size: { width, height } } = box;
+  switch (side) {
+    case 'left': return { x, y: y + height / 2 };
+    case 'right': return { x: x + width, y: y + height / 2 };
+    case 'top': return { x: x + width / 2, y };
+    default: return { x: x + width / 2, y: y + height };
+  }
+};
+
+// Whether an axis-aligned segment passes through a rect's interior (touching its border is fine)
+const crosses = (a: Point, b: Point, rect: Rect) =>
+  Math.min(a.x, b.x) < rect.right && Math.max(a.x, b.x) > rect.left &&
+  Math.min(a.y, b.y) < rect.bottom && Math.max(a.y, b.y) > rect.top &&
+  (a.x === b.x ? a.x > rect.left && a.x < rect.right : a.y > rect.top && a.y < rect.bottom);
+
+const isFree = (a: Point, b: Point, obstacles: Rect[]) => !obstacles.some(rect => crosses(a, b, rect));
+
+const distance = (a: Point, b: Point) => Math.abs(b.x - a.x) + Math.abs(b.y - a.y);
+
+// Point `by` along the axis-aligned segment from `from` to `to`
+const toward = (from: Point, to: Point, by: number) => {
+  const total = distance(from, to) || 1;
+  return { x: from.x + ((to.x - from.x) * by) / total, y: from.y + ((to.y - from.y) * by) / total };
+};
+
+// Drops points in the middle of straight runs
+const simplify = (points: Point[]) => points.filter((point, index) => {
+  if (index === 0 || index === points.length - 1) return true;
+  const previous = points[index - 1];
+  const next = points[index + 1];
+  return !((previous.x === point.x && point.x === next.x) || (previous.y === point.y && point.y === next.y));
+});
+
+/**
+ * ============= PATH SEARCH =============
+ */
+
+// Minimal binary heap keyed by cost
+class MinHeap<T> {
+  private items: Array<{ cost: number; value: T }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(cost: number, value: T) {
+    const items = this.items;
+    items.push({ cost, value });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].cost <= items[index].cost) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): T {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = 2 * index + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top.value;
+  }
+}
+
+const uniqueSorted = (values: number[]) => Array.from(new Set(values)).sort((a, b) => a - b);
+
+/**
+ * Fewest-bends, shortest path from `start` (heading `startDirection`) to `end` (to be left
+ * heading `endDirection`) along the grid lines of the obstacles' sides, or null
+ */
+const searchPath = (
+  start: Point,
+  startDirection: Point,
+  end: Point,
+  endDirection: Point,
+  obstacles: Rect[],
+  bounds: Rect
+): Point[] | null => {
+  const xs = uniqueSorted([
+    start.x, end.x, bounds.left, bounds.right,
+    ...obstacles.flatMap(rect => [rect.left, rect.right]),
+  ].filter(x => x >= bounds.left && x <= bounds.right));
+  const ys = uniqueSorted([
+    start.y, end.y, bounds.top, bounds.bottom,
+    ...obstacles.flatMap(rect => [rect.top, rect.bottom]),
+  ].filter(y => y >= bounds.top && y <= bounds.bottom));
+
+  // State: grid point and the direction it was reached in (0 right, 1 down, 2 left, 3 up)
+  const steps = [{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 0, y: -1 }];
+  const directionIndex = (direction: Point) => steps.findIndex(step => step.x === direction.x && step.y === direction.y);
+  const stateOf = (xi: number, yi: number, direction: number) => (yi * xs.length + xi) * 4 + direction;
+  const startState = stateOf(xs.indexOf(start.x), ys.indexOf(start.y), directionIndex(startDirection));
+  const endXi = xs.indexOf(end.x);
+  const endYi = ys.indexOf(end.y);
+  const endDirectionIndex = directionIndex(endDirection);
+
+  const costs = new Map<number, number>([[startState, 0]]);
+  const previous = new Map<number, number>();
+  const heap = new MinHeap<number>();
+  const estimate = (xi: number, yi: number) => Math.abs(xs[xi] - end.x) + Math.abs(ys[yi] - end.y);
+  heap.push(estimate(xs.indexOf(start.x), ys.indexOf(start.y)), startState);
+
+  while (heap.size > 0) {
+    const state = heap.pop();
+    const direction = state % 4;
+    const cell = (state - direction) / 4;
+    const xi = cell % xs.length;
+    const yi = (cell - xi) / xs.length;
+    const cost = costs.get(state)!;
+
+    if (xi === endXi && yi === endYi) {
+      // Arriving in another direction than the target's means one more bend
+      const finalCost = cost + (direction === endDirectionIndex ? 0 : BEND_PENALTY);
+      const best = costs.get(-1);
+      if (best === undefined || finalCost < best) {
+        costs.set(-1, finalCost);
+        previous.set(-1, state);
+      }
+      if (direction === endDirectionIndex) break;
+      continue;
+    }
+    const best = costs.get(-1);
+    if (best !== undefined && cost >= best) continue;
+
+    steps.forEach((step, nextDirection) => {
+      // Never double back
+      if ((nextDirection + 2) % 4 === direction) return;
+      const nextXi = xi + step.x;
+      const nextYi = yi + step.y;
+      if (nextXi < 0 || nextYi < 0 || nextXi >= xs.length || nextYi >= ys.length) return;
+      const from = { x: xs[xi], y: ys[yi] };
+      const to = { x: xs[nextXi], y: ys[nextYi] };
+      if (!isFree(from, to, obstacles)) return;
+      const nextState = stateOf(nextXi, nextYi, nextDirection);
+      const nextCost = cost + Math.abs(to.x - from.x) + Math.abs(to.y - from.y) +
+        (nextDirection === direction ? 0 : BEND_PENALTY);
+      if (nextCost >= (costs.get(nextState) ?? Infinity)) return;
+      costs.set(nextState, nextCost);
+      previous.set(nextState, state);
+      heap.push(nextCost + estimate(nextXi, nextYi), nextState);
+    });
+  }
+
+  if (!previous.has(-1)) return null;
+  const path: Point[] = [];
+  for (let state: number | undefined = previous.get(-1); state !== undefined; state = previous.get(state)) {
+    const cell = (state - (state % 4)) / 4;
+    path.unshift({ x: xs[cell % xs.length], y: ys[Math.floor(cell / xs.length)] });
+  }
+  return path;
+};
+
+/**
+ * ============= ROUTE CLEAN-UP =============
+ * Inner segments (those between two bends) can slide across their direction. Each is first
+ * moved to the middle of the free channel it runs through, then edges on the same line are
+ * spread `EDGE_SPACING` apart. A move is only made when every segment it stretches stays free
+ */
+
+interface InnerSegment {
+  route: Point[];
+  index: number;              // The segment runs from route[index] to route[index + 1]
+  axis: 'x' | 'y';            // The coordinate that's constant along the segment
+  start: number;              // Extent along the segment
+  end: number;
+}
+
+const getInnerSegments = (route: Point[]): InnerSegment[] => {
+  const segments: InnerSegment[] = [];
+  for (let index = 1; index + 2 < route.length; index++) {
+    const a = route[index];
+    const b = route[index + 1];
+    const axis = a.x === b.x ? 'x' : 'y';
+    const along = axis === 'x' ? 'y' : 'x';
+    segments.push({ route, index, axis, start: Math.min(a[along], b[along]), end: Math.max(a[along], b[along]) });
+  }
+  return segments;
+};
+
+// Range the segment can slide to without reversing a neighbouring segment or hugging a handle
+const getSlideRange = (segment: InnerSegment) => {
+  const { route, index, axis } = segment;
+  const neighbours = [
+    { point: route[index - 1], isPort: index - 1 === 0 },
+    { point: route[index + 2], isPort: index + 2 === route.length - 1 },
+  ];
+  let low = -Infinity;
+  let high = Infinity;
+  const current = route[index][axis];
+  neighbours.forEach(({ point, isPort }) => {
+    const margin = isPort ? CLEARANCE : 0;
+    if (point[axis] < current) low = Math.max(low, point[axis] + margin);
+    else if (point[axis] > current) high = Math.min(high, point[axis] - margin);
+  });
+  return { low, high };
+};
+
+// Free channel around the segment: how far it can slide before running into a node
+const getChannel = (segment: InnerSegment, obstacles: Rect[]) => {
+  const { route, index, axis, start, end } = segment;
+  const current = route[index][axis];
+  let low = -Infinity;
+  let high = Infinity;
+  obstacles.forEach(rect => {
+    const [near, far, alongStart, alongEnd] = axis === 'x'
+      ? [rect.left, rect.right, rect.top, rect.bottom]
+      : [rect.top, rect.bottom, rect.left, rect.right];
+    if (alongStart >= end || alongEnd <= start) return;
+    if (far <= current) low = Math.max(low, far);
+    if (near >= current) high = Math.min(high, near);
+  });
+  return { low, high };
+};
+
+const trySlide = (segment: InnerSegment, value: number, obstacles: Rect[]) => {
+  const { route, index, axis } = segment;
+  const moved = route.slice();
+  moved[index] = { ...route[index], [axis]: value };
+  moved[index + 1] = { ...route[index + 1], [axis]: value };
+  // The first and last segment start inside their node's clearance; only the rest must be free
+  const last = moved.length - 1;
+  const touched = [index - 1, index, index + 1];
+  if (!touched.every(at => isFree(
+    at === 0 ? toward(moved[0], moved[1], CLEARANCE) : moved[at],
+    at + 1 === last ? toward(moved[last], moved[last - 1], CLEARANCE) : moved[at + 1],
+    obstacles
+  ))) return false;
+  route[index] = moved[index];
+  route[index + 1] = moved[index + 1];
+  return true;
+};
+
+const centreSegments = (route: Point[], obstacles: Rect[]) => {
+  getInnerSegments(route).forEach(segment => {
+    const slide = getSlideRange(segment);
+    const channel = getChannel(segment, obstacles);
+    const low = Math.max(slide.low, channel.low);
+    const high = Math.min(slide.high, channel.high);
+    if (Number.isFinite(low) && Number.isFinite(high) && low <= high) {
+      trySlide(segment, (low + high) / 2, obstacles);
+    }
+  });
+};
+
+const spreadSharedSegments = (routes: Point[][], obstacles: Rect[]) => {
+  const lines = new Map<string, InnerSegment[]>();
+  routes.forEach(route => getInnerSegments(route).forEach(segment => {
+    const key = `${segment.axis}:${Math.round(route[segment.index][segment.axis])}`;
+    if (!lines.has(key)) lines.set(key, []);
+    lines.get(key)!.push(segment);
+  }));
+
+  lines.forEach(segments => {
+    // Runs of segments that overlap along the line
+    segments.sort((a, b) => a.start - b.start);
+    const groups: InnerSegment[][] = [];
+    let groupEnd = -Infinity;
+    segments.forEach(segment => {
+      if (segment.start < groupEnd) {
+        groups[groups.length - 1].push(segment);
+      } else {
+        groups.push([segment]);
+      }
+      groupEnd = Math.max(groupEnd, segment.end);
+    });
+
+    groups.filter(group => group.length > 1).forEach(group => {
+      // Ordered by where the edges come from, so spreading doesn't add crossings
+      const other = group[0].axis === 'x' ? 'y' : 'x';
+      group.sort((a, b) => a.route[0][other] + a.route[a.route.length - 1][other] - b.route[0][other] - b.route[b.route.length - 1][other]);
+      group.forEach((segment, position) => {
+        const offset = (position - (group.length - 1) / 2) * EDGE_SPACING;
+        const value = segment.route[segment.index][segment.axis] + offset;
+        const slide = getSlideRange(segment);
+        if (offset !== 0 && value > slide.low && value < slide.high) trySlide(segment, value, obstacles);
+      });
+    });
+  });
+};
+
+/**
+ * ============= PUBLIC API =============
+ */
+
+/**
+ * Full route of one edge, handle to handle, around `obstacles`
+ */
+const routeEdge = (source: PlacedBox, target: PlacedBox, ports: RoutePorts, boxes: PlacedBox[]): Point[] => {
+  const sourcePort = getPort(source, ports.source);
+  const targetPort = getPort(target, ports.target);
+  const out = directions[ports.source];
+  const into = directions[ports.target];
+  const start = { x: sourcePort.x + out.x * CLEARANCE, y: sourcePort.y + out.y * CLEARANCE };
+  const end = { x: targetPort.x + into.x * CLEARANCE, y: targetPort.y + into.y * CLEARANCE };
+  const arrive = { x: -into.x, y: -into.y };
+
+  const obstaclesWithin = (bounds: Rect) =>
+    boxes.map(box => inflate(box, CLEARANCE)).filter(rect =>
+      rect.left < bounds.right && rect.right > bounds.left && rect.top < bounds.bottom && rect.bottom > bounds.top
+    );
+  const around = (margin: number): Rect => ({
+    left: Math.min(start.x, end.x) - margin,
+    top: Math.min(start.y, end.y) - margin,
+    right: Math.max(start.x, end.x) + margin,
+    bottom: Math.max(start.y, end.y) + margin,
+  });
+
+  const near = around(SEARCH_MARGIN);
+  let path = searchPath(start, out, end, arrive, obstaclesWithin(near), near);
+  if (!path) {
+    const all = boxes.map(box => inflate(box, CLEARANCE));
+    const everything: Rect = {
+      left: Math.min(start.x, end.x, ...all.map(rect => rect.left)) - CLEARANCE,
+      top: Math.min(start.y, end.y, ...all.map(rect => rect.top)) - CLEARANCE,
+      right: Math.max(start.x, end.x, ...all.map(rect => rect.right)) + CLEARANCE,
+      bottom: Math.max(start.y, end.y, ...all.map(rect => rect.bottom)) + CLEARANCE,
+    };
+    path = searchPath(start, out, end, arrive, all, everything);
+  }
+  // Boxed in (overlapping nodes): straight out, across and in
+  path ??= out.x !== 0
+    ? [start, { x: (start.x + end.x) / 2, y: start.y }, { x: (start.x + end.x) / 2, y: end.y }, end]
+    : [start, { x: start.x, y: (start.y + end.y) / 2 }, { x: end.x, y: (start.y + end.y) / 2 }, end];
+
+  return simplify([sourcePort, ...path, targetPort]);
+};
+
+/**
+ * Orthogonal routes for `edges` between `boxes`: the bends between source and target handle,
+ * per edge id. `ports` says which side edges leave and enter their nodes by
+ */
+export const routeEdges = (
+  edges: Array<{ id: string; source: string; target: string }>,
+  boxes: PlacedBox[],
+  ports: RoutePorts
+): Map<string, Point[]> => {
+  const byId = new Map(boxes.map(box => [box.id, box]));
+  const routed = edges.flatMap(edge => {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    return source && target ? [{ id: edge.id, route: routeEdge(source, target, ports, boxes) }] : [];
+  });
+
+  const obstacles = boxes.map(box => inflate(box, CLEARANCE));
+  routed.forEach(({ route }) => centreSegments(route, obstacles));
+  spreadSharedSegments(routed.map(({ route }) => route), obstacles);
+
+  return new Map(routed.map(({ id, route }) => [id, simplify(route).slice(1, -1)]));
+};
+
+/**
+ * The route from the actual handle positions: the first and last bend are lined up with the
+ * handles, which can sit a little off the box sides the route was computed for
+ */
+export const getRoutePoints = (
+  source: Point,
+  sourceSide: PortSide,
+  waypoints: Point[],
+  target: Point,
+  targetSide: PortSide
+): Point[] => {
+  const bends = waypoints.map(point => ({ ...point }));
+  if (bends.length > 0) {
+    const first = bends[0];
+    const last = bends[bends.length - 1];
+    if (directions[sourceSide].x !== 0) first.y = source.y; else first.x = source.x;
+    if (directions[targetSide].x !== 0) last.y = target.y; else last.x = target.x;
+  }
+  return simplify([source, ...bends, target]);
+};
+
+/**
+ * SVG path through `points` with rounded corners, and the point halfway along it for a label
+ */
+export const getRoundedPath = (points: Point[], radius: number = ROUTE_CORNER_RADIUS): [string, number, number] => {
+  let path = `M ${points[0].x} ${points[0].y}`;
+  for (let index = 1; index < points.length - 1; index++) {
+    const [previous, corner, next] = [points[index - 1], points[index], points[index + 1]];
+    const r = Math.min(radius, distance(previous, corner) / 2, distance(corner, next) / 2);
+    const before = toward(corner, previous, r);
+    const after = toward(corner, next, r);
+    path += ` L ${before.x} ${before.y} Q ${corner.x} ${corner.y} ${after.x} ${after.y}`;
+  }
+  const last = points[points.length - 1];
+  path += ` L ${last.x} ${last.y}`;
+
+  // Label halfway along
+  const total = points.slice(1).reduce((sum, point, index) => sum + distance(points[index], point), 0);
+  let remaining = total / 2;
+  for (let index = 1; index < points.length; index++) {
+    const segment = distance(points[index - 1], points[index]);
+    if (remaining <= segment) {
+      const middle = toward(points[index - 1], points[index], remaining);
+      return [path, middle.x, middle.y];
+    }
+    remaining -= segment;
+  }
+  return [path, last.x, last.y];
+};
@@ -0,0 +1,167 @@
+import type { PlacedBox } from './incrementalLayout';
+
+/**
+ * ============= EDGE SEPARATION =============
+ * Keeps edges that share a node apart. Edges leaving or entering the same side of a node attach
+ * at distinct points along it, ordered by where their other end is so they don't cross there.
+ * Parallel edges between the same two nodes bend apart. With bundling, edges of busy nodes
+ * share a short straight run out of the node instead and only split beyond it
+ */
+
+type Point = { x: number; y: number };
+
+export interface EdgeOffset {
+  sourceOffset: Point;  // From the source handle, along the node's side
+  targetOffset: Point;
+  bend: number;         // Sideways shift of the middle of the curve
+  sourceTrunk: number;  // Straight run shared with the source's other edges when bundled
+  targetTrunk: number;
+}
+
+export interface EdgeSeparationOptions {
+  bundle?: boolean;
+}
+
+// Distance between attach points, shrunk to fit the node's side
+const ATTACH_SPACING = 12;
+const MAX_SPREAD_RATIO = 0.8;
+// Distance between the middles of parallel edges
+const PARALLEL_SPACING = 28;
+// Bundled edges share this much of their start or end
+const BUNDLE_TRUNK = 40;
+// Fewer edges on a node's side are fanned out even when bundling
+const BUNDLE_MIN_EDGES = 3;
+// Curvature React Flow's getBezierPath uses for edges heading backwards
+const BEZIER_CURVATURE = 0.25;
+const CURVE_SAMPLES = 16;
+
+const NO_OFFSET: EdgeOffset = {
+  sourceOffset: { x: 0, y: 0 },
+  targetOffset: { x: 0, y: 0 },
+  bend: 0,
+  sourceTrunk: 0,
+  targetTrunk: 0,
+};
+
+/**
+ * Offsets of attach points spread evenly along a side `length` long, centred on its handle
+ */
+const spreadAlongSide = (count: number, length: number): number[] => {
+  if (count === 1) return [0];
+  const spread = Math.min(length * MAX_SPREAD_RATIO, (count - 1) * ATTACH_SPACING);
+  return Array.from({ length: count }, (_, index) => -spread / 2 + (index * spread) / (count - 1));
+};
+
+/**
+ * Offsets for the edges between `boxes`, by edge id. Edges leave their source on the right and
+ * enter their target on the left, so attach points spread vertically. Loops are left as they are
+ */
+export const calculateEdgeOffsets = (
+  edges: Array<{ id: string; source: string; target: string }>,
+  boxes: PlacedBox[],
+  options: EdgeSeparationOptions = {}
+): Map<string, EdgeOffset> => {
+  const byId = new Map(boxes.map(box => [box.id, box]));
+  const centreY = (id: string) => byId.get(id)!.position.y + byId.get(id)!.size.height / 2;
+  const drawn = edges.filter(edge => edge.source !== edge.target && byId.has(edge.source) && byId.has(edge.target));
+
+  const group = (key: (edge: (typeof drawn)[number]) => string) => {
+    const groups = new Map<string, typeof drawn>();
+    drawn.forEach(edge => groups.set(key(edge), [...(groups.get(key(edge)) || []), edge]));
+    return groups;
+  };
+
+  const offsets = new Map<string, EdgeOffset>(drawn.map(edge => [edge.id, {
+    ...NO_OFFSET,
+    sourceOffset: { ...NO_OFFSET.sourceOffset },
+    targetOffset: { ...NO_OFFSET.targetOffset },
+  }]));
+
+  // Fan out each node's outgoing edges, top to bottom by their targets (sort keeps edge order on ties)
+  group(edge => edge.source).forEach((outgoing, source) => {
+    const sorted = [...outgoing].sort((a, b) => centreY(a.target) - centreY(b.target));
+    const bundled = options.bundle && sorted.length >= BUNDLE_MIN_EDGES;
+    const spread = spreadAlongSide(sorted.length, byId.get(source)!.size.height);
+    sorted.forEach((edge, index) => {
+      const offset = offsets.get(edge.id)!;
+      if (bundled) offset.sourceTrunk = BUNDLE_TRUNK;
+      else offset.sourceOffset.y = spread[index];
+    });
+  });
+
+  // ...and incoming edges by their sources
+  group(edge => edge.target).forEach((incoming, target) => {
+    const sorted = [...incoming].sort((a, b) => centreY(a.source) - centreY(b.source));
+    const bundled = options.bundle && sorted.length >= BUNDLE_MIN_EDGES;
+    const spread = spreadAlongSide(sorted.length, byId.get(target)!.size.height);
+    sorted.forEach((edge, index) => {
+      const offset = offsets.get(edge.id)!;
+      if (bundled) offset.targetTrunk = BUNDLE_TRUNK;
+      else offset.targetOffset.y = spread[index];
+    });
+  });
+
+  // Parallel edges bend apart, in the same order as their attach points
+  group(edge => `${edge.source}->${edge.target}`).forEach(parallel => {
+    parallel.forEach((edge, index) => {
+      offsets.get(edge.id)!.bend = (index - (parallel.length - 1) / 2) * PARALLEL_SPACING;
+    });
+  });
+
+  return offsets;
+};
+
+/**
+ * The separated edge from `source` to `target` handle: its trunks and the cubic curve between
+ * them. Without offsets it's the curve React Flow's getBezierPath draws between right and left
+ * handles
+ */
+const getSeparatedCurve = (source: Point, target: Point, offset: EdgeOffset) => {
+  const start = { x: source.x + offset.sourceOffset.x, y: source.y + offset.sourceOffset.y };
+  const end = { x: target.x + offset.targetOffset.x, y: target.y + offset.targetOffset.y };
+  // Trunks of short edges leave room for the curve; they all run along the same line anyway
+  const room = end.x > start.x ? (end.x - start.x) / 3 : Infinity;
+  const curveStart = { x: start.x + Math.min(offset.sourceTrunk, room), y: start.y };
+  const curveEnd = { x: end.x - Math.min(offset.targetTrunk, room), y: end.y };
+
+  const distance = curveEnd.x - curveStart.x;
+  const reach = distance >= 0 ? 0.5 * distance : BEZIER_CURVATURE * 25 * Math.sqrt(-distance);
+  // A cubic's middle moves 3/4 as far as both its control points
+  const shift = (offset.bend * 4) / 3;
+  const controls = [
+    { x: curveStart.x + reach, y: curveStart.y + shift },
+    { x: curveEnd.x - reach, y: curveEnd.y + shift },
+  ];
+
+  const pointAt = (t: number) => {
+    const u = 1 - t;
+    const [a, b, c, d] = [u * u * u, 3 * u * u * t, 3 * u * t * t, t * t * t];
+    return {
+      x: a * curveStart.x + b * controls[0].x + c * controls[1].x + d * curveEnd.x,
+      y: a * curveStart.y + b * controls[0].y + c * controls[1].y + d * curveEnd.y,
+    };
+  };
+
+  return { start, curveStart, controls, curveEnd, end, pointAt };
+};
+
+/**
+ * SVG path of a separated edge, with the label position at the middle of its curve, in the
+ * `[path, labelX, labelY]` shape of React Flow's path helpers
+ */
+export const getSeparatedPath = (source: Point, target: Point, offset: EdgeOffset = NO_OFFSET): [string, number, number] => {
+  const { start, curveStart, controls, curveEnd, end, pointAt } = getSeparatedCurve(source, target, offset);
+  const middle = pointAt(0.5);
+  const path = `M ${start.x},${start.y} L ${curveStart.x},${curveStart.y} ` +
+    `C ${controls[0].x},${controls[0].y} ${controls[1].x},${controls[1].y} ${curveEnd.x},${curveEnd.y} ` +
+    `L ${end.x},${end.y}`;
+  return [path, middle.x, middle.y];
+};
+
+/**
+ * A separated edge as a polyline, for measuring along it
+ */
+export const getSeparatedPoints = (source: Point, target: Point, offset: EdgeOffset = NO_OFFSET): Point[] => {
+  const { start, end, pointAt } = getSeparatedCurve(source, target, offset);
+  return [start, ...Array.from({ length: CURVE_SAMPLES + 1 }, (_, index) => pointAt(index / CURVE_SAMPLES)), end];
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { transformWorkflowData } from './workflowDataUtils';
+
+const typesOf = (nodes: Array<Record<string, string>>) =>
+  transformWorkflowData({ id: 'w', name: 'W', nodes, edges: [] }).nodes.map(node => node.type);
+
+describe('generic mapping profile', () => {
+  it('reads a node as a status when any type alias says so', () => {
+    expect(typesOf([
+      { id: 'a', type: 'task', nodeType: 'status' },
+      { id: 'b', node_type: 'STATUS' },
+      { id: 'c', type: 'Status', nodeType: 'task' },
+    ])).toEqual(['status', 'status', 'status']);
+  });
+
+  it('reads every other node as an event', () => {
+    expect(typesOf([
+      { id: 'a', type: 'task', nodeType: 'activity' },
+      { id: 'b' },
+    ])).toEqual(['event', 'event']);
+  });
+});
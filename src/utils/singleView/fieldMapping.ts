@@ -0,0 +1,255 @@
+import { RawWorkflowData } from '../../models/singleView/nodeTypes';
+
+/**
+ * ============= FIELD MAPPING PROFILES =============
+ * Declarative, JSON-configurable descriptions of how a backend payload maps onto
+ * WorkflowData. Supporting a new backend format means registering a profile,
+ * not changing transformWorkflowData
+ */
+
+// Dot-separated path into the payload ("workflow.nodes", "attrs.0.name"); "$" is the object itself
+export type PathExpression = string;
+
+// Translates raw values, e.g. { "STATE": "status" } with default "event"
+export interface ValueMapper {
+  map: Record<string, string>;
+  caseInsensitive?: boolean;
+  default?: string;  // Used when the value isn't in the map
+}
+
+export interface FieldMapping {
+  paths: PathExpression[];  // Aliases tried in order - the first non-empty value wins
+  mapper?: ValueMapper;
+  // A mapped value any alias may supply, ahead of the first alias (e.g. 'status' for node types)
+  prefer?: string;
+  // Fallback when no alias matches; {index}, {position} and {timestamp} are substituted
+  default?: string;
+}
+
+export interface FieldMappingProfile {
+  name: string;
+  description?: string;
+  // Auto-detection: every `all` path and at least one `any` path must exist on the raw payload
+  detect?: {
+    all?: PathExpression[];
+    any?: PathExpression[];
+  };
+  root: PathExpression[];   // Where the workflow object lives in the payload
+  nodes: PathExpression[];  // Node array, relative to the root
+  edges: PathExpression[];  // Edge array, relative to the root
+  metadata?: PathExpression[];  // Event/status details, relative to each node ("$" reads the node itself)
+  workflow: Record<'id' | 'name' | 'description' | 'updatedAt', FieldMapping>;
+  node: Record<'id' | 'type' | 'label', FieldMapping>;
+  edge: Record<'id' | 'source' | 'target' | 'label', FieldMapping>;
+}
+
+// How a payload was interpreted: the profile used and which alias matched where
+export interface MappingReport {
+  profile: string;
+  autoDetected: boolean;
+  root: PathExpression | null;
+  nodes: PathExpression | null;
+  edges: PathExpression | null;
+  // "workflow.name" -> "title"; null when the default was used
+  workflowFields: Record<string, PathExpression | null>;
+  // "node.label" -> { name: 12, "(default)": 1 } - counts per alias across all items
+  itemFields: Record<string, Record<string, number>>;
+}
+
+export const DEFAULT_ALIAS = '(default)';
+
+/**
+ * The historical alias chains of transformWorkflowData, expressed as a profile
+ */
+export const genericMappingProfile: FieldMappingProfile = {
+  name: 'generic',
+  description: 'Common field names used by most backends (nodes/vertices/states/steps, source/from, ...)',
+  root: ['workflow', 'data', '$'],
+  nodes: ['nodes', 'vertices', 'states', 'steps'],
+  edges: ['edges', 'connections', 'transitions', 'links'],
+  metadata: ['metadata', 'meta', 'details', 'properties', '$'],
+  workflow: {
+    id: { paths: ['id', 'workflowId', 'workflow_id', 'uuid'], default: 'workflow-{timestamp}' },
+    name: { paths: ['name', 'title', 'workflow_name', 'workflowName'], default: 'Unnamed Workflow' },
+    description: { paths: ['description', 'desc', 'summary'], default: 'No description available' },
+    updatedAt: { paths: ['updatedAt', 'updated_at', 'lastModified', 'modifiedAt'] },
+  },
+  node: {
+    id: { paths: ['id', 'nodeId', 'node_id'], default: 'node-{index}' },
+    type: {
+      paths: ['type', 'nodeType', 'node_type'],
+      mapper: { map: { status: 'status' }, caseInsensitive: true, default: 'event' },
+      // A node is a status when any of the aliases says so, as transformWorkflowData always did
+      prefer: 'status',
+      default: 'event',
+    },
+    label: { paths: ['label', 'name', 'title', 'text'], default: 'Node {position}' },
+  },
+  edge: {
+    id: { paths: ['id', 'edgeId', 'edge_id'], default: 'edge-{index}' },
+    source: { paths: ['source', 'from', 'sourceId', 'source_id'], default: '' },
+    target: { paths: ['target', 'to', 'targetId', 'target_id'], default: '' },
+    label: { paths: ['label', 'name', 'title', 'text'], default: '' },
+  },
+};
+
+/**
+ * ============= PROFILE REGISTRY =============
+ */
+
+const mappingProfiles = new Map<string, FieldMappingProfile>([[genericMappingProfile.name, genericMappingProfile]]);
+
+/**
+ * Checks a profile and fills in what it leaves out. Accepts parsed JSON, so profiles can live
+ * in config files
+ */
+export const normalizeMappingProfile = (profile: FieldMappingProfile): FieldMappingProfile => {
+  if (!profile?.name || !Array.isArray(profile.nodes) || !Array.isArray(profile.edges)) {
+    throw new Error(`Invalid field mapping profile: ${profile?.name ?? '(unnamed)'}`);
+  }
+  return {
+    ...profile,
+    root: profile.root?.length ? profile.root : ['$'],
+    metadata: profile.metadata?.length ? profile.metadata : genericMappingProfile.metadata,
+    // Fields a profile leaves out keep the generic aliases
+    workflow: { ...genericMappingProfile.workflow, ...profile.workflow },
+    node: { ...genericMappingProfile.node, ...profile.node },
+    edge: { ...genericMappingProfile.edge, ...profile.edge },
+  };
+};
+
+/**
+ * Registers (or replaces) a profile
+ */
+export const registerMappingProfile = (profile: FieldMappingProfile) => {
+  const normalized = normalizeMappingProfile(profile);
+  mappingProfiles.set(normalized.name, normalized);
+};
+
+/**
+ * Registers every profile from a JSON document (a single profile or an array of them)
+ */
+export const loadMappingProfiles = (json: string | FieldMappingProfile | FieldMappingProfile[]) => {
+  const parsed = typeof json === 'string' ? JSON.parse(json) : json;
+  (Array.isArray(parsed) ? parsed : [parsed]).forEach(registerMappingProfile);
+};
+
+export const unregisterMappingProfile = (name: string) => {
+  if (name !== genericMappingProfile.name) {
+    mappingProfiles.delete(name);
+  }
+};
+
+export const getMappingProfile = (name: string) => mappingProfiles.get(name);
+
+export const listMappingProfiles = () => Array.from(mappingProfiles.values());
+
+/**
+ * ============= PATH RESOLUTION =============
+ */
+
+const isPresent = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+export const resolvePath = (source: unknown, path: PathExpression): unknown => {
+  if (path === '$' || path === '') return source;
+  return path.split('.').reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== 'object') return undefined;
+    return (current as Record<string, unknown>)[segment];
+  }, source);
+};
+
+/**
+ * Returns the first alias that holds a value, together with the alias itself
+ */
+const resolveFirst = (source: unknown, paths: PathExpression[]): { value: unknown; path: PathExpression | null } => {
+  for (const path of paths) {
+    const value = resolvePath(source, path);
+    if (isPresent(value)) {
+      return { value, path };
+    }
+  }
+  return { value: undefined, path: null };
+};
+
+const applyMapper = (value: unknown, mapper?: ValueMapper): unknown => {
+  if (!mapper) return value;
+  const key = String(value);
+  const entry = Object.entries(mapper.map).find(([from]) =>
+    mapper.caseInsensitive ? from.toLowerCase() === key.toLowerCase() : from === key
+  );
+  if (entry) return entry[1];
+  return mapper.default !== undefined ? mapper.default : value;
+};
+
+const fillTemplate = (template: string, index: number) =>
+  template
+    .replace(/\{index\}/g, String(index))
+    .replace(/\{position\}/g, String(index + 1))
+    .replace(/\{timestamp\}/g, String(Date.now()));
+
+/**
+ * Resolves one mapped field and records which alias supplied it
+ */
+export const resolveField = (
+  source: unknown,
+  mapping: FieldMapping,
+  index: number = 0
+): { value: string | undefined; path: PathExpression | null } => {
+  if (mapping.prefer !== undefined) {
+    const preferred = mapping.paths.find(alias => {
+      const candidate = resolvePath(source, alias);
+      return isPresent(candidate) && applyMapper(candidate, mapping.mapper) === mapping.prefer;
+    });
+    if (preferred) {
+      return { value: mapping.prefer, path: preferred };
+    }
+  }
+
+  const { value, path } = resolveFirst(source, mapping.paths);
+  if (path !== null) {
+    return { value: String(applyMapper(value, mapping.mapper)), path };
+  }
+  return {
+    value: mapping.default !== undefined ? fillTemplate(mapping.default, index) : undefined,
+    path: null,
+  };
+};
+
+export const resolveArray = (source: unknown, paths: PathExpression[]) => {
+  for (const path of paths) {
+    const value = resolvePath(source, path);
+    if (Array.isArray(value)) {
+      return { items: value as RawWorkflowData[], path };
+    }
+  }
+  return { items: [] as RawWorkflowData[], path: null };
+};
+
+/**
+ * ============= DETECTION =============
+ */
+
+const matchesProfile = (rawData: RawWorkflowData, profile: FieldMappingProfile) => {
+  if (!profile.detect) return false;
+  const { all = [], any = [] } = profile.detect;
+  return all.every(path => isPresent(resolvePath(rawData, path))) &&
+    (any.length === 0 || any.some(path => isPresent(resolvePath(rawData, path))));
+};
+
+/**
+ * Picks the first registered profile whose detection rules match, falling back to generic
+ * Profiles registered later are more specific, so they are checked first
+ */
+export const detectMappingProfile = (rawData: RawWorkflowData): FieldMappingProfile => {
+  const candidates = listMappingProfiles().reverse();
+  return candidates.find(profile => matchesProfile(rawData, profile)) || genericMappingProfile;
+};
+
+/**
+ * Increments the alias counter for one field of a node or edge
+ */
+export const recordAlias = (report: MappingReport, field: string, path: PathExpression | null) => {
+  const counts = report.itemFields[field] || (report.itemFields[field] = {});
+  const alias = path ?? DEFAULT_ALIAS;
+  counts[alias] = (counts[alias] || 0) + 1;
+};
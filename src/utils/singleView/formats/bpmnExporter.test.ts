@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { mockWorkflows, validateWorkflowData } from '../workflowDataUtils';
+import { exportWorkflow, importWorkflow } from './index';
+import { BPMN_MODEL_NAMESPACE } from './bpmnImporter';
+import { serializeBpmn } from './bpmnExporter';
+import { conditionalWorkflow, describeDiagnostics, describeEdges, describeNodes } from './formatTestUtils';
+
+// A decision drawn as a gateway, which workflows express as parallel edges
+const gatewayDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="${BPMN_MODEL_NAMESPACE}" id="definitions">
+  <bpmn:process id="review" name="Review">
+    <bpmn:task id="check" name="Check" />
+    <bpmn:exclusiveGateway id="decision" name="Passed?" />
+    <bpmn:intermediateThrowEvent id="accepted" name="Accepted" />
+    <bpmn:intermediateThrowEvent id="rejected" name="Rejected" />
+    <bpmn:sequenceFlow id="f1" sourceRef="check" targetRef="decision" />
+    <bpmn:sequenceFlow id="f2" sourceRef="decision" targetRef="accepted" />
+    <bpmn:sequenceFlow id="f3" sourceRef="decision" targetRef="rejected" />
+  </bpmn:process>
+</bpmn:definitions>
+`;
+
+describe('BPMN round trip', () => {
+  it.each([
+    ['ebm-version', mockWorkflows['ebm-version']],
+    ['mortgage-origination', mockWorkflows['mortgage-origination']],
+    ['conditional', conditionalWorkflow],
+  ])('keeps the %s workflow, its metadata and its layout', (_, workflow) => {
+    const { content } = exportWorkflow(workflow, 'bpmn');
+    const imported = importWorkflow(content, { format: 'bpmn' });
+
+    expect(imported.workflow.id).toBe(workflow.id);
+    expect(imported.workflow.name).toBe(workflow.name);
+    expect(describeNodes(imported.workflow)).toEqual(describeNodes(workflow));
+    expect(describeEdges(imported.workflow)).toEqual(describeEdges(workflow));
+    // Nothing the exporter writes has to be collapsed or skipped
+    expect(imported.warnings).toEqual([]);
+    expect(describeDiagnostics(imported.diagnostics)).toEqual(describeDiagnostics(validateWorkflowData(workflow).diagnostics));
+  });
+
+  it('keeps node positions', () => {
+    const workflow = mockWorkflows['ebm-version'];
+    const positions = Object.fromEntries(workflow.nodes.map((node, index) => [node.id, { x: index * 150, y: (index % 3) * 100 }]));
+    const imported = importWorkflow(serializeBpmn(workflow, positions), { format: 'bpmn' });
+
+    expect(imported.workflow.layout?.positions).toEqual(positions);
+  });
+
+  it('collapses gateways into direct edges once, and the result exports unchanged', () => {
+    const imported = importWorkflow(gatewayDocument, { format: 'bpmn' });
+    expect(imported.warnings.map(warning => warning.code)).toEqual(['COLLAPSED_ELEMENT']);
+    expect(describeEdges(imported.workflow)).toEqual(['check -> accepted', 'check -> rejected']);
+
+    const reimported = importWorkflow(exportWorkflow(imported.workflow, 'bpmn').content, { format: 'bpmn' });
+    expect(reimported.warnings).toEqual([]);
+    expect(describeNodes(reimported.workflow)).toEqual(describeNodes(imported.workflow));
+    expect(describeEdges(reimported.workflow)).toEqual(describeEdges(imported.workflow));
+  });
+});
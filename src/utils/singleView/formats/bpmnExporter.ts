@@ -0,0 +1,152 @@
+import { EventMetadata, WorkflowData, WorkflowNode } from '../../../models/singleView/nodeTypes';
+import { NodePositions, WorkflowExporter } from '../../../models/singleView/importExport';
+import { getEventMetadata, getStatusMetadata } from '../nodeMetadata';
+import { BPMN_MODEL_NAMESPACE } from './bpmnImporter';
+import { escapeXml, toXmlId } from './xmlUtils';
+
+/**
+ * ============= BPMN 2.0 EXPORT =============
+ * Event nodes become <bpmn:task>s. Status nodes become none intermediate throw events
+ * (<bpmn:intermediateThrowEvent> without an event definition) - BPMN's construct for
+ * "the process has reached this state" - which the importer maps back to statuses.
+ * Event metadata goes into <pmf:properties> extension elements, descriptions into
+ * <bpmn:documentation>, and the layout into BPMNDI shapes and edges
+ */
+
+export const PMF_EXTENSION_NAMESPACE = 'http://pmf.workflow/schema/bpmn-extensions';
+
+// Rendered sizes of the canvas nodes, used for BPMNDI bounds
+const shapeSizes: Record<WorkflowNode['type'], { width: number; height: number }> = {
+  status: { width: 80, height: 80 },
+  event: { width: 96, height: 64 },
+};
+
+const attribute = (name: string, value: string | undefined) =>
+  value ? ` ${name}="${escapeXml(value)}"` : '';
+
+/**
+ * Flattens event metadata into name/value properties; lists repeat the property name
+ */
+const eventProperties = (metadata: EventMetadata): Array<[string, string]> => {
+  const properties: Array<[string, string]> = [];
+  const add = (name: string, value: string | undefined) => {
+    if (value !== undefined && value !== '') properties.push([name, value]);
+  };
+
+  add('businessEventName', metadata.businessEventName);
+  add('focalEntity', metadata.focalEntity);
+  add('condition', metadata.condition);
+  metadata.createdEntities?.forEach(entity => add('createdEntities', entity));
+  metadata.modifiedEntities?.forEach(entity => add('modifiedEntities', entity));
+  metadata.businessEvents?.forEach(event => add('businessEvents', event));
+  if (metadata.trigger) {
+    add('triggerAutomatic', String(metadata.trigger.automatic));
+    add('triggerExternal', String(metadata.trigger.external));
+  }
+  return properties;
+};
+
+const serializeNode = (
+  node: WorkflowNode,
+  ids: Map<string, string>,
+  incoming: string[],
+  outgoing: string[]
+) => {
+  const tag = node.type === 'status' ? 'bpmn:intermediateThrowEvent' : 'bpmn:task';
+  const description = (getEventMetadata(node) ?? getStatusMetadata(node))?.description;
+  const eventMetadata = getEventMetadata(node);
+  const properties = eventMetadata ? eventProperties(eventMetadata) : [];
+
+  const children = [
+    description && `      <bpmn:documentation>${escapeXml(description)}</bpmn:documentation>`,
+    properties.length > 0 && [
+      '      <bpmn:extensionElements>',
+      '        <pmf:properties>',
+      ...properties.map(([name, value]) => `          <pmf:property${attribute('name', name)}${attribute('value', value)} />`),
+      '        </pmf:properties>',
+      '      </bpmn:extensionElements>',
+    ].join('\n'),
+    ...incoming.map(flowId => `      <bpmn:incoming>${flowId}</bpmn:incoming>`),
+    ...outgoing.map(flowId => `      <bpmn:outgoing>${flowId}</bpmn:outgoing>`),
+  ].filter(Boolean);
+
+  return [
+    `    <${tag} id="${ids.get(node.id)}"${attribute('name', node.label)}>`,
+    ...children,
+    `    </${tag}>`,
+  ].join('\n');
+};
+
+export const serializeBpmn = (workflow: WorkflowData, positions: NodePositions): string => {
+  const processId = toXmlId(workflow.id || 'process');
+  const nodeIds = new Map(workflow.nodes.map(node => [node.id, toXmlId(node.id)]));
+  const flowIds = new Map(workflow.edges.map(edge => [edge.id, toXmlId(`flow_${edge.id}`)]));
+  const nodesById = new Map(workflow.nodes.map(node => [node.id, node]));
+
+  const flowsOf = (nodeId: string, end: 'source' | 'target') =>
+    workflow.edges.filter(edge => edge[end] === nodeId).map(edge => flowIds.get(edge.id)!);
+
+  const processElements = [
+    workflow.description && `    <bpmn:documentation>${escapeXml(workflow.description)}</bpmn:documentation>`,
+    ...workflow.nodes.map(node => serializeNode(node, nodeIds, flowsOf(node.id, 'target'), flowsOf(node.id, 'source'))),
+    ...workflow.edges.map(edge =>
+      `    <bpmn:sequenceFlow id="${flowIds.get(edge.id)}"${attribute('name', edge.label)} ` +
+      `sourceRef="${nodeIds.get(edge.source)}" targetRef="${nodeIds.get(edge.target)}" />`
+    ),
+  ].filter(Boolean);
+
+  // Diagram interchange: shapes at the layout positions, edges from right side to left side
+  const boundsOf = (node: WorkflowNode) => ({ ...(positions[node.id] || { x: 0, y: 0 }), ...shapeSizes[node.type] });
+
+  const shapes = workflow.nodes.map(node => {
+    const { x, y, width, height } = boundsOf(node);
+    return [
+      `      <bpmndi:BPMNShape id="${nodeIds.get(node.id)}_di" bpmnElement="${nodeIds.get(node.id)}">`,
+      `        <dc:Bounds x="${Math.round(x)}" y="${Math.round(y)}" width="${width}" height="${height}" />`,
+      '      </bpmndi:BPMNShape>',
+    ].join('\n');
+  });
+
+  const diagramEdges = workflow.edges.flatMap(edge => {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target) return [];
+    const from = boundsOf(source);
+    const to = boundsOf(target);
+    return [[
+      `      <bpmndi:BPMNEdge id="${flowIds.get(edge.id)}_di" bpmnElement="${flowIds.get(edge.id)}">`,
+      `        <di:waypoint x="${Math.round(from.x + from.width)}" y="${Math.round(from.y + from.height / 2)}" />`,
+      `        <di:waypoint x="${Math.round(to.x)}" y="${Math.round(to.y + to.height / 2)}" />`,
+      '      </bpmndi:BPMNEdge>',
+    ].join('\n')];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<bpmn:definitions xmlns:bpmn="${BPMN_MODEL_NAMESPACE}"`,
+    '  xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI"',
+    '  xmlns:dc="http://www.omg.org/spec/DD/20100524/DC"',
+    '  xmlns:di="http://www.omg.org/spec/DD/20100524/DI"',
+    `  xmlns:pmf="${PMF_EXTENSION_NAMESPACE}"`,
+    `  id="${processId}_definitions" targetNamespace="${PMF_EXTENSION_NAMESPACE}">`,
+    `  <bpmn:process id="${processId}"${attribute('name', workflow.name)} isExecutable="false">`,
+    ...processElements,
+    '  </bpmn:process>',
+    `  <bpmndi:BPMNDiagram id="${processId}_diagram">`,
+    `    <bpmndi:BPMNPlane id="${processId}_plane" bpmnElement="${processId}">`,
+    ...shapes,
+    ...diagramEdges,
+    '    </bpmndi:BPMNPlane>',
+    '  </bpmndi:BPMNDiagram>',
+    '</bpmn:definitions>',
+    '',
+  ].join('\n');
+};
+
+export const bpmnExporter: WorkflowExporter = {
+  format: 'bpmn',
+  label: 'BPMN 2.0',
+  extension: 'bpmn',
+  mimeType: 'application/xml',
+  serialize: serializeBpmn,
+};
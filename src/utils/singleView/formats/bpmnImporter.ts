@@ -0,0 +1,246 @@
+import { WorkflowData, WorkflowEdge, WorkflowNode } from '../../../models/singleView/nodeTypes';
+import { ImportResult, ImportWarning, WorkflowImporter } from '../../../models/singleView/importExport';
+import { normalizeNodeMetadata } from '../nodeMetadata';
+import { WorkflowImportError } from './importError';
+import { childElements, descendants, firstChild, parseXml } from './xmlUtils';
+
+/**
+ * ============= BPMN 2.0 IMPORT =============
+ * Activities and start/end/boundary events become `event` nodes, intermediate events
+ * become `status` nodes and sequence flows become edges. Gateways are collapsed into
+ * direct edges; anything else is skipped with a warning
+ */
+
+export const BPMN_MODEL_NAMESPACE = 'http://www.omg.org/spec/BPMN/20100524/MODEL';
+
+const activityTypes = new Set([
+  'task', 'userTask', 'serviceTask', 'scriptTask', 'manualTask', 'businessRuleTask',
+  'sendTask', 'receiveTask', 'callActivity', 'subProcess', 'adHocSubProcess', 'transaction',
+]);
+const subProcessTypes = new Set(['subProcess', 'adHocSubProcess', 'transaction']);
+const eventTypes = new Set(['startEvent', 'endEvent', 'boundaryEvent']);
+const statusTypes = new Set(['intermediateCatchEvent', 'intermediateThrowEvent']);
+const gatewayTypes = new Set([
+  'exclusiveGateway', 'parallelGateway', 'inclusiveGateway', 'eventBasedGateway', 'complexGateway',
+]);
+// Children of <process> that carry no graph information
+const ignoredTypes = new Set(['extensionElements', 'documentation']);
+
+interface BpmnFlow {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
+}
+
+// BPMN names often contain line breaks for diagram wrapping
+const cleanName = (element: Element) => (element.getAttribute('name') || '').replace(/\s+/g, ' ').trim();
+
+const documentationOf = (element: Element) => firstChild(element, 'documentation')?.textContent?.trim() || undefined;
+
+/**
+ * Collects <*:property name="" value=""> entries from extensionElements into a plain object
+ * Repeated names become arrays, which is how list fields (created entities, ...) are written
+ */
+const readExtensionProperties = (element: Element): Record<string, unknown> => {
+  const extensions = firstChild(element, 'extensionElements');
+  const properties: Record<string, unknown> = {};
+  if (!extensions) return properties;
+
+  descendants(extensions, 'property').forEach(property => {
+    const name = property.getAttribute('name');
+    if (!name) return;
+    const value = property.getAttribute('value') ?? property.textContent ?? '';
+    const existing = properties[name];
+    properties[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  });
+  return properties;
+};
+
+const createNode = (element: Element, type: WorkflowNode['type']): WorkflowNode => {
+  const id = element.getAttribute('id') || '';
+  const metadata = normalizeNodeMetadata(type, {
+    description: documentationOf(element),
+    ...readExtensionProperties(element),
+  });
+  return {
+    id,
+    type,
+    label: cleanName(element) || id,
+    ...(metadata && { metadata }),
+  };
+};
+
+/**
+ * Picks the process to import - the first one that has flow elements
+ */
+const selectProcess = (document: Document, warnings: ImportWarning[]) => {
+  const processes = descendants(document, 'process');
+  if (processes.length === 0) {
+    throw new WorkflowImportError('bpmn', 'The document contains no BPMN process');
+  }
+  const process = processes.find(candidate => childElements(candidate).some(child =>
+    activityTypes.has(child.localName) || eventTypes.has(child.localName) || statusTypes.has(child.localName)
+  )) || processes[0];
+
+  if (processes.length > 1) {
+    warnings.push({
+      code: 'MULTIPLE_ROOTS',
+      message: `Found ${processes.length} processes - only "${cleanName(process) || process.getAttribute('id')}" was imported`,
+      elementId: process.getAttribute('id') || undefined,
+      elementType: 'bpmn:process',
+    });
+  }
+  return process;
+};
+
+/**
+ * Replaces flows into and out of gateways with direct edges between the surrounding nodes
+ */
+const collapseGateways = (flows: BpmnFlow[], gatewayIds: Set<string>): WorkflowEdge[] => {
+  const outgoing = new Map<string, BpmnFlow[]>();
+  flows.forEach(flow => {
+    outgoing.set(flow.source, [...(outgoing.get(flow.source) || []), flow]);
+  });
+
+  // Follows a flow through any chain of gateways to the real targets behind it
+  const expand = (flow: BpmnFlow, visited: Set<string>): WorkflowEdge[] => {
+    if (!gatewayIds.has(flow.target)) {
+      return [{ id: flow.id, source: flow.source, target: flow.target, label: flow.label }];
+    }
+    if (visited.has(flow.target)) return [];
+    const nextVisited = new Set(visited).add(flow.target);
+
+    return (outgoing.get(flow.target) || []).flatMap(next =>
+      expand({ ...next, source: flow.source, label: next.label || flow.label }, nextVisited)
+        .map(edge => ({ ...edge, id: `${flow.id}__${edge.id}` }))
+    );
+  };
+
+  return flows
+    .filter(flow => !gatewayIds.has(flow.source))
+    .flatMap(flow => expand(flow, new Set()));
+};
+
+/**
+ * Reads BPMNDI shape bounds for the imported nodes
+ */
+const readDiagramPositions = (document: Document, nodeIds: Set<string>) => {
+  const positions: Record<string, { x: number; y: number }> = {};
+  descendants(document, 'BPMNShape').forEach(shape => {
+    const elementId = shape.getAttribute('bpmnElement');
+    const bounds = firstChild(shape, 'Bounds');
+    if (!elementId || !bounds || !nodeIds.has(elementId)) return;
+
+    const x = Number(bounds.getAttribute('x'));
+    const y = Number(bounds.getAttribute('y'));
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      positions[elementId] = { x, y };
+    }
+  });
+  return positions;
+};
+
+export const parseBpmn = (text: string): ImportResult => {
+  const document = parseXml(text, 'bpmn');
+  const warnings: ImportWarning[] = [];
+  const process = selectProcess(document, warnings);
+
+  const nodes: WorkflowNode[] = [];
+  const gatewayIds = new Set<string>();
+  const flows: BpmnFlow[] = [];
+  const boundaryFlows: BpmnFlow[] = [];
+
+  childElements(process).forEach(element => {
+    const type = element.localName;
+    const id = element.getAttribute('id') || '';
+
+    if (activityTypes.has(type) || eventTypes.has(type)) {
+      nodes.push(createNode(element, 'event'));
+      if (subProcessTypes.has(type) && childElements(element).some(child => child.localName === 'sequenceFlow')) {
+        warnings.push({
+          code: 'UNSUPPORTED_ELEMENT',
+          message: `The contents of sub-process "${cleanName(element) || id}" were not imported - it is shown as a single node`,
+          elementId: id,
+          elementType: `bpmn:${type}`,
+        });
+      }
+      // Boundary events hang off an activity instead of having incoming flows
+      const attachedTo = element.getAttribute('attachedToRef');
+      if (type === 'boundaryEvent' && attachedTo) {
+        boundaryFlows.push({ id: `${attachedTo}__${id}`, source: attachedTo, target: id, label: '' });
+      }
+    } else if (statusTypes.has(type)) {
+      nodes.push(createNode(element, 'status'));
+    } else if (gatewayTypes.has(type)) {
+      gatewayIds.add(id);
+      warnings.push({
+        code: 'COLLAPSED_ELEMENT',
+        message: `Gateway "${cleanName(element) || id}" was replaced by direct edges`,
+        elementId: id,
+        elementType: `bpmn:${type}`,
+      });
+    } else if (type === 'sequenceFlow') {
+      const condition = firstChild(element, 'conditionExpression')?.textContent?.trim();
+      flows.push({
+        id,
+        source: element.getAttribute('sourceRef') || '',
+        target: element.getAttribute('targetRef') || '',
+        label: cleanName(element) || condition || '',
+      });
+    } else if (!ignoredTypes.has(type)) {
+      warnings.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        message: `Skipped unsupported element bpmn:${type}${id ? ` "${cleanName(element) || id}"` : ''}`,
+        elementId: id || undefined,
+        elementType: `bpmn:${type}`,
+      });
+    }
+  });
+
+  descendants(document, 'messageFlow').forEach(messageFlow => {
+    warnings.push({
+      code: 'UNSUPPORTED_ELEMENT',
+      message: `Skipped message flow "${cleanName(messageFlow) || messageFlow.getAttribute('id')}" between pools`,
+      elementId: messageFlow.getAttribute('id') || undefined,
+      elementType: 'bpmn:messageFlow',
+    });
+  });
+
+  // Flows must connect imported nodes (or gateways, which are collapsed below)
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const knownIds = new Set([...nodeIds, ...gatewayIds]);
+  const validFlows = [...flows, ...boundaryFlows].filter(flow => {
+    const missing = [flow.source, flow.target].filter(ref => !knownIds.has(ref));
+    if (missing.length === 0) return true;
+    warnings.push({
+      code: 'MISSING_REFERENCE',
+      message: `Sequence flow "${flow.id}" references ${missing.map(ref => `"${ref || '(none)'}"`).join(' and ')}, which was not imported`,
+      elementId: flow.id,
+      elementType: 'bpmn:sequenceFlow',
+    });
+    return false;
+  });
+
+  const positions = readDiagramPositions(document, nodeIds);
+  const definitions = document.documentElement;
+
+  const workflow: WorkflowData = {
+    id: process.getAttribute('id') || definitions.getAttribute('id') || `bpmn-${Date.now()}`,
+    name: cleanName(process) || cleanName(definitions) || process.getAttribute('id') || 'Imported BPMN process',
+    description: documentationOf(process) || '',
+    nodes,
+    edges: collapseGateways(validFlows, gatewayIds),
+    ...(Object.keys(positions).length > 0 && { layout: { positions } }),
+  };
+
+  return { workflow, warnings };
+};
+
+export const bpmnImporter: WorkflowImporter = {
+  format: 'bpmn',
+  label: 'BPMN 2.0',
+  extensions: ['bpmn', 'bpmn2', 'xml'],
+  detect: text => text.includes(BPMN_MODEL_NAMESPACE) || /<([\w-]+:)?definitions[\s>]/.test(text),
+  parse: parseBpmn,
+};
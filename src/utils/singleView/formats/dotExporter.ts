@@ -0,0 +1,75 @@
+import { WorkflowData, WorkflowNode } from '../../../models/singleView/nodeTypes';
+import { NodePositions, WorkflowExporter } from '../../../models/singleView/importExport';
+import { getEventMetadata, getStatusMetadata } from '../nodeMetadata';
+
+/**
+ * ============= GRAPHVIZ DOT EXPORT =============
+ * A digraph with circles for statuses and boxes for events. Node metadata is written as
+ * extra attributes (Graphviz ignores unknown ones) and the layout as `pos`, in points with
+ * y pointing up, so `neato -n` reproduces the canvas
+ */
+
+export const dotShapes: Record<WorkflowNode['type'], string> = {
+  status: 'circle',
+  event: 'box',
+};
+
+// Everything is written as a quoted string; only quotes and line breaks need escaping
+export const quoteDot = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+const attributeList = (attributes: Array<[string, string | undefined]>) => {
+  const present = attributes.filter(([, value]) => value !== undefined && value !== '');
+  return present.length > 0 ? ` [${present.map(([name, value]) => `${name}=${quoteDot(value!)}`).join(', ')}]` : '';
+};
+
+const metadataAttributes = (node: WorkflowNode): Array<[string, string | undefined]> => {
+  const event = getEventMetadata(node);
+  if (!event) return [['description', getStatusMetadata(node)?.description]];
+  return [
+    ['description', event.description],
+    ['businessEventName', event.businessEventName],
+    ['focalEntity', event.focalEntity],
+    ['condition', event.condition],
+    // Lists as comma-separated strings, which normalizeNodeMetadata splits again
+    ['createdEntities', event.createdEntities?.join(', ')],
+    ['modifiedEntities', event.modifiedEntities?.join(', ')],
+    ['businessEvents', event.businessEvents?.join(', ')],
+    ['triggerAutomatic', event.trigger && String(event.trigger.automatic)],
+    ['triggerExternal', event.trigger && String(event.trigger.external)],
+  ];
+};
+
+export const serializeDot = (workflow: WorkflowData, positions: NodePositions): string => {
+  const nodeLines = workflow.nodes.map(node => {
+    const position = positions[node.id];
+    return `  ${quoteDot(node.id)}${attributeList([
+      ['label', node.label],
+      ['shape', dotShapes[node.type]],
+      ['type', node.type],
+      ['pos', position && `${Math.round(position.x)},${Math.round(-position.y)}`],
+      ...metadataAttributes(node),
+    ])};`;
+  });
+  const edgeLines = workflow.edges.map(edge =>
+    `  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)}${attributeList([['id', edge.id], ['label', edge.label]])};`
+  );
+
+  return [
+    `digraph ${quoteDot(workflow.id || 'workflow')} {`,
+    `  graph${attributeList([['label', workflow.name], ['comment', workflow.description], ['rankdir', 'LR']])};`,
+    '  node [fontname="Helvetica", fontsize=10];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+    ...nodeLines,
+    ...edgeLines,
+    '}',
+    '',
+  ].join('\n');
+};
+
+export const dotExporter: WorkflowExporter = {
+  format: 'dot',
+  label: 'Graphviz DOT',
+  extension: 'dot',
+  mimeType: 'text/vnd.graphviz',
+  serialize: serializeDot,
+};
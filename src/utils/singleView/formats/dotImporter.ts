@@ -0,0 +1,324 @@
+import { RawWorkflowData } from '../../../models/singleView/nodeTypes';
+import { ImportResult, ImportWarning, WorkflowImporter } from '../../../models/singleView/importExport';
+import { transformWorkflowDataWithReport } from '../workflowDataUtils';
+import { WorkflowImportError } from './importError';
+
+/**
+ * ============= GRAPHVIZ DOT IMPORT =============
+ * Reads digraphs (node, edge and attribute statements, default attribute lists and
+ * subgraphs) into a raw workflow object, which then goes through the same field mapping
+ * as backend payloads. Node type comes from a `type` attribute, else from the shape:
+ * round shapes (the DOT default included) are statuses, everything else events
+ */
+
+type DotAttributes = Record<string, string>;
+
+interface DotToken {
+  kind: 'id' | 'punctuation';
+  value: string;
+  quoted?: boolean;
+}
+
+const roundShapes = new Set(['circle', 'doublecircle', 'ellipse', 'oval', 'point', 'egg', 'mcircle']);
+
+const unescapeDot = (value: string) =>
+  value
+    .replace(/\\\r?\n/g, '')           // Line continuations
+    .replace(/\\(["\\])/g, '$1')
+    .replace(/\\[nlr]/g, '\n');
+
+const tokenize = (text: string): DotToken[] => {
+  const tokens: DotToken[] = [];
+  let index = 0;
+  let concatenate = false;
+
+  while (index < text.length) {
+    const rest = text.slice(index);
+    // Whitespace, comments, and "#" lines (C preprocessor output)
+    const skip = /^(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.exec(rest) ||
+      (index === 0 || text[index - 1] === '\n' ? /^#[^\n]*/.exec(rest) : null);
+    if (skip) {
+      index += skip[0].length;
+      continue;
+    }
+
+    const char = text[index];
+    if (char === '+' && tokens[tokens.length - 1]?.quoted) {
+      // "a" + "b" concatenation
+      concatenate = true;
+      index += 1;
+    } else if (rest.startsWith('->') || rest.startsWith('--')) {
+      tokens.push({ kind: 'punctuation', value: rest.slice(0, 2) });
+      index += 2;
+    } else if ('{}[]=;,:'.includes(char)) {
+      tokens.push({ kind: 'punctuation', value: char });
+      index += 1;
+    } else if (char === '"') {
+      let end = index + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      if (end >= text.length) throw new WorkflowImportError('dot', 'Unterminated quoted string');
+      const value = unescapeDot(text.slice(index + 1, end));
+      index = end + 1;
+      if (concatenate) {
+        tokens[tokens.length - 1].value += value;
+        concatenate = false;
+      } else {
+        tokens.push({ kind: 'id', value, quoted: true });
+      }
+    } else if (char === '<') {
+      // HTML-like labels: keep the text, drop the markup
+      let depth = 0;
+      let end = index;
+      do {
+        if (text[end] === '<') depth++;
+        if (text[end] === '>') depth--;
+        end++;
+      } while (depth > 0 && end < text.length);
+      if (depth > 0) throw new WorkflowImportError('dot', 'Unterminated HTML string');
+      tokens.push({ kind: 'id', value: text.slice(index + 1, end - 1).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() });
+      index = end;
+    } else {
+      const id = /^(?:-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(rest);
+      if (!id) throw new WorkflowImportError('dot', `Unexpected character "${char}"`);
+      tokens.push({ kind: 'id', value: id[0] });
+      index += id[0].length;
+    }
+  }
+  return tokens;
+};
+
+interface DotNode {
+  id: string;
+  attributes: DotAttributes;
+}
+
+interface DotEdge {
+  source: string;
+  target: string;
+  attributes: DotAttributes;
+}
+
+/**
+ * Recursive-descent parser for the DOT grammar, flattening subgraphs
+ */
+const parseGraph = (tokens: DotToken[], warnings: ImportWarning[]) => {
+  let position = 0;
+  const peek = (offset = 0) => tokens[position + offset];
+  const isPunctuation = (value: string, offset = 0) => peek(offset)?.kind === 'punctuation' && peek(offset).value === value;
+  const isKeyword = (value: string, offset = 0) => peek(offset)?.kind === 'id' && peek(offset).value.toLowerCase() === value;
+  const expect = (value: string) => {
+    if (!isPunctuation(value)) {
+      throw new WorkflowImportError('dot', `Expected "${value}" but found "${peek()?.value ?? 'end of input'}"`);
+    }
+    position++;
+  };
+  const readId = () => {
+    const token = peek();
+    if (token?.kind !== 'id') {
+      throw new WorkflowImportError('dot', `Expected an identifier but found "${token?.value ?? 'end of input'}"`);
+    }
+    position++;
+    return token.value;
+  };
+
+  if (isKeyword('strict')) position++;
+  if (isKeyword('graph')) {
+    warnings.push({
+      code: 'INVALID_VALUE',
+      message: 'Undirected graph: edges were read in the order they are written',
+      elementType: 'graph',
+    });
+  } else if (!isKeyword('digraph')) {
+    throw new WorkflowImportError('dot', 'Expected a "digraph" declaration');
+  }
+  position++;
+  const graphId = peek()?.kind === 'id' ? readId() : undefined;
+
+  const graphAttributes: DotAttributes = {};
+  const nodes = new Map<string, DotNode>();
+  const edges: DotEdge[] = [];
+
+  const readAttributeList = (): DotAttributes => {
+    const attributes: DotAttributes = {};
+    while (isPunctuation('[')) {
+      position++;
+      while (!isPunctuation(']')) {
+        const name = readId();
+        expect('=');
+        attributes[name] = readId();
+        if (isPunctuation(',') || isPunctuation(';')) position++;
+      }
+      position++;
+    }
+    return attributes;
+  };
+
+  const ensureNode = (id: string, defaults: DotAttributes, attributes: DotAttributes = {}) => {
+    const existing = nodes.get(id);
+    if (existing) {
+      Object.assign(existing.attributes, attributes);
+    } else {
+      nodes.set(id, { id, attributes: { ...defaults, ...attributes } });
+    }
+  };
+
+  // Returns the node ids a statement operand stands for (a node or a whole subgraph)
+  const readStatementList = (nodeDefaults: DotAttributes, edgeDefaults: DotAttributes, isRoot: boolean): string[] => {
+    const members = new Set<string>();
+    expect('{');
+
+    while (!isPunctuation('}')) {
+      if (!peek()) throw new WorkflowImportError('dot', 'Missing closing "}"');
+
+      if (isKeyword('node') && isPunctuation('[', 1)) {
+        position++;
+        Object.assign(nodeDefaults, readAttributeList());
+      } else if (isKeyword('edge') && isPunctuation('[', 1)) {
+        position++;
+        Object.assign(edgeDefaults, readAttributeList());
+      } else if (isKeyword('graph') && isPunctuation('[', 1)) {
+        position++;
+        const attributes = readAttributeList();
+        if (isRoot) Object.assign(graphAttributes, attributes);
+      } else if (peek().kind === 'id' && isPunctuation('=', 1) && !isKeyword('subgraph')) {
+        const name = readId();
+        position++;
+        const value = readId();
+        if (isRoot) graphAttributes[name] = value;
+      } else {
+        // Node or edge statement: operand (edgeop operand)* [attributes]
+        const readOperand = (): { ids: string[]; isSubgraph: boolean } => {
+          if (isKeyword('subgraph') || isPunctuation('{')) {
+            let name: string | undefined;
+            if (isKeyword('subgraph')) {
+              position++;
+              if (peek()?.kind === 'id') name = readId();
+            }
+            // Anonymous "{a b}" groups are just shorthand; named subgraphs (clusters) carry meaning
+            if (name) {
+              warnings.push({
+                code: 'COLLAPSED_ELEMENT',
+                message: `Subgraph "${name}" was flattened into the workflow`,
+                elementId: name,
+                elementType: 'subgraph',
+              });
+            }
+            return { ids: readStatementList({ ...nodeDefaults }, { ...edgeDefaults }, false), isSubgraph: true };
+          }
+          const id = readId();
+          // Ports ("node:port:compass") only affect drawing
+          while (isPunctuation(':')) {
+            position++;
+            readId();
+          }
+          return { ids: [id], isSubgraph: false };
+        };
+
+        const operands = [readOperand()];
+        while (isPunctuation('->') || isPunctuation('--')) {
+          position++;
+          operands.push(readOperand());
+        }
+        const attributes = readAttributeList();
+
+        const operandIds = operands.flatMap(operand => operand.ids);
+        if (operands.length === 1) {
+          // A lone subgraph has already registered its nodes
+          if (!operands[0].isSubgraph) ensureNode(operands[0].ids[0], nodeDefaults, attributes);
+        } else {
+          operandIds.forEach(id => ensureNode(id, nodeDefaults));
+          for (let index = 1; index < operands.length; index++) {
+            operands[index - 1].ids.forEach(source => operands[index].ids.forEach(target => {
+              edges.push({ source, target, attributes: { ...edgeDefaults, ...attributes } });
+            }));
+          }
+        }
+        operandIds.forEach(id => members.add(id));
+      }
+
+      if (isPunctuation(';') || isPunctuation(',')) position++;
+    }
+
+    position++;
+    return Array.from(members);
+  };
+
+  readStatementList({}, {}, true);
+  return { graphId, graphAttributes, nodes: Array.from(nodes.values()), edges };
+};
+
+// Graphviz attributes that only affect drawing - not carried into node metadata
+const drawingAttributes = new Set([
+  'shape', 'style', 'color', 'fillcolor', 'fontcolor', 'fontname', 'fontsize', 'width', 'height',
+  'fixedsize', 'penwidth', 'pos', 'xlabel', 'tooltip', 'URL', 'href', 'target', 'group', 'margin',
+]);
+
+/**
+ * Graphviz positions are points with y pointing up; the canvas has y pointing down
+ */
+const readLayout = (nodes: DotNode[]) => {
+  const positions = nodes.map(node => {
+    const match = /^\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)/.exec(node.attributes.pos || '');
+    return match ? { id: node.id, x: Number(match[1]), y: -Number(match[2]) } : null;
+  });
+  if (nodes.length === 0 || positions.some(position => !position)) return undefined;
+
+  const minY = Math.min(...positions.map(position => position!.y));
+  const offsetY = minY < 0 ? -minY : 0;
+  return {
+    positions: Object.fromEntries(positions.map(position => [position!.id, { x: position!.x, y: position!.y + offsetY }])),
+  };
+};
+
+export const parseDot = (text: string): ImportResult => {
+  const warnings: ImportWarning[] = [];
+  const graph = parseGraph(tokenize(text), warnings);
+
+  const nodeType = (attributes: DotAttributes) =>
+    attributes.type ?? attributes.nodeType ??
+    (roundShapes.has((attributes.shape || 'ellipse').toLowerCase()) ? 'status' : 'event');
+
+  const usedEdgeIds = new Set<string>();
+  const edgeId = (edge: DotEdge) => {
+    const base = edge.attributes.id || `${edge.source}-${edge.target}`;
+    let id = base;
+    for (let suffix = 2; usedEdgeIds.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    usedEdgeIds.add(id);
+    return id;
+  };
+
+  // Shaped like a backend payload, so field mapping resolves aliases and metadata
+  const raw: RawWorkflowData = {
+    id: graph.graphId || 'dot-workflow',
+    name: graph.graphAttributes.label || graph.graphId || 'Imported DOT graph',
+    description: graph.graphAttributes.comment || '',
+    nodes: graph.nodes.map(node => ({
+      ...Object.fromEntries(Object.entries(node.attributes).filter(([name]) => !drawingAttributes.has(name))),
+      id: node.id,
+      type: nodeType(node.attributes),
+      label: node.attributes.label && node.attributes.label !== '\\N' ? node.attributes.label : node.id,
+    })),
+    edges: graph.edges.map(edge => ({
+      id: edgeId(edge),
+      source: edge.source,
+      target: edge.target,
+      label: edge.attributes.label || '',
+    })),
+  };
+
+  const { workflow } = transformWorkflowDataWithReport(raw, { profile: 'generic' });
+  const layout = readLayout(graph.nodes);
+  return { workflow: layout ? { ...workflow, layout } : workflow, warnings };
+};
+
+export const dotImporter: WorkflowImporter = {
+  format: 'dot',
+  label: 'Graphviz DOT',
+  extensions: ['dot', 'gv'],
+  detect: text => /^\s*(?:\/\/[^\n]*\n\s*|\/\*[\s\S]*?\*\/\s*)*(strict\s+)?(di)?graph\b[^{]*\{/i.test(text),
+  parse: parseDot,
+};
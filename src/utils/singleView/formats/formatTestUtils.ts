@@ -0,0 +1,42 @@
+import { WorkflowDiagnostic } from '../../../models/singleView/diagnostics';
+import { WorkflowData } from '../../../models/singleView/nodeTypes';
+
+/**
+ * ============= ROUND-TRIP TEST HELPERS =============
+ * Shared by the format tests: what a round trip has to keep, in a form that's easy to diff
+ */
+
+export const describeNodes = (workflow: WorkflowData) =>
+  workflow.nodes.map(({ id, type, label, metadata }) => ({ id, type, label, metadata })).sort((a, b) => a.id.localeCompare(b.id));
+
+export const describeEdges = (workflow: WorkflowData) =>
+  workflow.edges.map(({ source, target }) => `${source} -> ${target}`).sort();
+
+// Edge ids aren't part of the formats, so diagnostics are compared by message
+export const describeDiagnostics = (diagnostics: WorkflowDiagnostic[]) =>
+  diagnostics.map(({ code, message }) => `${code}: ${message}`).sort();
+
+// Events with conditions, so guards have to survive the trip
+export const conditionalWorkflow: WorkflowData = {
+  id: 'loan-approval',
+  name: 'Loan Approval',
+  description: 'Small loans are approved directly, larger ones go to a manual review',
+  nodes: [
+    { id: 'submitted', type: 'status', label: 'Submitted' },
+    {
+      id: 'approve',
+      type: 'event',
+      label: 'Approve',
+      metadata: { condition: 'amount <= 1000', businessEventName: 'LoanApproved', focalEntity: 'Loan' },
+    },
+    { id: 'escalate', type: 'event', label: 'Escalate', metadata: { condition: 'amount > 1000' } },
+    { id: 'approved', type: 'status', label: 'Approved', metadata: { description: 'Ready for payout' } },
+    { id: 'review', type: 'status', label: 'Manual Review' },
+  ],
+  edges: [
+    { id: 'submitted-approve', source: 'submitted', target: 'approve', label: '' },
+    { id: 'approve-approved', source: 'approve', target: 'approved', label: '' },
+    { id: 'submitted-escalate', source: 'submitted', target: 'escalate', label: '' },
+    { id: 'escalate-review', source: 'escalate', target: 'review', label: '' },
+  ],
+};
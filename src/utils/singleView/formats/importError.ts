@@ -0,0 +1,13 @@
+/**
+ * Thrown when a document can't be read at all (malformed XML, wrong format, nothing to import)
+ * Recoverable problems are reported as ImportWarnings instead
+ */
+export class WorkflowImportError extends Error {
+  format: string;
+
+  constructor(format: string, message: string) {
+    super(message);
+    this.name = 'WorkflowImportError';
+    this.format = format;
+  }
+}
@@ -0,0 +1,173 @@
+import { WorkflowDiagnostic } from '../../../models/singleView/diagnostics';
+import { WorkflowData } from '../../../models/singleView/nodeTypes';
+import {
+  ImportResult,
+  ImportWarning,
+  NodePositions,
+  WorkflowExporter,
+  WorkflowFormatId,
+  WorkflowImporter,
+} from '../../../models/singleView/importExport';
+import { validateWorkflowData } from '../workflowDataUtils';
+import { resolveNodePositions } from '../layout-utils';
+import { slugifyWorkflowName } from '../../../repositories/workflowRepository';
+import { bpmnImporter } from './bpmnImporter';
+import { bpmnExporter } from './bpmnExporter';
+import { scxmlImporter } from './scxmlImporter';
+import { scxmlExporter } from './scxmlExporter';
+import { xstateImporter } from './xstateImporter';
+import { xstateExporter } from './xstateExporter';
+import { mermaidImporter } from './mermaidImporter';
+import { mermaidFlowchartExporter, mermaidStateDiagramExporter } from './mermaidExporter';
+import { dotImporter } from './dotImporter';
+import { dotExporter } from './dotExporter';
+import { workflowDocumentExporter, workflowDocumentImporter } from './workflowDocument';
+import { WorkflowImportError } from './importError';
+
+export { WorkflowImportError } from './importError';
+export { parseBpmn, bpmnImporter } from './bpmnImporter';
+export { serializeBpmn, bpmnExporter } from './bpmnExporter';
+export { parseScxml, scxmlImporter } from './scxmlImporter';
+export { serializeScxml, scxmlExporter } from './scxmlExporter';
+export { parseXState, xstateImporter } from './xstateImporter';
+export { workflowToXState, xstateExporter } from './xstateExporter';
+export type { XStateMachineConfig } from './xstateExporter';
+export { parseMermaid, mermaidImporter } from './mermaidImporter';
+export {
+  serializeMermaidFlowchart,
+  serializeMermaidStateDiagram,
+  mermaidFlowchartExporter,
+  mermaidStateDiagramExporter,
+} from './mermaidExporter';
+export { parseDot, dotImporter } from './dotImporter';
+export { serializeDot, dotExporter } from './dotExporter';
+export {
+  CURRENT_WORKFLOW_DOCUMENT_VERSION,
+  createWorkflowDocument,
+  loadWorkflowDocument,
+  migrateWorkflowDocument,
+  registerWorkflowDocumentMigration,
+  listWorkflowDocumentMigrations,
+  workflowDocumentImporter,
+  workflowDocumentExporter,
+} from './workflowDocument';
+export type { LoadedWorkflowDocument, WorkflowDocumentMigration } from './workflowDocument';
+
+/**
+ * ============= FORMAT REGISTRY =============
+ * Every importer goes through validateWorkflowData, so imported workflows get
+ * the same repairs and diagnostics as backend payloads
+ */
+
+const importers = new Map<WorkflowFormatId, WorkflowImporter>([
+  [workflowDocumentImporter.format, workflowDocumentImporter],
+  [bpmnImporter.format, bpmnImporter],
+  [scxmlImporter.format, scxmlImporter],
+  [xstateImporter.format, xstateImporter],
+  [mermaidImporter.format, mermaidImporter],
+  [dotImporter.format, dotImporter],
+]);
+
+export const registerWorkflowImporter = (importer: WorkflowImporter) => {
+  importers.set(importer.format, importer);
+};
+
+export const listWorkflowImporters = () => Array.from(importers.values());
+
+const extensionOf = (fileName?: string) => fileName?.split('.').pop()?.toLowerCase() || '';
+
+/**
+ * Picks an importer by file extension, confirmed (or overridden) by content sniffing
+ */
+export const findWorkflowImporter = (text: string, fileName?: string): WorkflowImporter | undefined => {
+  const all = listWorkflowImporters();
+  const extension = extensionOf(fileName);
+  const byExtension = all.filter(importer => importer.extensions.includes(extension));
+  return byExtension.find(importer => importer.detect(text)) ||
+    all.find(importer => importer.detect(text)) ||
+    byExtension[0];
+};
+
+export interface WorkflowImportOutcome extends ImportResult {
+  format: WorkflowFormatId;
+  diagnostics: WorkflowDiagnostic[];  // Import warnings followed by validation diagnostics
+}
+
+export const importWarningToDiagnostic = (warning: ImportWarning): WorkflowDiagnostic => ({
+  code: 'IMPORT_WARNING',
+  severity: 'warning',
+  message: warning.message,
+  nodeIds: [],
+  edgeIds: [],
+});
+
+/**
+ * Parses a document in any registered format and validates the result
+ */
+export const importWorkflow = (
+  text: string,
+  options: { format?: WorkflowFormatId; fileName?: string } = {}
+): WorkflowImportOutcome => {
+  const importer = options.format ? importers.get(options.format) : findWorkflowImporter(text, options.fileName);
+  if (!importer) {
+    throw new WorkflowImportError(
+      options.format || extensionOf(options.fileName) || 'unknown',
+      `Unrecognised workflow format${options.fileName ? ` for ${options.fileName}` : ''}`
+    );
+  }
+
+  const { workflow, warnings } = importer.parse(text);
+  const validation = validateWorkflowData(workflow);
+
+  return {
+    format: importer.format,
+    workflow: validation.data,
+    warnings,
+    diagnostics: [...warnings.map(importWarningToDiagnostic), ...validation.diagnostics],
+  };
+};
+
+/**
+ * ============= EXPORT =============
+ */
+
+const exporters = new Map<WorkflowFormatId, WorkflowExporter>([
+  [workflowDocumentExporter.format, workflowDocumentExporter],
+  [bpmnExporter.format, bpmnExporter],
+  [scxmlExporter.format, scxmlExporter],
+  [xstateExporter.format, xstateExporter],
+  [mermaidFlowchartExporter.format, mermaidFlowchartExporter],
+  [mermaidStateDiagramExporter.format, mermaidStateDiagramExporter],
+  [dotExporter.format, dotExporter],
+]);
+
+export const registerWorkflowExporter = (exporter: WorkflowExporter) => {
+  exporters.set(exporter.format, exporter);
+};
+
+export const listWorkflowExporters = () => Array.from(exporters.values());
+
+export interface WorkflowExportFile {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+/**
+ * Serialises a workflow; positions default to its stored layout, or the smart layout without one
+ */
+export const exportWorkflow = (
+  workflow: WorkflowData,
+  format: WorkflowFormatId,
+  positions: NodePositions = Object.fromEntries(resolveNodePositions(workflow))
+): WorkflowExportFile => {
+  const exporter = exporters.get(format);
+  if (!exporter) {
+    throw new Error(`No exporter registered for ${format}`);
+  }
+  return {
+    content: exporter.serialize(workflow, positions),
+    fileName: `${slugifyWorkflowName(workflow.name || workflow.id)}.${exporter.extension}`,
+    mimeType: exporter.mimeType,
+  };
+};
@@ -0,0 +1,112 @@
+import { WorkflowData } from '../../../models/singleView/nodeTypes';
+import { WorkflowExporter } from '../../../models/singleView/importExport';
+import { workflowToMachine } from './stateMachineModel';
+
+/**
+ * ============= MERMAID EXPORT =============
+ * Two flavours for design docs: a `flowchart` that keeps every node (statuses as rounded
+ * nodes, events as boxes) and a `stateDiagram-v2` where statuses are states and events
+ * label the transitions between them. Neither carries a layout - Mermaid lays out itself
+ */
+
+// Words Mermaid reads as keywords when used as a bare node id
+const reservedIds = new Set([
+  'end', 'graph', 'flowchart', 'subgraph', 'direction', 'class', 'classdef',
+  'style', 'linkstyle', 'click', 'call', 'href', 'state', 'note', 'default',
+]);
+
+/**
+ * Gives every workflow id a unique Mermaid-safe id
+ * Flowcharts accept single dashes inside ids ("app-start"); state diagrams don't
+ */
+export const createMermaidIds = (ids: string[], allowDashes = false) => {
+  const used = new Set<string>();
+  return new Map(ids.map(id => {
+    const cleaned = (allowDashes
+      ? id.replace(/[^\w-]|-(?=-)|^-|-$/g, '_')
+      : id.replace(/[^\w]/g, '_')) || 'node';
+    const base = reservedIds.has(cleaned.toLowerCase()) ? `n_${cleaned}` : cleaned;
+    let mermaidId = base;
+    for (let suffix = 2; used.has(mermaidId); suffix++) {
+      mermaidId = `${base}_${suffix}`;
+    }
+    used.add(mermaidId);
+    return [id, mermaidId];
+  }));
+};
+
+// Quotes and line breaks would end a label early
+export const escapeMermaidText = (text: string) =>
+  text.replace(/"/g, '#quot;').replace(/\s+/g, ' ').trim();
+
+const titleBlock = (workflow: WorkflowData) =>
+  workflow.name ? ['---', `title: ${escapeMermaidText(workflow.name)}`, '---'] : [];
+
+const classDefs = [
+  '  classDef status fill:#dbeafe,stroke:#2563eb',
+  '  classDef event fill:#f3f4f6,stroke:#4b5563',
+];
+
+export const serializeMermaidFlowchart = (workflow: WorkflowData): string => {
+  const ids = createMermaidIds(workflow.nodes.map(node => node.id), true);
+  const nodeLines = workflow.nodes.map(node => {
+    const label = `"${escapeMermaidText(node.label)}"`;
+    const shape = node.type === 'status' ? `(${label})` : `[${label}]`;
+    return `  ${ids.get(node.id)}${shape}:::${node.type}`;
+  });
+  const edgeLines = workflow.edges
+    .filter(edge => ids.has(edge.source) && ids.has(edge.target))
+    .map(edge => {
+      const label = edge.label ? `|"${escapeMermaidText(edge.label)}"|` : '';
+      return `  ${ids.get(edge.source)} -->${label} ${ids.get(edge.target)}`;
+    });
+
+  return [...titleBlock(workflow), 'flowchart LR', ...nodeLines, ...edgeLines, ...classDefs, ''].join('\n');
+};
+
+export const serializeMermaidStateDiagram = (workflow: WorkflowData): string => {
+  const machine = workflowToMachine(workflow);
+  const ids = createMermaidIds(machine.states.map(state => state.id));
+  const eventStates = machine.states.filter(state => state.kind === 'event');
+
+  const stateLines = machine.states.map(state => `  state "${escapeMermaidText(state.label)}" as ${ids.get(state.id)}`);
+  const transitionLines = machine.states.flatMap(state => {
+    const from = ids.get(state.id);
+    const lines = state.transitions.map(transition => {
+      const to = transition.target ? ids.get(transition.target) : '[*]';
+      // UML-style guard after the event name: "Approve [amount > 10]"
+      const text = [transition.label ?? transition.event, transition.cond && `[${transition.cond}]`]
+        .filter(Boolean)
+        .join(' ');
+      return `  ${from} --> ${to}${text ? ` : ${escapeMermaidText(text)}` : ''}`;
+    });
+    return state.final ? [...lines, `  ${from} --> [*]`] : lines;
+  });
+
+  return [
+    ...titleBlock(workflow),
+    'stateDiagram-v2',
+    '  direction LR',
+    ...stateLines,
+    ...(machine.initial ? [`  [*] --> ${ids.get(machine.initial)}`] : []),
+    ...transitionLines,
+    ...(eventStates.length > 0 ? [classDefs[1], `  class ${eventStates.map(state => ids.get(state.id)).join(',')} event`] : []),
+    '',
+  ].join('\n');
+};
+
+export const mermaidFlowchartExporter: WorkflowExporter = {
+  format: 'mermaid',
+  label: 'Mermaid flowchart',
+  extension: 'mmd',
+  mimeType: 'text/plain',
+  serialize: serializeMermaidFlowchart,
+};
+
+export const mermaidStateDiagramExporter: WorkflowExporter = {
+  format: 'mermaid-state',
+  label: 'Mermaid state diagram',
+  extension: 'mmd',
+  mimeType: 'text/plain',
+  serialize: serializeMermaidStateDiagram,
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { WorkflowData } from '../../../models/singleView/nodeTypes';
+import { exportWorkflow, importWorkflow } from './index';
+import { conditionalWorkflow } from './formatTestUtils';
+
+// Quotes are written as "#quot;", whose semicolon mustn't end the statement on the way back
+const quotedWorkflow: WorkflowData = {
+  ...conditionalWorkflow,
+  nodes: conditionalWorkflow.nodes.map(node => node.id === 'approve'
+    ? { ...node, label: 'Approve "fast track"', metadata: { condition: 'tier == "gold"' } }
+    : node),
+};
+
+const describeEvents = (workflow: WorkflowData) => workflow.nodes
+  .filter(node => node.type === 'event')
+  .map(node => ({ label: node.label, condition: (node.metadata as { condition?: string } | undefined)?.condition }))
+  .sort((a, b) => a.label.localeCompare(b.label));
+
+describe('Mermaid state diagram round trip', () => {
+  it('keeps quotes in event labels and guards', () => {
+    const { content } = exportWorkflow(quotedWorkflow, 'mermaid-state');
+    const imported = importWorkflow(content, { format: 'mermaid' });
+
+    expect(imported.warnings).toEqual([]);
+    expect(describeEvents(imported.workflow)).toEqual([
+      { label: 'Approve "fast track"', condition: 'tier == "gold"' },
+      { label: 'Escalate', condition: 'amount > 1000' },
+    ]);
+    expect(imported.workflow.edges).toHaveLength(quotedWorkflow.edges.length);
+  });
+});
+
+describe('Mermaid flowchart round trip', () => {
+  it('keeps quotes in node labels', () => {
+    const { content } = exportWorkflow(quotedWorkflow, 'mermaid');
+    const imported = importWorkflow(content, { format: 'mermaid' });
+
+    expect(imported.warnings).toEqual([]);
+    expect(imported.workflow.nodes.find(node => node.id === 'approve')?.label).toBe('Approve "fast track"');
+  });
+});
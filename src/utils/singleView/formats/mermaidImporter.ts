@@ -0,0 +1,342 @@
+import { WorkflowData, WorkflowEdge, WorkflowNode } from '../../../models/singleView/nodeTypes';
+import { ImportResult, ImportWarning, WorkflowImporter } from '../../../models/singleView/importExport';
+import { WorkflowImportError } from './importError';
+import { MachineState, MachineTransition, machineToWorkflow } from './stateMachineModel';
+
+/**
+ * ============= MERMAID IMPORT =============
+ * Understands the subset our exporter writes, which is also what design docs tend to use:
+ * - flowchart/graph: rounded, stadium and circle nodes → statuses; every other shape → events
+ * - stateDiagram(-v2): states → statuses, transition labels → events ("Event [guard]"); the
+ *   transitions leaving a state with the same label share one event
+ * A `:::status` / `:::event` class overrides the shape. Styling, click handlers and notes
+ * are ignored; subgraphs and composite states are flattened. There are no coordinates,
+ * so viewers lay the result out with calculateSmartLayout
+ */
+
+// Opening bracket → closing bracket, longest first so "([" wins over "("
+const nodeShapes: Array<{ open: string; close: string; type: WorkflowNode['type'] }> = [
+  { open: '(((', close: ')))', type: 'status' },
+  { open: '([', close: '])', type: 'status' },
+  { open: '((', close: '))', type: 'status' },
+  { open: '[[', close: ']]', type: 'event' },
+  { open: '[(', close: ')]', type: 'event' },
+  { open: '{{', close: '}}', type: 'event' },
+  { open: '[/', close: '/]', type: 'event' },
+  { open: '[\\', close: '\\]', type: 'event' },
+  { open: '(', close: ')', type: 'status' },
+  { open: '[', close: ']', type: 'event' },
+  { open: '{', close: '}', type: 'event' },
+  { open: '>', close: ']', type: 'event' },
+];
+
+// "-->", "---", "==>", "-.->", optionally with "|label|" or as "-- label -->"
+const linkPattern = /\s*(?:(?:--|==|-\.)\s*([^|>\s-][^>]*?)\s*)?(<?(?:-{2,}|={2,}|-\.+-|\.+-)[>ox]?)(?:\|([^|]*)\|)?\s*/y;
+const nodeIdPattern = /\s*(\w+(?:-\w+)*)/y;
+const classPattern = /:::([\w-]+)/y;
+
+const decodeText = (text: string) =>
+  text
+    .trim()
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Splits the text into statements, dropping comments, the title front matter and blank lines
+ */
+const readStatements = (text: string) => {
+  // Markdown documents: the first ```mermaid block
+  const fenced = /```mermaid[^\n]*\n([\s\S]*?)```/.exec(text);
+  const lines = (fenced ? fenced[1] : text).replace(/\r\n?/g, '\n').split('\n');
+  let title: string | undefined;
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end > 0) {
+      lines.slice(1, end).forEach(line => {
+        const match = /^\s*title:\s*(.+)$/.exec(line);
+        if (match) title = decodeText(match[1]);
+      });
+      lines.splice(0, end + 1);
+    }
+  }
+
+  // Semicolons end statements, except inside quotes and entity codes such as "#quot;"
+  const statements = lines
+    .flatMap(line => line.split(/(?<!#(?:[a-z]+|\d+));\s*(?=(?:[^"]*"[^"]*")*[^"]*$)/i))
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('%%'));
+  return { title, statements };
+};
+
+// Mermaid has no workflow id; the title is the closest thing to a name
+const workflowIdentity = (title: string | undefined) => ({
+  id: `mermaid-${Date.now()}`,
+  name: title || 'Imported Mermaid diagram',
+  description: '',
+});
+
+/**
+ * ============= FLOWCHART =============
+ */
+
+const ignoredFlowchartStatements = /^(classDef|style|linkStyle|click|direction|accTitle|accDescr)\b/;
+
+const parseFlowchart = (statements: string[], title: string | undefined): ImportResult => {
+  const warnings: ImportWarning[] = [];
+  const nodes = new Map<string, WorkflowNode>();
+  const typeOverrides = new Map<string, WorkflowNode['type']>();
+  const edges: WorkflowEdge[] = [];
+  const edgeKeys = new Set<string>();
+
+  const ensureNode = (id: string, label?: string, type?: WorkflowNode['type']) => {
+    const existing = nodes.get(id);
+    if (existing) {
+      if (label !== undefined) existing.label = label;
+      if (type) existing.type = type;
+      return;
+    }
+    // Bare ids render as boxes in Mermaid
+    nodes.set(id, { id, type: type ?? 'event', label: label ?? id });
+  };
+
+  const applyClass = (id: string, className: string) => {
+    if (className === 'status' || className === 'event') typeOverrides.set(id, className);
+  };
+
+  // Reads "id", "id[label]", "id(label):::class" at the cursor
+  const readNode = (statement: string, cursor: { index: number }): string | undefined => {
+    nodeIdPattern.lastIndex = cursor.index;
+    const idMatch = nodeIdPattern.exec(statement);
+    if (!idMatch) return undefined;
+    const id = idMatch[1];
+    let index = nodeIdPattern.lastIndex;
+
+    const shape = nodeShapes.find(candidate => statement.startsWith(candidate.open, index));
+    if (shape) {
+      const start = index + shape.open.length;
+      const quoted = statement[start] === '"' ? statement.indexOf('"', start + 1) : -1;
+      const end = statement.indexOf(shape.close, quoted >= 0 ? quoted + 1 : start);
+      if (end < 0) {
+        throw new WorkflowImportError('mermaid', `Unclosed node shape in "${statement}"`);
+      }
+      ensureNode(id, decodeText(statement.slice(start, end)), shape.type);
+      index = end + shape.close.length;
+    } else {
+      ensureNode(id);
+    }
+
+    classPattern.lastIndex = index;
+    const classMatch = classPattern.exec(statement);
+    if (classMatch) {
+      applyClass(id, classMatch[1]);
+      index = classPattern.lastIndex;
+    }
+    cursor.index = index;
+    return id;
+  };
+
+  // "a & b" groups
+  const readNodeGroup = (statement: string, cursor: { index: number }) => {
+    const group: string[] = [];
+    for (;;) {
+      const id = readNode(statement, cursor);
+      if (!id) break;
+      group.push(id);
+      const ampersand = /\s*&\s*/y;
+      ampersand.lastIndex = cursor.index;
+      if (!ampersand.exec(statement)) break;
+      cursor.index = ampersand.lastIndex;
+    }
+    return group;
+  };
+
+  statements.forEach(statement => {
+    if (ignoredFlowchartStatements.test(statement)) return;
+
+    const classStatement = /^class\s+([\w,\s-]+?)\s+([\w-]+)$/.exec(statement);
+    if (classStatement) {
+      classStatement[1].split(',').forEach(id => applyClass(id.trim(), classStatement[2]));
+      return;
+    }
+    if (/^subgraph\b/.test(statement)) {
+      warnings.push({
+        code: 'COLLAPSED_ELEMENT',
+        message: `Subgraph "${statement.replace(/^subgraph\s*/, '')}" was flattened`,
+        elementType: 'subgraph',
+      });
+      return;
+    }
+    if (statement === 'end') return;
+
+    const cursor = { index: 0 };
+    let sources = readNodeGroup(statement, cursor);
+    while (sources.length > 0 && cursor.index < statement.length) {
+      linkPattern.lastIndex = cursor.index;
+      const link = linkPattern.exec(statement);
+      if (!link) break;
+      cursor.index = linkPattern.lastIndex;
+
+      const targets = readNodeGroup(statement, cursor);
+      const label = decodeText(link[1] ?? link[3] ?? '');
+      const backwards = link[2].startsWith('<');
+      sources.forEach(source => targets.forEach(target => {
+        const [from, to] = backwards ? [target, source] : [source, target];
+        if (edgeKeys.has(`${from}->${to}`)) return;
+        edgeKeys.add(`${from}->${to}`);
+        edges.push({ id: `${from}-${to}`, source: from, target: to, label });
+      }));
+      sources = targets;
+    }
+
+    if (cursor.index < statement.length) {
+      warnings.push({
+        code: 'UNSUPPORTED_ELEMENT',
+        message: `Couldn't read "${statement.slice(cursor.index).trim()}" in "${statement}"`,
+        elementType: 'statement',
+      });
+    }
+  });
+
+  typeOverrides.forEach((type, id) => {
+    const node = nodes.get(id);
+    if (node) node.type = type;
+  });
+
+  const workflow: WorkflowData = { ...workflowIdentity(title), nodes: Array.from(nodes.values()), edges };
+  return { workflow, warnings };
+};
+
+/**
+ * ============= STATE DIAGRAM =============
+ */
+
+const ignoredStateStatements = /^(direction|classDef|style|hide|scale|accTitle|accDescr)\b/;
+const pseudoState = '[*]';
+
+const parseStateDiagram = (statements: string[], title: string | undefined): ImportResult => {
+  const warnings: ImportWarning[] = [];
+  const states = new Map<string, MachineState>();
+  const eventStates = new Set<string>();
+
+  const ensureState = (id: string) => {
+    let state = states.get(id);
+    if (!state) {
+      state = { id, label: id, kind: 'status', final: false, transitions: [] };
+      states.set(id, state);
+    }
+    return state;
+  };
+
+  let inNote = false;
+  statements.forEach(statement => {
+    if (inNote) {
+      inNote = !/^end note$/.test(statement);
+      return;
+    }
+    if (/^note\b/.test(statement)) {
+      inNote = !statement.includes(':');  // One-line notes have their text after a colon
+      return;
+    }
+    if (ignoredStateStatements.test(statement) || statement === '}' || statement === '--') return;
+
+    const classStatement = /^class\s+([\w,\s-]+?)\s+([\w-]+)$/.exec(statement);
+    if (classStatement) {
+      if (classStatement[2] === 'event') classStatement[1].split(',').forEach(id => eventStates.add(id.trim()));
+      return;
+    }
+
+    const declaration = /^state\s+(?:"([^"]*)"\s+as\s+([\w-]+)|([\w-]+))\s*(<<\w+>>)?\s*(\{)?$/.exec(statement);
+    if (declaration) {
+      const id = declaration[2] ?? declaration[3];
+      const state = ensureState(id);
+      if (declaration[1] !== undefined) state.label = decodeText(declaration[1]);
+      if (declaration[4] || declaration[5]) {
+        warnings.push({
+          code: 'COLLAPSED_ELEMENT',
+          message: declaration[5]
+            ? `Composite state "${id}" was flattened into its child states`
+            : `${declaration[4]} state "${id}" was imported as a plain status`,
+          elementId: id,
+          elementType: 'state',
+        });
+      }
+      return;
+    }
+
+    const transition = /^(\[\*\]|[\w-]+)(?::::[\w-]+)?\s*-->\s*(\[\*\]|[\w-]+)(?::::[\w-]+)?\s*(?::\s*(.*))?$/.exec(statement);
+    if (transition) {
+      const [, from, to, text] = transition;
+      if (from === pseudoState) {
+        if (to !== pseudoState) ensureState(to);
+        return;
+      }
+      const source = ensureState(from);
+      if (to !== pseudoState) ensureState(to);
+
+      const label = text ? decodeText(text) : '';
+      const guard = /^(.*?)\s*\[([^\]]*)\]$/.exec(label);
+      const eventLabel = guard ? guard[1] : label;
+      if (!eventLabel) {
+        if (to === pseudoState) source.final = true;
+        else source.transitions.push({ target: to });
+        return;
+      }
+      const machineTransition: MachineTransition = {
+        event: eventLabel.replace(/[^\w-]+/g, '_'),
+        label: eventLabel,
+        group: `${from}\u0000${label}`,
+        ...(to !== pseudoState && { target: to }),
+        ...(guard && guard[2] && { cond: guard[2] }),
+      };
+      source.transitions.push(machineTransition);
+      return;
+    }
+
+    const description = /^([\w-]+)\s*:\s*(.+)$/.exec(statement);
+    if (description) {
+      ensureState(description[1]).label = decodeText(description[2]);
+      return;
+    }
+
+    warnings.push({
+      code: 'UNSUPPORTED_ELEMENT',
+      message: `Couldn't read "${statement}"`,
+      elementType: 'statement',
+    });
+  });
+
+  eventStates.forEach(id => {
+    const state = states.get(id);
+    if (state) state.kind = 'event';
+  });
+
+  const workflow = machineToWorkflow(
+    { ...workflowIdentity(title), states: Array.from(states.values()) },
+    warnings,
+    kind => kind
+  );
+  return { workflow, warnings };
+};
+
+export const parseMermaid = (text: string): ImportResult => {
+  const { title, statements } = readStatements(text);
+  const [header, ...body] = statements;
+
+  if (/^(flowchart|graph)\b/.test(header ?? '')) return parseFlowchart(body, title);
+  if (/^stateDiagram(-v2)?\b/.test(header ?? '')) return parseStateDiagram(body, title);
+  throw new WorkflowImportError('mermaid', 'Only Mermaid flowchart and stateDiagram-v2 diagrams can be imported');
+};
+
+export const mermaidImporter: WorkflowImporter = {
+  format: 'mermaid',
+  label: 'Mermaid',
+  extensions: ['mmd', 'mermaid', 'md'],
+  detect: text =>
+    text.includes('```mermaid') || /^\s*(?:---[\s\S]*?---\s*)?(?:%%.*\n\s*)*(flowchart|graph|stateDiagram)/.test(text),
+  parse: parseMermaid,
+};
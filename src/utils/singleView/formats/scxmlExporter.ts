@@ -0,0 +1,66 @@
+import { WorkflowData } from '../../../models/singleView/nodeTypes';
+import { WorkflowExporter } from '../../../models/singleView/importExport';
+import { MachineState, MachineTransition, workflowToMachine } from './stateMachineModel';
+import { PMF_EXTENSION_NAMESPACE } from './bpmnExporter';
+import { escapeXml, toXmlId } from './xmlUtils';
+
+/**
+ * ============= SCXML EXPORT =============
+ * Statuses become <state>s (<final> when nothing leaves them) and events become
+ * <transition>s whose `cond` is the event's condition. Labels and metadata, which SCXML
+ * has no place for, are kept in pmf:* attributes so the importer can restore them
+ */
+
+export const SCXML_NAMESPACE = 'http://www.w3.org/2005/07/scxml';
+
+const attribute = (name: string, value: string | undefined) =>
+  value ? ` ${name}="${escapeXml(value)}"` : '';
+
+const metadataAttribute = (metadata: object | undefined) =>
+  metadata && Object.keys(metadata).length > 0 ? attribute('pmf:metadata', JSON.stringify(metadata)) : '';
+
+const serializeTransition = (transition: MachineTransition) =>
+  '    <transition' +
+  attribute('event', transition.event && toXmlId(transition.event)) +
+  attribute('target', transition.target && toXmlId(transition.target)) +
+  attribute('cond', transition.cond) +
+  attribute('pmf:node', transition.eventNodeId) +
+  attribute('pmf:label', transition.label) +
+  metadataAttribute(transition.metadata) +
+  ' />';
+
+const serializeState = (state: MachineState) => {
+  const tag = state.final ? 'final' : 'state';
+  const opening = `  <${tag} id="${toXmlId(state.id)}"` +
+    attribute('pmf:label', state.label) +
+    (state.kind === 'event' ? ' pmf:kind="event"' : '') +
+    metadataAttribute(state.metadata);
+
+  if (state.transitions.length === 0) return `${opening} />`;
+  return [`${opening}>`, ...state.transitions.map(serializeTransition), `  </${tag}>`].join('\n');
+};
+
+export const serializeScxml = (workflow: WorkflowData): string => {
+  const machine = workflowToMachine(workflow);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<scxml xmlns="${SCXML_NAMESPACE}" xmlns:pmf="${PMF_EXTENSION_NAMESPACE}" version="1.0"` +
+      attribute('name', machine.name) +
+      attribute('initial', machine.initial && toXmlId(machine.initial)) +
+      attribute('pmf:id', machine.id) +
+      attribute('pmf:description', machine.description) +
+      '>',
+    ...machine.states.map(serializeState),
+    '</scxml>',
+    '',
+  ].join('\n');
+};
+
+export const scxmlExporter: WorkflowExporter = {
+  format: 'scxml',
+  label: 'SCXML',
+  extension: 'scxml',
+  mimeType: 'application/xml',
+  serialize: serializeScxml,
+};
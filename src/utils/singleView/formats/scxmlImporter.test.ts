@@ -0,0 +1,30 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { mockWorkflows, validateWorkflowData } from '../workflowDataUtils';
+import { exportWorkflow, importWorkflow } from './index';
+import { conditionalWorkflow, describeDiagnostics, describeEdges, describeNodes } from './formatTestUtils';
+
+describe('SCXML round trip', () => {
+  it.each([
+    ['ebm-version', mockWorkflows['ebm-version']],
+    ['mortgage-origination', mockWorkflows['mortgage-origination']],
+    ['conditional', conditionalWorkflow],
+  ])('keeps the %s workflow', (_, workflow) => {
+    const { content } = exportWorkflow(workflow, 'scxml');
+    const imported = importWorkflow(content, { format: 'scxml' });
+
+    expect(imported.workflow.id).toBe(workflow.id);
+    expect(imported.workflow.name).toBe(workflow.name);
+    expect(describeNodes(imported.workflow)).toEqual(describeNodes(workflow));
+    expect(describeEdges(imported.workflow)).toEqual(describeEdges(workflow));
+    // Problems in the workflow itself survive the trip, and the trip adds none
+    expect(describeDiagnostics(imported.diagnostics)).toEqual(describeDiagnostics(validateWorkflowData(workflow).diagnostics));
+  });
+
+  it('writes event conditions as transition conditions', () => {
+    const { content } = exportWorkflow(conditionalWorkflow, 'scxml');
+
+    expect(content).toMatch(/<transition event="approve" target="approved" cond="amount &lt;= 1000"/);
+    expect(content).toMatch(/<transition event="escalate" target="review" cond="amount &gt; 1000"/);
+  });
+});
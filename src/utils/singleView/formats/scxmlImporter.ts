@@ -0,0 +1,137 @@
+import { ImportResult, ImportWarning, WorkflowImporter } from '../../../models/singleView/importExport';
+import { EventMetadata } from '../../../models/singleView/nodeTypes';
+import { normalizeNodeMetadata } from '../nodeMetadata';
+import { WorkflowImportError } from './importError';
+import { MachineState, MachineTransition, machineToWorkflow } from './stateMachineModel';
+import { childElements, descendants, parseXml } from './xmlUtils';
+
+/**
+ * ============= SCXML IMPORT =============
+ * Atomic states become statuses and each (event, target) pair becomes an event node
+ * between them. Compound and parallel states are flattened into their atomic children;
+ * executable content (onentry, invoke, ...) has no workflow equivalent and is skipped
+ */
+
+const stateTypes = new Set(['state', 'final', 'parallel']);
+const unsupportedTypes = ['history', 'invoke', 'datamodel', 'script', 'onentry', 'onexit'];
+
+const childStates = (element: Element) =>
+  childElements(element).filter(child => stateTypes.has(child.localName));
+
+// pmf:* attributes are written by our exporter; other tools won't have them
+const pmfAttribute = (element: Element, name: string) => element.getAttribute(`pmf:${name}`) || undefined;
+
+const readMetadata = (
+  element: Element,
+  kind: 'status' | 'event',
+  warnings: ImportWarning[]
+) => {
+  const raw = pmfAttribute(element, 'metadata');
+  if (!raw) return undefined;
+  try {
+    return normalizeNodeMetadata(kind, JSON.parse(raw));
+  } catch {
+    warnings.push({
+      code: 'INVALID_VALUE',
+      message: `Ignored unreadable pmf:metadata on <${element.localName}>`,
+      elementId: element.getAttribute('id') || undefined,
+      elementType: element.localName,
+    });
+    return undefined;
+  }
+};
+
+export const parseScxml = (text: string): ImportResult => {
+  const document = parseXml(text, 'scxml');
+  const root = document.documentElement;
+  if (!root || root.localName !== 'scxml') {
+    throw new WorkflowImportError('scxml', 'No <scxml> root element found');
+  }
+  const warnings: ImportWarning[] = [];
+
+  const allStates = descendants(root, 'state')
+    .concat(descendants(root, 'final'), descendants(root, 'parallel'))
+    .filter(element => element.getAttribute('id'));
+  const elementsById = new Map(allStates.map(element => [element.getAttribute('id')!, element]));
+  const atomicStates = allStates.filter(element => childStates(element).length === 0);
+
+  // A transition into a compound state enters its initial child
+  const resolveTarget = (id: string): string => {
+    const element = elementsById.get(id);
+    const children = element ? childStates(element) : [];
+    if (!element || children.length === 0) return id;
+    const initial = element.getAttribute('initial')?.split(/\s+/)[0];
+    return resolveTarget(initial || children[0].getAttribute('id') || id);
+  };
+
+  allStates
+    .filter(element => childStates(element).length > 0)
+    .forEach(element => warnings.push({
+      code: 'COLLAPSED_ELEMENT',
+      message: `Compound ${element.localName} "${element.getAttribute('id')}" was flattened into its child states`,
+      elementId: element.getAttribute('id')!,
+      elementType: element.localName,
+    }));
+
+  unsupportedTypes.forEach(type => descendants(root, type).forEach(element => warnings.push({
+    code: 'UNSUPPORTED_ELEMENT',
+    message: `<${type}> has no workflow equivalent and was skipped`,
+    elementId: element.getAttribute('id') || undefined,
+    elementType: type,
+  })));
+
+  const readTransitions = (element: Element): MachineTransition[] =>
+    childElements(element, 'transition').flatMap(transition => {
+      const event = transition.getAttribute('event') || undefined;
+      const targets = (transition.getAttribute('target') || '').split(/\s+/).filter(Boolean);
+      if (!event && targets.length === 0) return [];
+
+      const base = {
+        event,
+        cond: transition.getAttribute('cond') || undefined,
+        eventNodeId: pmfAttribute(transition, 'node'),
+        label: pmfAttribute(transition, 'label'),
+        metadata: readMetadata(transition, 'event', warnings) as EventMetadata | undefined,
+      };
+      return targets.length > 0 ? targets.map(target => ({ ...base, target: resolveTarget(target) })) : [base];
+    });
+
+  // Atomic states also take the transitions of their enclosing compound states
+  const inheritedTransitions = (element: Element): MachineTransition[] => {
+    const parent = element.parentElement;
+    return parent && stateTypes.has(parent.localName) ? [...readTransitions(parent), ...inheritedTransitions(parent)] : [];
+  };
+
+  const states = atomicStates.map((element): MachineState => {
+    const kind = pmfAttribute(element, 'kind') === 'event' ? 'event' : 'status';
+    return {
+      id: element.getAttribute('id')!,
+      label: pmfAttribute(element, 'label') || element.getAttribute('id')!,
+      kind,
+      final: element.localName === 'final',
+      metadata: readMetadata(element, kind, warnings),
+      transitions: [...readTransitions(element), ...inheritedTransitions(element)],
+    };
+  });
+
+  const workflow = machineToWorkflow(
+    {
+      id: pmfAttribute(root, 'id') || root.getAttribute('name') || 'scxml-workflow',
+      name: root.getAttribute('name') || 'Imported SCXML workflow',
+      description: pmfAttribute(root, 'description') || '',
+      states,
+    },
+    warnings,
+    kind => kind
+  );
+
+  return { workflow, warnings };
+};
+
+export const scxmlImporter: WorkflowImporter = {
+  format: 'scxml',
+  label: 'SCXML',
+  extensions: ['scxml', 'xml'],
+  detect: text => /<([\w-]+:)?scxml[\s>]/.test(text),
+  parse: parseScxml,
+};
@@ -0,0 +1,201 @@
+import {
+  EventMetadata,
+  StatusMetadata,
+  WorkflowData,
+  WorkflowEdge,
+  WorkflowNode,
+} from '../../../models/singleView/nodeTypes';
+import { ImportWarning } from '../../../models/singleView/importExport';
+import { getEventMetadata, normalizeNodeMetadata } from '../nodeMetadata';
+
+/**
+ * ============= STATE MACHINE MODEL =============
+ * Format-neutral view of a workflow as a state machine, shared by the SCXML and XState
+ * converters. Statuses are states; an event whose neighbours are all statuses becomes a
+ * transition (one per source state and target). Events that can't be expressed that way
+ * (chained events, events without a source status) are kept as states marked as events,
+ * with eventless transitions around them, so every graph round-trips
+ */
+
+export interface MachineTransition {
+  event?: string;          // Absent for eventless transitions
+  target?: string;         // Absent for targetless transitions
+  cond?: string;           // Guard, from the event's condition metadata
+  eventNodeId?: string;    // Event node the transition was generated from
+  group?: string;          // Transitions sharing a group become one event node
+  label?: string;          // Event node label
+  metadata?: EventMetadata;
+}
+
+export interface MachineState {
+  id: string;
+  label: string;
+  kind: WorkflowNode['type'];  // 'event' for events kept as states
+  final: boolean;
+  metadata?: EventMetadata | StatusMetadata;
+  transitions: MachineTransition[];
+}
+
+export interface StateMachineModel {
+  id: string;
+  name: string;
+  description: string;
+  initial?: string;
+  states: MachineState[];
+}
+
+// "None" is how the editor records "no condition"
+const guardOf = (metadata?: EventMetadata) =>
+  metadata?.condition && metadata.condition !== 'None' ? metadata.condition : undefined;
+
+export const workflowToMachine = (workflow: WorkflowData): StateMachineModel => {
+  const nodesById = new Map(workflow.nodes.map(node => [node.id, node]));
+  const outgoing = new Map<string, WorkflowNode[]>();
+  const incoming = new Map<string, WorkflowNode[]>();
+  workflow.nodes.forEach(node => {
+    outgoing.set(node.id, []);
+    incoming.set(node.id, []);
+  });
+  workflow.edges.forEach(edge => {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target) return;
+    outgoing.get(source.id)!.push(target);
+    incoming.get(target.id)!.push(source);
+  });
+
+  const isTransitionEvent = (node: WorkflowNode) =>
+    node.type === 'event' &&
+    incoming.get(node.id)!.length > 0 &&
+    incoming.get(node.id)!.every(neighbour => neighbour.type === 'status') &&
+    outgoing.get(node.id)!.every(neighbour => neighbour.type === 'status');
+
+  const stateNodes = workflow.nodes.filter(node => !isTransitionEvent(node));
+
+  const states = stateNodes.map((node): MachineState => {
+    const transitions = outgoing.get(node.id)!.flatMap((next): MachineTransition[] => {
+      if (!isTransitionEvent(next)) {
+        return [{ target: next.id }];
+      }
+      const metadata = getEventMetadata(next);
+      const cond = guardOf(metadata);
+      // The guard carries the condition, so it isn't repeated in the metadata
+      const { condition, ...rest } = metadata ?? {};
+      const transitionMetadata = cond ? rest : metadata;
+      const base = {
+        event: next.id,
+        eventNodeId: next.id,
+        label: next.label,
+        cond,
+        metadata: transitionMetadata && Object.keys(transitionMetadata).length > 0 ? transitionMetadata : undefined,
+      };
+      const targets = outgoing.get(next.id)!;
+      return targets.length > 0 ? targets.map(target => ({ ...base, target: target.id })) : [base];
+    });
+
+    return {
+      id: node.id,
+      label: node.label,
+      kind: node.type,
+      final: node.type === 'status' && transitions.length === 0,
+      metadata: node.metadata,
+      transitions,
+    };
+  });
+
+  const initial = stateNodes.find(node => node.type === 'status' && incoming.get(node.id)!.length === 0) ||
+    stateNodes[0];
+
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    description: workflow.description,
+    initial: initial?.id,
+    states,
+  };
+};
+
+/**
+ * Rebuilds the status/event graph. Transitions generated from the same event node are merged
+ * back into it, and so are transitions in the same `group`; other foreign transitions are
+ * grouped by event name and target
+ */
+export const machineToWorkflow = (
+  machine: StateMachineModel,
+  warnings: ImportWarning[],
+  elementType: (kind: 'state' | 'transition') => string
+): WorkflowData => {
+  const nodes: WorkflowNode[] = machine.states.map(state => ({
+    id: state.id,
+    type: state.kind,
+    label: state.label || state.id,
+    ...(state.metadata && { metadata: state.metadata }),
+  }));
+  const usedIds = new Set(nodes.map(node => node.id));
+  const stateIds = new Set(usedIds);
+
+  const edges: WorkflowEdge[] = [];
+  const edgeKeys = new Set<string>();
+  const addEdge = (source: string, target: string, label = '') => {
+    const key = `${source}->${target}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push({ id: `${source}-${target}`, source, target, label });
+  };
+
+  const uniqueId = (base: string) => {
+    let id = base;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    usedIds.add(id);
+    return id;
+  };
+
+  const eventNodes = new Map<string, WorkflowNode>();
+
+  machine.states.forEach(state => {
+    state.transitions.forEach(transition => {
+      if (transition.target && !stateIds.has(transition.target)) {
+        warnings.push({
+          code: 'MISSING_REFERENCE',
+          message: `Transition from "${state.id}" targets unknown state "${transition.target}"`,
+          elementId: state.id,
+          elementType: elementType('transition'),
+        });
+        return;
+      }
+
+      if (!transition.event) {
+        if (transition.target) addEdge(state.id, transition.target);
+        return;
+      }
+
+      const groupKey = transition.eventNodeId ?? transition.group ?? `${transition.event}->${transition.target ?? ''}`;
+      let eventNode = eventNodes.get(groupKey);
+      if (!eventNode) {
+        const condition = transition.cond ?? transition.metadata?.condition;
+        const metadata = normalizeNodeMetadata('event', { ...transition.metadata, condition });
+        eventNode = {
+          id: uniqueId(transition.eventNodeId ?? transition.event),
+          type: 'event',
+          label: transition.label || transition.event,
+          ...(metadata && { metadata }),
+        };
+        eventNodes.set(groupKey, eventNode);
+        nodes.push(eventNode);
+      }
+
+      addEdge(state.id, eventNode.id);
+      if (transition.target) addEdge(eventNode.id, transition.target);
+    });
+  });
+
+  return {
+    id: machine.id,
+    name: machine.name || machine.id,
+    description: machine.description,
+    nodes,
+    edges,
+  };
+};
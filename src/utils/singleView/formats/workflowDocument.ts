@@ -0,0 +1,198 @@
+import { RawWorkflowData, WorkflowData } from '../../../models/singleView/nodeTypes';
+import { NodePositions, WorkflowExporter, WorkflowImporter } from '../../../models/singleView/importExport';
+import { WORKFLOW_DOCUMENT_FORMAT, WorkflowDocument } from '../../../models/singleView/workflowDocument';
+import workflowDocumentSchema from '../../../schemas/workflow-document.v1.schema.json';
+import { JsonSchema, validateJsonSchema } from '../jsonSchema';
+import { transformWorkflowDataWithReport } from '../workflowDataUtils';
+import { WorkflowImportError } from './importError';
+
+/**
+ * ============= WORKFLOW DOCUMENT (JSON) =============
+ * Loading migrates older documents forward one version at a time through the
+ * migration registry, then validates the result against the JSON Schema
+ */
+
+export const CURRENT_WORKFLOW_DOCUMENT_VERSION = 1;
+export const WORKFLOW_DOCUMENT_SCHEMA_ID = workflowDocumentSchema.$id;
+
+const isObject = (value: unknown): value is RawWorkflowData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * ============= MIGRATIONS =============
+ */
+
+export interface WorkflowDocumentMigration {
+  from: number;
+  to: number;             // Always from + 1
+  description: string;
+  migrate: (document: RawWorkflowData) => RawWorkflowData;
+}
+
+const migrations = new Map<number, WorkflowDocumentMigration>();
+
+export const registerWorkflowDocumentMigration = (migration: WorkflowDocumentMigration) => {
+  if (migration.to !== migration.from + 1) {
+    throw new Error(`Migrations must step one version at a time (got ${migration.from} → ${migration.to})`);
+  }
+  migrations.set(migration.from, migration);
+};
+
+export const listWorkflowDocumentMigrations = () =>
+  Array.from(migrations.values()).sort((a, b) => a.from - b.from);
+
+// Version 0: bare workflow objects saved before the document format existed
+registerWorkflowDocumentMigration({
+  from: 0,
+  to: 1,
+  description: 'Wrap a bare workflow object in a version 1 document',
+  migrate: raw => {
+    const { workflow } = transformWorkflowDataWithReport(raw);
+    const positions = isObject(raw.layout) && isObject(raw.layout.positions) ? raw.layout.positions : undefined;
+    return {
+      format: WORKFLOW_DOCUMENT_FORMAT,
+      version: 1,
+      workflow,
+      ...(positions && { layout: { positions } }),
+    };
+  },
+});
+
+/**
+ * Documents without the format marker are treated as version 0
+ */
+export const getWorkflowDocumentVersion = (raw: RawWorkflowData): number => {
+  if (raw.format !== WORKFLOW_DOCUMENT_FORMAT) return 0;
+  if (!Number.isInteger(raw.version) || raw.version < 1) {
+    throw new WorkflowImportError('json', `Invalid document version: ${JSON.stringify(raw.version)}`);
+  }
+  return raw.version;
+};
+
+export interface WorkflowDocumentMigrationResult {
+  document: RawWorkflowData;
+  fromVersion: number;
+  applied: WorkflowDocumentMigration[];
+}
+
+export const migrateWorkflowDocument = (raw: RawWorkflowData): WorkflowDocumentMigrationResult => {
+  const fromVersion = getWorkflowDocumentVersion(raw);
+  if (fromVersion > CURRENT_WORKFLOW_DOCUMENT_VERSION) {
+    throw new WorkflowImportError(
+      'json',
+      `Document version ${fromVersion} is newer than this app supports (${CURRENT_WORKFLOW_DOCUMENT_VERSION})`
+    );
+  }
+
+  let document = raw;
+  const applied: WorkflowDocumentMigration[] = [];
+  for (let version = fromVersion; version < CURRENT_WORKFLOW_DOCUMENT_VERSION; version++) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new WorkflowImportError('json', `No migration registered from document version ${version}`);
+    }
+    document = migration.migrate(document);
+    applied.push(migration);
+  }
+  return { document, fromVersion, applied };
+};
+
+/**
+ * ============= LOADING & SAVING =============
+ */
+
+export interface LoadedWorkflowDocument {
+  document: WorkflowDocument;
+  workflow: WorkflowData;
+  fromVersion: number;
+  applied: WorkflowDocumentMigration[];
+}
+
+export const documentToWorkflow = (document: WorkflowDocument): WorkflowData => ({
+  ...document.workflow,
+  description: document.workflow.description ?? '',
+  ...(document.layout && { layout: { ...document.layout, positions: document.layout.positions ?? {} } }),
+  ...(document.editor && { editor: document.editor }),
+});
+
+/**
+ * Parses, migrates and schema-validates a document (text or already-parsed JSON)
+ */
+export const loadWorkflowDocument = (input: string | unknown): LoadedWorkflowDocument => {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      throw new WorkflowImportError('json', `Malformed JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (!isObject(raw)) {
+    throw new WorkflowImportError('json', 'A workflow document must be a JSON object');
+  }
+
+  const { document, fromVersion, applied } = migrateWorkflowDocument(raw);
+  // Round-trip through JSON so migrated documents drop undefined fields like saved files do
+  const normalized: unknown = JSON.parse(JSON.stringify(document));
+
+  const errors = validateJsonSchema(normalized, workflowDocumentSchema as JsonSchema);
+  if (errors.length > 0) {
+    const listed = errors.slice(0, 5).map(error => `${error.path || '/'} ${error.message}`).join('; ');
+    throw new WorkflowImportError(
+      'json',
+      `Invalid workflow document: ${listed}${errors.length > 5 ? ` (and ${errors.length - 5} more)` : ''}`
+    );
+  }
+
+  const valid = normalized as WorkflowDocument;
+  return { document: valid, workflow: documentToWorkflow(valid), fromVersion, applied };
+};
+
+export const createWorkflowDocument = (workflow: WorkflowData, positions?: NodePositions): WorkflowDocument => {
+  const { layout, editor, ...graph } = workflow;
+  const layoutPositions = positions ?? layout?.positions;
+  return {
+    $schema: WORKFLOW_DOCUMENT_SCHEMA_ID,
+    format: WORKFLOW_DOCUMENT_FORMAT,
+    version: CURRENT_WORKFLOW_DOCUMENT_VERSION,
+    workflow: graph,
+    ...((layoutPositions || layout?.config) && {
+      layout: {
+        positions: layoutPositions ?? {},
+        ...(layout?.config && { config: layout.config }),
+        // Routes only fit the positions they were computed for
+        ...(layout?.edgeRoutes && !positions && { edgeRoutes: layout.edgeRoutes }),
+      },
+    }),
+    ...(editor && { editor }),
+  };
+};
+
+export const workflowDocumentImporter: WorkflowImporter = {
+  format: 'json',
+  label: 'Workflow document',
+  extensions: ['json'],
+  detect: text =>
+    text.includes(`"${WORKFLOW_DOCUMENT_FORMAT}"`) ||
+    (/^\s*\{/.test(text) && /"nodes"\s*:/.test(text) && /"edges"\s*:/.test(text)),
+  parse: text => {
+    const { workflow, fromVersion, applied } = loadWorkflowDocument(text);
+    return {
+      workflow,
+      warnings: applied.length > 0
+        ? [{
+          code: 'MIGRATED',
+          message: `Document was upgraded from version ${fromVersion} to ${CURRENT_WORKFLOW_DOCUMENT_VERSION}`,
+        }]
+        : [],
+    };
+  },
+};
+
+export const workflowDocumentExporter: WorkflowExporter = {
+  format: 'json',
+  label: 'Workflow document',
+  extension: 'json',
+  mimeType: 'application/json',
+  serialize: (workflow, positions) => `${JSON.stringify(createWorkflowDocument(workflow, positions), null, 2)}\n`,
+};
@@ -0,0 +1,40 @@
+import { WorkflowImportError } from './importError';
+
+/**
+ * ============= XML HELPERS =============
+ * Namespace-agnostic lookups, so "bpmn:task", "bpmn2:task" and "task" are treated alike
+ */
+
+export const parseXml = (text: string, format: string): Document => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = document.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    throw new WorkflowImportError(format, `Malformed XML: ${parserError.textContent?.trim() || 'unknown error'}`);
+  }
+  return document;
+};
+
+export const childElements = (parent: Element, localName?: string): Element[] =>
+  Array.from(parent.children).filter(child => !localName || child.localName === localName);
+
+export const descendants = (parent: Element | Document, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+export const firstChild = (parent: Element, localName: string): Element | undefined =>
+  childElements(parent, localName)[0];
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * XML ids (NCNames) can't start with a digit or contain spaces - editor ids often do
+ */
+export const toXmlId = (id: string) => {
+  const cleaned = id.replace(/[^\w.-]/g, '_');
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `id_${cleaned}`;
+};
@@ -0,0 +1,88 @@
+import { EventMetadata, StatusMetadata, WorkflowData } from '../../../models/singleView/nodeTypes';
+import { WorkflowExporter } from '../../../models/singleView/importExport';
+import { MachineState, MachineTransition, workflowToMachine } from './stateMachineModel';
+
+/**
+ * ============= XSTATE EXPORT =============
+ * Produces an XState (v5) machine config: statuses are states, events are `on`
+ * transitions with the event's condition as `guard`, and direct status-to-status
+ * links are `always` transitions. Labels and metadata go into `meta`
+ */
+
+export interface XStateTransitionConfig {
+  target?: string;
+  guard?: string;
+  meta?: { eventNodeId?: string; label?: string; metadata?: EventMetadata };
+}
+
+export interface XStateStateConfig {
+  type?: 'final';
+  meta?: { label: string; kind?: 'event'; metadata?: EventMetadata | StatusMetadata };
+  on?: Record<string, XStateTransitionConfig | XStateTransitionConfig[]>;
+  always?: XStateTransitionConfig[];
+}
+
+export interface XStateMachineConfig {
+  id: string;
+  description?: string;
+  initial?: string;
+  meta?: { name: string };
+  states: Record<string, XStateStateConfig>;
+}
+
+const toTransitionConfig = (transition: MachineTransition): XStateTransitionConfig => ({
+  ...(transition.target && { target: transition.target }),
+  ...(transition.cond && { guard: transition.cond }),
+  ...(transition.event && {
+    meta: {
+      eventNodeId: transition.eventNodeId,
+      label: transition.label,
+      ...(transition.metadata && { metadata: transition.metadata }),
+    },
+  }),
+});
+
+const toStateConfig = (state: MachineState): XStateStateConfig => {
+  const on: Record<string, XStateTransitionConfig[]> = {};
+  const always: XStateTransitionConfig[] = [];
+
+  state.transitions.forEach(transition => {
+    if (transition.event) {
+      on[transition.event] = [...(on[transition.event] || []), toTransitionConfig(transition)];
+    } else {
+      always.push(toTransitionConfig(transition));
+    }
+  });
+
+  return {
+    ...(state.final && { type: 'final' as const }),
+    meta: {
+      label: state.label,
+      ...(state.kind === 'event' && { kind: 'event' as const }),
+      ...(state.metadata && { metadata: state.metadata }),
+    },
+    ...(Object.keys(on).length > 0 && {
+      on: Object.fromEntries(Object.entries(on).map(([event, configs]) => [event, configs.length === 1 ? configs[0] : configs])),
+    }),
+    ...(always.length > 0 && { always }),
+  };
+};
+
+export const workflowToXState = (workflow: WorkflowData): XStateMachineConfig => {
+  const machine = workflowToMachine(workflow);
+  return {
+    id: machine.id,
+    ...(machine.description && { description: machine.description }),
+    initial: machine.initial,
+    meta: { name: machine.name },
+    states: Object.fromEntries(machine.states.map(state => [state.id, toStateConfig(state)])),
+  };
+};
+
+export const xstateExporter: WorkflowExporter = {
+  format: 'xstate',
+  label: 'XState machine',
+  extension: 'json',
+  mimeType: 'application/json',
+  serialize: workflow => `${JSON.stringify(workflowToXState(workflow), null, 2)}\n`,
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { mockWorkflows, validateWorkflowData } from '../workflowDataUtils';
+import { exportWorkflow, importWorkflow } from './index';
+import { parseXState } from './xstateImporter';
+import { workflowToXState } from './xstateExporter';
+import { conditionalWorkflow, describeDiagnostics, describeEdges, describeNodes } from './formatTestUtils';
+
+describe('XState round trip', () => {
+  it.each([
+    ['ebm-version', mockWorkflows['ebm-version']],
+    ['mortgage-origination', mockWorkflows['mortgage-origination']],
+    ['conditional', conditionalWorkflow],
+  ])('keeps the %s workflow', (_, workflow) => {
+    const { content } = exportWorkflow(workflow, 'xstate');
+    const imported = importWorkflow(content, { format: 'xstate' });
+
+    expect(imported.workflow.id).toBe(workflow.id);
+    expect(imported.workflow.name).toBe(workflow.name);
+    expect(describeNodes(imported.workflow)).toEqual(describeNodes(workflow));
+    expect(describeEdges(imported.workflow)).toEqual(describeEdges(workflow));
+    // Problems in the workflow itself survive the trip, and the trip adds none
+    expect(describeDiagnostics(imported.diagnostics)).toEqual(describeDiagnostics(validateWorkflowData(workflow).diagnostics));
+  });
+
+  it('writes event conditions as guards', () => {
+    const { on } = workflowToXState(conditionalWorkflow).states.submitted;
+
+    expect(on?.approve).toMatchObject({ target: 'approved', guard: 'amount <= 1000' });
+    expect(on?.escalate).toMatchObject({ target: 'review', guard: 'amount > 1000' });
+  });
+});
+
+describe('parseXState', () => {
+  it('names nested states by their path so repeated keys stay apart', () => {
+    const { workflow } = parseXState(JSON.stringify({
+      id: 'machine',
+      initial: 'draft',
+      states: {
+        draft: { initial: 'idle', states: { idle: { on: { EDIT: 'busy' } }, busy: { on: { SUBMIT: '#machine.review' } } } },
+        review: { initial: 'idle', states: { idle: { on: { APPROVE: 'busy' } }, busy: { type: 'final' } } },
+      },
+    }));
+
+    const statuses = workflow.nodes.filter(node => node.type === 'status');
+    expect(statuses.map(node => node.id)).toEqual(['draft.idle', 'draft.busy', 'review.idle', 'review.busy']);
+    expect(statuses.map(node => node.label)).toEqual(['idle', 'busy', 'idle', 'busy']);
+    expect(describeEdges(workflow)).toEqual([
+      'APPROVE -> review.busy',
+      'EDIT -> draft.busy',
+      'SUBMIT -> review.idle',
+      'draft.busy -> SUBMIT',
+      'draft.idle -> EDIT',
+      'review.idle -> APPROVE',
+    ]);
+  });
+
+  it('reads v4 conditions as the event condition', () => {
+    const { workflow } = parseXState(JSON.stringify({
+      id: 'machine',
+      initial: 'open',
+      states: { open: { on: { CLOSE: { target: 'closed', cond: 'isPaid' } } }, closed: { type: 'final' } },
+    }));
+
+    expect(workflow.nodes.find(node => node.type === 'event')?.metadata).toMatchObject({ condition: 'isPaid' });
+  });
+});
@@ -0,0 +1,180 @@
+import { ImportResult, ImportWarning, WorkflowImporter } from '../../../models/singleView/importExport';
+import { EventMetadata } from '../../../models/singleView/nodeTypes';
+import { normalizeNodeMetadata } from '../nodeMetadata';
+import { WorkflowImportError } from './importError';
+import { MachineState, MachineTransition, machineToWorkflow } from './stateMachineModel';
+
+/**
+ * ============= XSTATE IMPORT =============
+ * Reads XState machine configs (v4 and v5 spellings): leaf states become statuses,
+ * `on` transitions become event nodes and `always` transitions direct edges.
+ * Nested states are flattened; parent transitions are inherited by their children,
+ * and nested states are identified by their path (`parent.child`) so keys may repeat
+ */
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+
+const toArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+// v5 uses `guard`, v4 `cond`; both may be a name or an object with a type
+const guardOf = (config: JsonObject) => {
+  const guard = config.guard ?? config.cond;
+  return asString(guard) ?? (isObject(guard) ? asString(guard.type) : undefined);
+};
+
+interface FlatState {
+  id: string;          // The key, qualified by the parent path when nested
+  key: string;
+  config: JsonObject;
+  path: string[];      // Keys from the root, this state included
+  parents: FlatState[];
+}
+
+const parseConfig = (text: string): JsonObject => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new WorkflowImportError('xstate', `Malformed JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  // Accept both a bare config and { machine: config } wrappers
+  const config = isObject(parsed) && isObject(parsed.machine) ? parsed.machine : parsed;
+  if (!isObject(config) || !isObject(config.states)) {
+    throw new WorkflowImportError('xstate', 'Not an XState machine config: no "states" object found');
+  }
+  return config;
+};
+
+export const parseXState = (text: string): ImportResult => {
+  const config = parseConfig(text);
+  const warnings: ImportWarning[] = [];
+
+  const flatStates: FlatState[] = [];
+  const collect = (states: JsonObject, parents: FlatState[]) => {
+    Object.entries(states).forEach(([key, value]) => {
+      const stateConfig = isObject(value) ? value : {};
+      const parent = parents[parents.length - 1];
+      const path = [...(parent?.path ?? []), key];
+      const state: FlatState = { id: path.join('.'), key, config: stateConfig, path, parents };
+      flatStates.push(state);
+      if (isObject(stateConfig.states)) {
+        collect(stateConfig.states, [...parents, state]);
+      }
+    });
+  };
+  collect(config.states as JsonObject, []);
+
+  const isLeaf = (state: FlatState) => !isObject(state.config.states);
+  const byPath = new Map(flatStates.map(state => [state.path.join('.'), state]));
+  const byId = new Map<string, FlatState>();
+  flatStates.forEach(state => {
+    const customId = asString(state.config.id);
+    if (customId) byId.set(customId, state);
+    if (!byId.has(state.key)) byId.set(state.key, state);
+  });
+
+  // Compound targets enter their initial child
+  const enter = (state: FlatState): FlatState => {
+    if (isLeaf(state)) return state;
+    const children = state.config.states as JsonObject;
+    const initial = asString(state.config.initial) ?? Object.keys(children)[0];
+    const child = byPath.get([...state.path, initial].join('.'));
+    return child ? enter(child) : state;
+  };
+
+  // "#id", "#machine.a.b", ".child" and sibling keys
+  const resolveTarget = (target: string, source: FlatState): string => {
+    let resolved: FlatState | undefined;
+    if (target.startsWith('#')) {
+      const [head, ...rest] = target.slice(1).split('.');
+      const base = head === config.id ? undefined : byId.get(head);
+      resolved = byPath.get([...(base?.path ?? []), ...rest].join('.')) ?? base;
+    } else if (target.startsWith('.')) {
+      resolved = byPath.get([...source.path, ...target.slice(1).split('.')].join('.'));
+    } else {
+      resolved = byPath.get([...source.path.slice(0, -1), ...target.split('.')].join('.')) ?? byId.get(target);
+    }
+    return resolved ? enter(resolved).id : target;
+  };
+
+  const readTransitions = (state: FlatState, event: string | undefined, value: unknown): MachineTransition[] =>
+    toArray(value).flatMap(entry => {
+      const transition = typeof entry === 'string' ? { target: entry } : isObject(entry) ? entry : undefined;
+      if (!transition) return [];
+      const meta = isObject(transition.meta) ? transition.meta : {};
+      const metadata = isObject(meta.metadata) ? normalizeNodeMetadata('event', meta.metadata) as EventMetadata : undefined;
+      const base: MachineTransition = {
+        event,
+        cond: guardOf(transition),
+        eventNodeId: asString(meta.eventNodeId),
+        label: asString(meta.label),
+        metadata,
+      };
+      const targets = toArray(transition.target).map(asString).filter((target): target is string => !!target);
+      if (!event && targets.length === 0) return [];
+      return targets.length > 0 ? targets.map(target => ({ ...base, target: resolveTarget(target, state) })) : [base];
+    });
+
+  const transitionsOf = (state: FlatState): MachineTransition[] => {
+    const { config: stateConfig } = state;
+    const on = isObject(stateConfig.on) ? stateConfig.on : {};
+    return [
+      ...Object.entries(on).flatMap(([event, value]) => readTransitions(state, event, value)),
+      ...readTransitions(state, undefined, stateConfig.always),
+    ];
+  };
+
+  flatStates.filter(state => !isLeaf(state)).forEach(state => warnings.push({
+    code: 'COLLAPSED_ELEMENT',
+    message: `Nested state "${state.path.join('.')}" was flattened into its child states`,
+    elementId: state.id,
+    elementType: 'state',
+  }));
+
+  flatStates.filter(state => state.config.type === 'parallel' || state.config.invoke).forEach(state => warnings.push({
+    code: 'UNSUPPORTED_ELEMENT',
+    message: `State "${state.path.join('.')}" uses ${state.config.invoke ? 'invoke' : 'parallel regions'}, which workflows can't express`,
+    elementId: state.id,
+    elementType: 'state',
+  }));
+
+  const states = flatStates.filter(isLeaf).map((state): MachineState => {
+    const meta = isObject(state.config.meta) ? state.config.meta : {};
+    const kind = meta.kind === 'event' ? 'event' : 'status';
+    return {
+      id: state.id,
+      label: asString(meta.label) ?? state.key,
+      kind,
+      final: state.config.type === 'final',
+      metadata: isObject(meta.metadata) ? normalizeNodeMetadata(kind, meta.metadata) : undefined,
+      transitions: [state, ...[...state.parents].reverse()].flatMap(transitionsOf),
+    };
+  });
+
+  const meta = isObject(config.meta) ? config.meta : {};
+  const workflow = machineToWorkflow(
+    {
+      id: asString(config.id) ?? 'xstate-workflow',
+      name: asString(meta.name) ?? asString(config.id) ?? 'Imported XState machine',
+      description: asString(config.description) ?? '',
+      states,
+    },
+    warnings,
+    kind => kind
+  );
+
+  return { workflow, warnings };
+};
+
+export const xstateImporter: WorkflowImporter = {
+  format: 'xstate',
+  label: 'XState machine',
+  extensions: ['json'],
+  detect: text => /^\s*\{/.test(text) && /"states"\s*:/.test(text),
+  parse: parseXState,
+};
@@ -0,0 +1,122 @@
+import { LayoutConfig, WorkflowNode } from '../../models/singleView/nodeTypes';
+import { NodeSize, estimateNodeSize } from './nodeSizing';
+
+/**
+ * ============= INCREMENTAL PLACEMENT =============
+ * Places one new node among nodes the user has already arranged. The node goes to the free
+ * spot closest to where it belongs; only when there is none are the nodes in its way pushed
+ * aside across the flow (and the nodes those hit, in turn). Everything else stays put
+ */
+
+type Point = { x: number; y: number };
+
+export interface PlacedBox {
+  id: string;
+  position: Point;  // Top-left corner
+  size: NodeSize;
+}
+
+// Free space kept around every node
+const CLEARANCE = 24;
+// Spots tried on each side of the preferred one before making room
+const MAX_SEARCH_STEPS = 4;
+
+const overlaps = (a: Pick<PlacedBox, 'position' | 'size'>, b: Pick<PlacedBox, 'position' | 'size'>) =>
+  a.position.x < b.position.x + b.size.width + CLEARANCE &&
+  b.position.x < a.position.x + a.size.width + CLEARANCE &&
+  a.position.y < b.position.y + b.size.height + CLEARANCE &&
+  b.position.y < a.position.y + a.size.height + CLEARANCE;
+
+/**
+ * Canvas nodes as boxes, by measured size where React Flow has one
+ */
+export const getPlacedBoxes = (
+  nodes: Array<{
+    id: string;
+    type?: string;
+    position: Point;
+    measured?: { width?: number; height?: number };
+    data: Record<string, unknown>;
+  }>,
+  config: LayoutConfig
+): PlacedBox[] => nodes.map(node => ({
+  id: node.id,
+  position: node.position,
+  size: node.measured?.width && node.measured?.height
+    ? { width: node.measured.width, height: node.measured.height }
+    : estimateNodeSize({ type: node.type as WorkflowNode['type'], label: String(node.data?.label ?? '') }, config),
+}));
+
+/**
+ * Top-left corner for a node of `size` one layer after `source` (`spacing` further along the
+ * flow, centres aligned)
+ */
+export const getNextLayerPosition = (source: PlacedBox, size: NodeSize, config: LayoutConfig): Point => {
+  const centre = {
+    x: source.position.x + source.size.width / 2 + (config.isHorizontal ? config.spacing : 0),
+    y: source.position.y + source.size.height / 2 + (config.isHorizontal ? 0 : config.spacing),
+  };
+  return { x: centre.x - size.width / 2, y: centre.y - size.height / 2 };
+};
+
+/**
+ * The preferred spot if it's free, else the closest free one across the flow (after it first,
+ * then before it); null when none of the nearby spots is free
+ */
+export const findFreePosition = (boxes: PlacedBox[], size: NodeSize, preferred: Point, config: LayoutConfig) => {
+  const step = (config.isHorizontal ? size.height : size.width) + CLEARANCE;
+  for (let index = 0; index <= 2 * MAX_SEARCH_STEPS; index++) {
+    const offset = Math.ceil(index / 2) * step * (index % 2 === 1 ? 1 : -1);
+    const position = config.isHorizontal
+      ? { x: preferred.x, y: preferred.y + offset }
+      : { x: preferred.x + offset, y: preferred.y };
+    if (!boxes.some(box => overlaps(box, { position, size }))) {
+      return position;
+    }
+  }
+  return null;
+};
+
+/**
+ * Pushes the boxes overlapping `placed` out of its way across the flow. A pushed box pushes
+ * whatever it then overlaps the same way; boxes only ever move away from `placed`. Returns the
+ * new positions of the boxes that moved
+ */
+export const makeRoom = (boxes: PlacedBox[], placed: PlacedBox, config: LayoutConfig) => {
+  const axis = config.isHorizontal ? 'y' : 'x';
+  const extent = config.isHorizontal ? 'height' : 'width';
+  const remaining = boxes.filter(box => box.id !== placed.id).map(box => ({ ...box, position: { ...box.position } }));
+  const sides = new Map<string, 1 | -1>();
+
+  const queue: PlacedBox[] = [placed];
+  while (queue.length > 0) {
+    const blocker = queue.shift()!;
+    remaining.forEach(box => {
+      if (box === blocker || !overlaps(box, blocker)) return;
+      // The way the blocker was pushed, or away from its centre
+      const side = sides.get(blocker.id) ?? (
+        box.position[axis] + box.size[extent] / 2 >= blocker.position[axis] + blocker.size[extent] / 2 ? 1 : -1
+      );
+      if ((sides.get(box.id) ?? side) !== side) return;
+      const target = side === 1
+        ? blocker.position[axis] + blocker.size[extent] + CLEARANCE
+        : blocker.position[axis] - box.size[extent] - CLEARANCE;
+      if ((target - box.position[axis]) * side <= 0) return;
+      box.position[axis] = target;
+      sides.set(box.id, side);
+      queue.push(box);
+    });
+  }
+  return new Map(remaining.filter(box => sides.has(box.id)).map(box => [box.id, box.position]));
+};
+
+/**
+ * Where a new node of `size` goes, and which existing nodes had to move for it
+ */
+export const placeNewNode = (boxes: PlacedBox[], size: NodeSize, preferred: Point, config: LayoutConfig) => {
+  const free = findFreePosition(boxes, size, preferred, config);
+  if (free) {
+    return { position: free, moved: new Map<string, Point>() };
+  }
+  return { position: preferred, moved: makeRoom(boxes, { id: '', position: preferred, size }, config) };
+};
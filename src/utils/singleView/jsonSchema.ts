@@ -0,0 +1,113 @@
+/**
+ * ============= JSON SCHEMA VALIDATION =============
+ * A small validator for the draft-07 keywords our schemas use: type, const, enum,
+ * required, properties, additionalProperties, items, minLength, minimum and local
+ * $refs ("#/definitions/..."). Unknown keywords are ignored
+ */
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minLength?: number;
+  minimum?: number;
+  definitions?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchemaError {
+  path: string;     // JSON pointer to the offending value, "" for the root
+  message: string;
+}
+
+const typeOf = (value: unknown): JsonSchemaType =>
+  value === null ? 'null'
+    : Array.isArray(value) ? 'array'
+      : typeof value === 'number' ? (Number.isInteger(value) ? 'integer' : 'number')
+        : typeof value as JsonSchemaType;
+
+const matchesType = (value: unknown, type: JsonSchemaType) =>
+  type === typeOf(value) || (type === 'number' && typeOf(value) === 'integer');
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeOf(value) === 'object';
+
+const resolveRef = (ref: string, root: JsonSchema): JsonSchema => {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Only local schema references are supported: ${ref}`);
+  }
+  const target = ref.slice(2).split('/').reduce<unknown>(
+    (node, key) => (isPlainObject(node) ? node[key.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined),
+    root
+  );
+  if (!isPlainObject(target)) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return target as JsonSchema;
+};
+
+/**
+ * Collects every violation instead of stopping at the first one
+ */
+export const validateJsonSchema = (
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  path = ''
+): JsonSchemaError[] => {
+  if (schema.$ref) {
+    return validateJsonSchema(value, resolveRef(schema.$ref, root), root, path);
+  }
+
+  const errors: JsonSchemaError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`must be ${types.join(' or ')}, found ${typeOf(value)}`);
+      return errors;
+    }
+  }
+  if ('const' in schema && value !== schema.const) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    fail(`must be at least ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, root, `${path}/${index}`)));
+  }
+
+  if (isPlainObject(value)) {
+    schema.required?.forEach(key => {
+      if (!(key in value)) errors.push({ path, message: `is missing required property "${key}"` });
+    });
+    Object.entries(value).forEach(([key, child]) => {
+      const childPath = `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(child, propertySchema, root, childPath));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath, message: 'is not an allowed property' });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties as JsonSchema, root, childPath));
+      }
+    });
+  }
+
+  return errors;
+};
@@ -0,0 +1,389 @@
+import { WorkflowData, LayoutConfig } from '../../models/singleView/nodeTypes';
+import { NodeSizes, getCrossExtent, getNodeFootprint, getNodeGap, placeLayers, resolveNodeSizes } from './nodeSizing';
+
+/**
+ * ============= LAYERED (SUGIYAMA) LAYOUT =============
+ * 1. Cycle breaking - edges that close a cycle in a depth-first search are reversed
+ * 2. Layering - longest path from the sources, sources pulled next to their successors
+ * 3. Normalisation - an edge spanning several layers gets a dummy node in each layer it crosses
+ * 4. Ordering - alternating down/up sweeps sort every layer by the weighted median of its
+ *    neighbours in the layer before, then adjacent swaps; the order with fewest crossings wins
+ * 5. Coordinates - layers follow the flow direction; inside a layer each node sits as close to
+ *    its neighbours as it can without overlapping the nodes next to it, by their real sizes
+ */
+
+const MAX_ORDERING_SWEEPS = 24;
+const SWEEPS_WITHOUT_IMPROVEMENT = 4;
+const MAX_TRANSPOSE_ROUNDS = 8;
+// Swapping is quadratic in the neighbour counts; large graphs make do with the sweeps
+const TRANSPOSE_NODE_LIMIT = 1500;
+const COORDINATE_PASSES = 8;
+
+const DUMMY_PREFIX = '\u0000dummy:';
+const isDummy = (id: string) => id.startsWith(DUMMY_PREFIX);
+
+/**
+ * Back edges: a feedback arc set found by depth-first search from the sources
+ * An edge is a back edge when it leads to a node still on the search stack, i.e. it closes a
+ * cycle such as a rework loop. Removing (or reversing) them leaves the graph acyclic, which is
+ * what the layout needs and what the canvas draws as backward flow. Self-loops count too
+ */
+export const findBackEdges = (workflowData: WorkflowData) => {
+  const outgoing = new Map(workflowData.nodes.map(node => [node.id, [] as WorkflowData['edges']]));
+  const hasIncoming = new Set<string>();
+  const backEdges = new Set<string>();
+  workflowData.edges.forEach(edge => {
+    if (!outgoing.has(edge.source) || !outgoing.has(edge.target)) return;
+    if (edge.source === edge.target) {
+      backEdges.add(edge.id);
+      return;
+    }
+    outgoing.get(edge.source)!.push(edge);
+    hasIncoming.add(edge.target);
+  });
+
+  const state = new Map<string, 'active' | 'done'>();
+
+  // Iterative, so long chains don't overflow the call stack
+  const visit = (startId: string) => {
+    if (state.has(startId)) return;
+    const stack = [{ id: startId, next: 0 }];
+    state.set(startId, 'active');
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const edges = outgoing.get(frame.id)!;
+      if (frame.next < edges.length) {
+        const edge = edges[frame.next++];
+        const targetState = state.get(edge.target);
+        if (targetState === 'active') {
+          backEdges.add(edge.id);
+        } else if (!targetState) {
+          state.set(edge.target, 'active');
+          stack.push({ id: edge.target, next: 0 });
+        }
+      } else {
+        state.set(frame.id, 'done');
+        stack.pop();
+      }
+    }
+  };
+
+  // Sources first so the main flow keeps its direction; then whatever is left (pure cycles)
+  workflowData.nodes.filter(node => !hasIncoming.has(node.id)).forEach(node => visit(node.id));
+  workflowData.nodes.forEach(node => visit(node.id));
+
+  return backEdges;
+};
+
+/**
+ * Links of the acyclic graph: back edges reversed, self-loops, duplicates and edges to unknown
+ * nodes dropped
+ */
+const getAcyclicLinks = (workflowData: WorkflowData, backEdges: Set<string>) => {
+  const known = new Set(workflowData.nodes.map(node => node.id));
+  const linkKeys = new Set<string>();
+  const links: Array<[string, string]> = [];
+  workflowData.edges.forEach(edge => {
+    if (edge.source === edge.target || !known.has(edge.source) || !known.has(edge.target)) return;
+    const link: [string, string] = backEdges.has(edge.id) ? [edge.target, edge.source] : [edge.source, edge.target];
+    const key = link.join('\u0000');
+    if (linkKeys.has(key)) return;
+    linkKeys.add(key);
+    links.push(link);
+  });
+  return links;
+};
+
+/**
+ * Layer of every node and dummy node, with the neighbours above and below each. `dummyLinks`
+ * holds the link each dummy node belongs to
+ */
+const addDummyNodes = (nodeIds: string[], links: Array<[string, string]>, levels: Map<string, number>) => {
+  const layerOf = new Map(levels);
+  const up = new Map(nodeIds.map(id => [id, [] as string[]]));
+  const down = new Map(nodeIds.map(id => [id, [] as string[]]));
+  const dummyLinks = new Map<string, [string, string]>();
+  links.forEach(([source, target], linkIndex) => {
+    let previous = source;
+    for (let layer = layerOf.get(source)! + 1; layer < layerOf.get(target)!; layer++) {
+      const dummy = `${DUMMY_PREFIX}${linkIndex}:${layer}`;
+      layerOf.set(dummy, layer);
+      up.set(dummy, [previous]);
+      down.set(dummy, []);
+      down.get(previous)!.push(dummy);
+      dummyLinks.set(dummy, [source, target]);
+      previous = dummy;
+    }
+    down.get(previous)!.push(target);
+    up.get(target)!.push(previous);
+  });
+  return { layerOf, up, down, dummyLinks };
+};
+
+/**
+ * Longest-path layering of the acyclic graph
+ */
+const assignLayers = (nodeIds: string[], links: Array<[string, string]>) => {
+  const successors = new Map(nodeIds.map(id => [id, [] as string[]]));
+  const predecessors = new Map(nodeIds.map(id => [id, [] as string[]]));
+  links.forEach(([source, target]) => {
+    successors.get(source)!.push(target);
+    predecessors.get(target)!.push(source);
+  });
+
+  // Kahn's algorithm gives a topological order
+  const remaining = new Map(nodeIds.map(id => [id, predecessors.get(id)!.length]));
+  const order = nodeIds.filter(id => remaining.get(id) === 0);
+  for (let index = 0; index < order.length; index++) {
+    successors.get(order[index])!.forEach(next => {
+      remaining.set(next, remaining.get(next)! - 1);
+      if (remaining.get(next) === 0) order.push(next);
+    });
+  }
+
+  const layers = new Map<string, number>();
+  order.forEach(id => {
+    const above = predecessors.get(id)!.map(previous => layers.get(previous)! + 1);
+    layers.set(id, Math.max(0, ...above));
+  });
+
+  // A source feeding a node far down would otherwise get a long edge from layer 0
+  order.forEach(id => {
+    const below = successors.get(id)!;
+    if (predecessors.get(id)!.length === 0 && below.length > 0) {
+      layers.set(id, Math.min(...below.map(next => layers.get(next)!)) - 1);
+    }
+  });
+
+  return layers;
+};
+
+const weightedMedian = (sorted: number[]) => {
+  const middle = Math.floor(sorted.length / 2);
+  if (sorted.length % 2 === 1) return sorted[middle];
+  if (sorted.length === 2) return (sorted[0] + sorted[1]) / 2;
+  const left = sorted[middle - 1] - sorted[0];
+  const right = sorted[sorted.length - 1] - sorted[middle];
+  return left + right === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : (sorted[middle - 1] * right + sorted[middle] * left) / (left + right);
+};
+
+/**
+ * Crossings between two adjacent layers, counted as inversions with a Fenwick tree
+ */
+const countLayerCrossings = (upper: string[], lower: string[], down: Map<string, string[]>) => {
+  const lowerIndex = new Map(lower.map((id, index) => [id, index]));
+  const targets = upper.flatMap(id => down.get(id)!.map(target => lowerIndex.get(target)!).sort((a, b) => a - b));
+  const tree = new Array(lower.length + 1).fill(0);
+  let crossings = 0;
+  targets.forEach((target, seen) => {
+    let notAfter = 0;
+    for (let i = target + 1; i > 0; i -= i & -i) notAfter += tree[i];
+    crossings += seen - notAfter;
+    for (let i = target + 1; i <= lower.length; i += i & -i) tree[i]++;
+  });
+  return crossings;
+};
+
+const countCrossings = (layers: string[][], down: Map<string, string[]>) =>
+  layers.slice(1).reduce((total, lower, index) => total + countLayerCrossings(layers[index], lower, down), 0);
+
+/**
+ * Sorts a layer by the median position of each node's neighbours in the fixed layer
+ * Nodes without neighbours there keep their place
+ */
+const sortByMedian = (layer: string[], fixed: string[], neighbours: Map<string, string[]>) => {
+  const fixedIndex = new Map(fixed.map((id, index) => [id, index]));
+  const medians = new Map<string, number>();
+  layer.forEach(id => {
+    const positions = neighbours.get(id)!.map(other => fixedIndex.get(other)!).sort((a, b) => a - b);
+    if (positions.length > 0) medians.set(id, weightedMedian(positions));
+  });
+  const movable = layer.filter(id => medians.has(id)).sort((a, b) => medians.get(a)! - medians.get(b)!);
+  let next = 0;
+  return layer.map(id => (medians.has(id) ? movable[next++] : id));
+};
+
+/**
+ * Swaps neighbours within a layer while that removes crossings with the layers around it
+ */
+const transpose = (layers: string[][], up: Map<string, string[]>, down: Map<string, string[]>) => {
+  const indexOf = (layer?: string[]) => new Map((layer ?? []).map((id, position) => [id, position]));
+  const pairCrossings = (first: string, second: string, neighbours: Map<string, string[]>, index: Map<string, number>) => {
+    let crossings = 0;
+    neighbours.get(first)!.forEach(a => neighbours.get(second)!.forEach(b => {
+      if (index.get(a)! > index.get(b)!) crossings++;
+    }));
+    return crossings;
+  };
+
+  for (let round = 0, improved = true; improved && round < MAX_TRANSPOSE_ROUNDS; round++) {
+    improved = false;
+    layers.forEach((layer, layerIndex) => {
+      const upperIndex = indexOf(layers[layerIndex - 1]);
+      const lowerIndex = indexOf(layers[layerIndex + 1]);
+      const cost = (first: string, second: string) =>
+        pairCrossings(first, second, up, upperIndex) + pairCrossings(first, second, down, lowerIndex);
+      for (let i = 0; i < layer.length - 1; i++) {
+        if (cost(layer[i + 1], layer[i]) < cost(layer[i], layer[i + 1])) {
+          [layer[i], layer[i + 1]] = [layer[i + 1], layer[i]];
+          improved = true;
+        }
+      }
+    });
+  }
+};
+
+const orderLayers = (initial: string[][], up: Map<string, string[]>, down: Map<string, string[]>) => {
+  let layers = initial.map(layer => [...layer]);
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countCrossings(layers, down);
+  const useTranspose = up.size <= TRANSPOSE_NODE_LIMIT;
+
+  for (let sweep = 0, stale = 0; sweep < MAX_ORDERING_SWEEPS && bestCrossings > 0 && stale < SWEEPS_WITHOUT_IMPROVEMENT; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let index = 1; index < layers.length; index++) {
+        layers[index] = sortByMedian(layers[index], layers[index - 1], up);
+      }
+    } else {
+      for (let index = layers.length - 2; index >= 0; index--) {
+        layers[index] = sortByMedian(layers[index], layers[index + 1], down);
+      }
+    }
+    if (useTranspose) transpose(layers, up, down);
+
+    const crossings = countCrossings(layers, down);
+    if (crossings < bestCrossings) {
+      best = layers.map(layer => [...layer]);
+      bestCrossings = crossings;
+      stale = 0;
+    } else {
+      stale++;
+      layers = best.map(layer => [...layer]);
+    }
+  }
+
+  return { layers: best, crossings: bestCrossings };
+};
+
+/**
+ * Positions closest to `desired` (least squares) that keep the order and the minimum gaps
+ * Pool-adjacent-violators on the gap-adjusted targets
+ */
+const placeInOrder = (desired: number[], gaps: number[]) => {
+  const offsets = [0];
+  gaps.forEach((gap, index) => offsets.push(offsets[index] + gap));
+
+  const blocks: Array<{ sum: number; count: number }> = [];
+  desired.forEach((target, index) => {
+    blocks.push({ sum: target - offsets[index], count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sum / previous.count <= last.sum / last.count) break;
+      previous.sum += last.sum;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  });
+
+  const placed: number[] = [];
+  blocks.forEach(({ sum, count }) => {
+    for (let i = 0; i < count; i++) placed.push(sum / count + offsets[placed.length]);
+  });
+  return placed;
+};
+
+export const calculateLayeredLayout = (workflowData: WorkflowData, config: LayoutConfig, measured?: NodeSizes) => {
+  const sizes = resolveNodeSizes(workflowData, config, measured);
+  const nodeIds = workflowData.nodes.map(node => node.id);
+
+  // Steps 1-2: acyclic links, then layers
+  const backEdges = findBackEdges(workflowData);
+  const links = getAcyclicLinks(workflowData, backEdges);
+  const levels = assignLayers(nodeIds, links);
+
+  // Step 3: dummy nodes, so every link joins adjacent layers
+  const { layerOf, up, down } = addDummyNodes(nodeIds, links, levels);
+
+  const maxLevel = Math.max(0, ...Array.from(layerOf.values()));
+  const initialLayers: string[][] = Array.from({ length: maxLevel + 1 }, () => []);
+  layerOf.forEach((layer, id) => initialLayers[layer].push(id));
+
+  // Step 4: crossing minimisation
+  const { layers, crossings } = orderLayers(initialLayers, up, down);
+
+  // Step 5: coordinates across the flow (centres), starting packed and pulled towards neighbours
+  const nodeGap = getNodeGap(config);
+  const sizeOf = (id: string) => (isDummy(id) ? 0 : getCrossExtent(getNodeFootprint(sizes.get(id)!, config), config));
+  const gapsOf = (layer: string[]) => layer.slice(1).map((id, index) => {
+    const previous = layer[index];
+    const gap = isDummy(id) || isDummy(previous) ? nodeGap / 2 : nodeGap;
+    return (sizeOf(previous) + sizeOf(id)) / 2 + gap;
+  });
+
+  const cross = new Map<string, number>();
+  layers.forEach(layer => {
+    placeInOrder(layer.map(() => 0), gapsOf(layer)).forEach((position, index) => cross.set(layer[index], position));
+  });
+
+  const mean = (ids: string[]) => ids.reduce((sum, id) => sum + cross.get(id)!, 0) / ids.length;
+  for (let pass = 0; pass <= COORDINATE_PASSES; pass++) {
+    const downward = pass % 2 === 0;
+    const finalPass = pass === COORDINATE_PASSES;
+    const order = downward ? layers : [...layers].reverse();
+    order.forEach(layer => {
+      const desired = layer.map(id => {
+        const neighbours = finalPass ? [...up.get(id)!, ...down.get(id)!] : (downward ? up : down).get(id)!;
+        return neighbours.length > 0 ? mean(neighbours) : cross.get(id)!;
+      });
+      placeInOrder(desired, gapsOf(layer)).forEach((position, index) => cross.set(layer[index], position));
+    });
+  }
+
+  const realLayers = layers.map(layer => layer.filter(id => !isDummy(id)));
+  const positions = placeLayers(realLayers, cross, sizes, config);
+
+  const nodesByLevel = new Map<number, string[]>();
+  realLayers.forEach((layer, index) => {
+    if (layer.length > 0) nodesByLevel.set(index, layer);
+  });
+
+  return {
+    positions,
+    levels,
+    nodesByLevel,
+    maxLevel: Math.max(0, ...Array.from(levels.values())),
+    crossings,
+    backEdges,
+    sizes,
+  };
+};
+
+/**
+ * Crossings of a layered layout whose nodes were moved across the flow afterwards (swimlanes
+ * re-stack them). `levels` are the layered layout's, `crossCentres` the nodes' new centres;
+ * links spanning several layers are taken as running straight between their ends
+ */
+export const countLayoutCrossings = (
+  workflowData: WorkflowData,
+  levels: Map<string, number>,
+  crossCentres: Map<string, number>
+) => {
+  const nodeIds = workflowData.nodes.map(node => node.id);
+  const links = getAcyclicLinks(workflowData, findBackEdges(workflowData));
+  const { layerOf, down, dummyLinks } = addDummyNodes(nodeIds, links, levels);
+
+  const centreOf = (id: string) => {
+    const link = dummyLinks.get(id);
+    if (!link) return crossCentres.get(id)!;
+    const [source, target] = link;
+    const progress = (layerOf.get(id)! - levels.get(source)!) / (levels.get(target)! - levels.get(source)!);
+    return crossCentres.get(source)! + (crossCentres.get(target)! - crossCentres.get(source)!) * progress;
+  };
+  const layers: string[][] = Array.from({ length: Math.max(0, ...Array.from(layerOf.values())) + 1 }, () => []);
+  layerOf.forEach((layer, id) => layers[layer].push(id));
+  layers.forEach(layer => layer.sort((a, b) => centreOf(a) - centreOf(b)));
+  return countCrossings(layers, down);
+};
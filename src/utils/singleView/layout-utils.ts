@@ -1,4 +1,7 @@
 import { WorkflowData, LayoutConfig } from '../../models/singleView/nodeTypes';
+import { calculateLayeredLayout, findBackEdges } from './layeredLayout';
+import { NodeSizes, placeLayers, resolveNodeSizes, stackLayer } from './nodeSizing';
+import { calculateSwimlaneLayout } from './swimlaneLayout';
 
 // Default configuration for layout calculations
 export const defaultLayoutConfig: LayoutConfig = {
@@ -10,6 +13,7 @@ export const defaultLayoutConfig: LayoutConfig = {
   padding: 150,
   spacing: 350,
   isHorizontal: true,
+  algorithm: 'layered',
 };
 
 /**
@@ -48,8 +52,9 @@ export const analyzeGraphStructure = (workflowData: WorkflowData) => {
   );
   
   // If no clear root exists, use nodes with most outgoing connections as start points
+  // (sorting a copy - sorting in place reordered the caller's workflow)
   const startNodes = rootNodes.length > 0 ? rootNodes : 
-    nodes.sort((a, b) => 
+    [...nodes].sort((a, b) => 
       (outgoing.get(b.id)?.length || 0) - (outgoing.get(a.id)?.length || 0)
     ).slice(0, 1);
   
@@ -67,14 +72,24 @@ export const analyzeGraphStructure = (workflowData: WorkflowData) => {
 };
 
 /**
- * Calculates optimal node positions using hierarchical layout
- * Uses BFS to assign levels and arranges nodes for minimal edge crossings
+ * Calculates node positions with the algorithm chosen in `config`
+ * The layered layout is the default; 'bfs' assigns BFS levels and stacks each level in order.
+ * With a `swimlaneKey` the layered layout runs within lanes, whatever the algorithm.
+ * `measured` holds the sizes React Flow measured; other nodes are sized from their labels
  */
 export const calculateSmartLayout = (
   workflowData: WorkflowData,
-  config: LayoutConfig = defaultLayoutConfig
+  config: LayoutConfig = defaultLayoutConfig,
+  measured?: NodeSizes
 ) => {
   const analysis = analyzeGraphStructure(workflowData);
+  const { swimlaneKey } = config;
+  if (swimlaneKey) {
+    return { ...calculateSwimlaneLayout(workflowData, { ...config, swimlaneKey }, measured), analysis };
+  }
+  if ((config.algorithm ?? 'layered') === 'layered') {
+    return { ...calculateLayeredLayout(workflowData, config, measured), analysis };
+  }
   const { nodes, edges, outgoing, startNodes } = analysis;
   
   // Step 1: Level assignment using BFS
@@ -129,38 +144,71 @@ export const calculateSmartLayout = (
     nodesByLevel.get(level)!.push(nodeId);
   });
   
-  const positions = new Map<string, { x: number; y: number }>();
-  
-  // Calculate positions for each level
-  nodesByLevel.forEach((nodeIds, level) => {
-    const levelNodeCount = nodeIds.length;
-    
-    nodeIds.forEach((nodeId, index) => {
-      if (config.isHorizontal) {
-        // Horizontal layout: levels spread left to right
-        const x = config.padding + (level * config.spacing);
-        const y = config.padding + (index * config.spacing) - 
-                  ((levelNodeCount - 1) * config.spacing) / 2 + 
-                  config.workflowHeight / 2;
-        
-        positions.set(nodeId, { x, y });
-      } else {
-        // Vertical layout: levels spread top to bottom
-        const x = config.padding + (index * config.spacing) - 
-                  ((levelNodeCount - 1) * config.spacing) / 2 + 
-                  config.workflowWidth / 2;
-        const y = config.padding + (level * config.spacing);
-        
-        positions.set(nodeId, { x, y });
-      }
-    });
-  });
+  // Each level stacked in order across the flow, by the nodes' sizes
+  const sizes = resolveNodeSizes(workflowData, config, measured);
+  const layers = Array.from({ length: Math.max(0, ...Array.from(nodesByLevel.keys())) + 1 }, (_, level) =>
+    nodesByLevel.get(level) || []
+  );
+  const crossCentres = new Map<string, number>();
+  layers.forEach(layer => stackLayer(layer, sizes, config).forEach((centre, nodeId) => crossCentres.set(nodeId, centre)));
+  const positions = placeLayers(layers, crossCentres, sizes, config);
   
   return {
     positions,
     levels,
     nodesByLevel,
     maxLevel,
+    backEdges: findBackEdges(workflowData),
+    sizes,
     analysis
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Positions stored with the workflow, or null when they don't cover every node
+ */
+export const getStoredPositions = (workflowData: WorkflowData) => {
+  const stored = workflowData.layout?.positions;
+  if (!stored || !workflowData.nodes.every(node => stored[node.id])) {
+    return null;
+  }
+  return new Map(workflowData.nodes.map(node => [node.id, { ...stored[node.id] }]));
+};
+
+/**
+ * Stored positions when the workflow carries a complete layout, otherwise the smart layout
+ * (with any layout settings saved in the workflow applied over `config`, except a
+ * `swimlaneKey` the caller chose). Swimlanes always use the smart layout, since stored
+ * positions don't follow the lanes
+ */
+export const resolveNodeLayout = (
+  workflowData: WorkflowData,
+  config: LayoutConfig = defaultLayoutConfig,
+  measured?: NodeSizes
+) => {
+  const layoutConfig = {
+    ...config,
+    ...workflowData.layout?.config,
+    ...('swimlaneKey' in config && { swimlaneKey: config.swimlaneKey }),
+  };
+  const stored = layoutConfig.swimlaneKey ? null : getStoredPositions(workflowData);
+  if (stored) {
+    return { positions: stored, source: 'stored' as const };
+  }
+  const layout = calculateSmartLayout(workflowData, layoutConfig, measured);
+  return {
+    positions: layout.positions,
+    levels: layout.levels,
+    crossings: 'crossings' in layout ? layout.crossings : undefined,
+    backEdges: layout.backEdges,
+    lanes: 'lanes' in layout ? layout.lanes : undefined,
+    measuredSizes: measured ? workflowData.nodes.filter(node => measured.has(node.id)).length : 0,
+    source: 'smart' as const,
+  };
+};
+
+export const resolveNodePositions = (
+  workflowData: WorkflowData,
+  config: LayoutConfig = defaultLayoutConfig,
+  measured?: NodeSizes
+) => resolveNodeLayout(workflowData, config, measured).positions;
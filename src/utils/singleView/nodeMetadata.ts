@@ -0,0 +1,90 @@
+import {
+  EventMetadata,
+  StatusMetadata,
+  WorkflowNode,
+} from '../../models/singleView/nodeTypes';
+import { PathExpression, resolvePath } from './fieldMapping';
+
+/**
+ * ============= NODE METADATA =============
+ * Reads event/status details from backend payloads and gives typed access to them
+ */
+
+// Aliases for each metadata field, tried in order like profile field mappings
+const eventMetadataAliases: Record<Exclude<keyof EventMetadata, 'trigger'>, PathExpression[]> = {
+  businessEventName: ['businessEventName', 'business_event_name', 'eventName'],
+  focalEntity: ['focalEntity', 'focal_entity'],
+  description: ['description', 'desc', 'summary'],
+  createdEntities: ['createdEntities', 'created_entities'],
+  modifiedEntities: ['modifiedEntities', 'modified_entities'],
+  businessEvents: ['businessEvents', 'business_events'],
+  condition: ['condition', 'guard', 'cond'],
+};
+
+const triggerAliases = {
+  automatic: ['trigger.automatic', 'triggers.automatic', 'triggerAutomatic', 'trigger_automatic'],
+  external: ['trigger.external', 'triggers.external', 'triggerExternal', 'trigger_external'],
+};
+
+const statusMetadataAliases: Record<keyof StatusMetadata, PathExpression[]> = {
+  description: ['description', 'desc', 'summary'],
+};
+
+const firstValue = (source: unknown, paths: PathExpression[]) =>
+  paths.map(path => resolvePath(source, path)).find(value => value !== undefined && value !== null && value !== '');
+
+const asString = (value: unknown) => (value === undefined ? undefined : String(value));
+
+// Accepts arrays as well as comma-separated strings
+const asStringList = (value: unknown) => {
+  if (value === undefined) return undefined;
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map(item => String(item).trim()).filter(Boolean);
+};
+
+const asBoolean = (value: unknown) =>
+  value === undefined ? undefined : value === true || String(value).toLowerCase() === 'true';
+
+// Drops undefined fields so absent metadata stays absent after a save round trip
+const compact = <T extends object>(metadata: T): T | undefined => {
+  const entries = Object.entries(metadata).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) as T : undefined;
+};
+
+/**
+ * Builds typed metadata for a node from a raw metadata object, or undefined when it holds nothing we know
+ */
+export const normalizeNodeMetadata = (
+  type: WorkflowNode['type'],
+  raw: unknown
+): EventMetadata | StatusMetadata | undefined => {
+  if (raw === null || typeof raw !== 'object') return undefined;
+
+  if (type === 'status') {
+    return compact<StatusMetadata>({
+      description: asString(firstValue(raw, statusMetadataAliases.description)),
+    });
+  }
+
+  const automatic = asBoolean(firstValue(raw, triggerAliases.automatic));
+  const external = asBoolean(firstValue(raw, triggerAliases.external));
+
+  return compact<EventMetadata>({
+    businessEventName: asString(firstValue(raw, eventMetadataAliases.businessEventName)),
+    focalEntity: asString(firstValue(raw, eventMetadataAliases.focalEntity)),
+    description: asString(firstValue(raw, eventMetadataAliases.description)),
+    createdEntities: asStringList(firstValue(raw, eventMetadataAliases.createdEntities)),
+    modifiedEntities: asStringList(firstValue(raw, eventMetadataAliases.modifiedEntities)),
+    businessEvents: asStringList(firstValue(raw, eventMetadataAliases.businessEvents)),
+    condition: asString(firstValue(raw, eventMetadataAliases.condition)),
+    trigger: automatic === undefined && external === undefined
+      ? undefined
+      : { automatic: !!automatic, external: !!external },
+  });
+};
+
+export const getEventMetadata = (node: Pick<WorkflowNode, 'type' | 'metadata'>): EventMetadata | undefined =>
+  node.type === 'event' ? (node.metadata as EventMetadata | undefined) : undefined;
+
+export const getStatusMetadata = (node: Pick<WorkflowNode, 'type' | 'metadata'>): StatusMetadata | undefined =>
+  node.type === 'status' ? (node.metadata as StatusMetadata | undefined) : undefined;
@@ -0,0 +1,144 @@
+import { WorkflowData, WorkflowNode, LayoutConfig } from '../../models/singleView/nodeTypes';
+
+/**
+ * ============= NODE SIZES =============
+ * Layouts place nodes by their real size: what React Flow measured once a node rendered, or
+ * an estimate from its label until then. Labels wrap inside the nodes, so a long label makes
+ * an event wider (up to a limit) and then taller, and makes a status circle larger
+ */
+
+type Point = { x: number; y: number };
+
+export interface NodeSize {
+  width: number;
+  height: number;
+}
+
+export type NodeSizes = Map<string, NodeSize>;
+
+// Label text (text-sm, medium weight) and the padding and border around it
+const CHARACTER_WIDTH = 7.5;
+const LINE_HEIGHT = 20;
+const LABEL_INSET = 32;
+const EVENT_MIN_WIDTH = 96;
+const EVENT_MAX_WIDTH = 256;
+const EVENT_MIN_HEIGHT = 64;
+const STATUS_MAX_DIAMETER = 160;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Size a node will probably render at, before React Flow has measured it
+ */
+export const estimateNodeSize = (node: Pick<WorkflowNode, 'type' | 'label'>, config: LayoutConfig): NodeSize => {
+  const textWidth = (node.label || '').length * CHARACTER_WIDTH;
+  if (node.type === 'status') {
+    // A circle of diameter d holds lines about (d - inset) wide, (d - inset) / line height of them
+    const diameter = clamp(LABEL_INSET + Math.sqrt(textWidth * LINE_HEIGHT), config.circleSize, STATUS_MAX_DIAMETER);
+    return { width: diameter, height: diameter };
+  }
+  const width = clamp(textWidth + LABEL_INSET, EVENT_MIN_WIDTH, EVENT_MAX_WIDTH);
+  const lines = Math.max(1, Math.ceil(textWidth / (width - LABEL_INSET)));
+  return { width, height: Math.max(EVENT_MIN_HEIGHT, lines * LINE_HEIGHT + LABEL_INSET) };
+};
+
+/**
+ * Sizes React Flow measured, for nodes that have rendered
+ */
+export const getMeasuredNodeSizes = (
+  nodes: Array<{ id: string; measured?: { width?: number; height?: number } }>
+): NodeSizes => {
+  const sizes: NodeSizes = new Map();
+  nodes.forEach(({ id, measured }) => {
+    if (measured?.width && measured?.height) {
+      sizes.set(id, { width: measured.width, height: measured.height });
+    }
+  });
+  return sizes;
+};
+
+/**
+ * Every node's size: measured where available, estimated otherwise
+ */
+export const resolveNodeSizes = (workflowData: WorkflowData, config: LayoutConfig, measured?: NodeSizes): NodeSizes =>
+  new Map(workflowData.nodes.map(node => [node.id, measured?.get(node.id) ?? estimateNodeSize(node, config)]));
+
+/**
+ * ============= LAYER GEOMETRY =============
+ * Shared by the layouts: a node takes at least a stage slot (stageWidth x stageHeight), nodes
+ * in a layer keep a third of `spacing` between them, and layers are `spacing` apart centre to
+ * centre unless their nodes are too thick for that
+ */
+
+// Space a node takes in its layer
+export const getNodeFootprint = (size: NodeSize, config: LayoutConfig): NodeSize => ({
+  width: Math.max(size.width, config.stageWidth),
+  height: Math.max(size.height, config.stageHeight),
+});
+
+// Gap between neighbouring nodes of a layer
+export const getNodeGap = (config: LayoutConfig) => config.spacing / 3;
+
+// Extent of a footprint across the flow direction, i.e. along a layer
+export const getCrossExtent = (size: NodeSize, config: LayoutConfig) =>
+  config.isHorizontal ? size.height : size.width;
+
+/**
+ * Centres across the flow for one layer stacked in order, centred on 0
+ */
+export const stackLayer = (nodeIds: string[], sizes: NodeSizes, config: LayoutConfig) => {
+  const extents = nodeIds.map(id => getCrossExtent(getNodeFootprint(sizes.get(id)!, config), config));
+  const centres: number[] = [];
+  extents.forEach((extent, index) => {
+    centres.push(index === 0 ? extent / 2 : centres[index - 1] + (extents[index - 1] + extent) / 2 + getNodeGap(config));
+  });
+  const middle = centres.length > 0 ? (centres[centres.length - 1] + extents[extents.length - 1]) / 2 : 0;
+  return new Map(nodeIds.map((id, index) => [id, centres[index] - middle]));
+};
+
+/**
+ * Top-left positions for nodes arranged in layers along the flow
+ * `crossCentres` holds each node's centre across the flow. Nodes are centred on their layer's
+ * line, and the layout is centred across the workflow area (workflowHeight for horizontal
+ * flows, workflowWidth for vertical ones), never closer than `padding` to its edge
+ */
+export const placeLayers = (
+  layers: string[][],
+  crossCentres: Map<string, number>,
+  sizes: NodeSizes,
+  config: LayoutConfig
+) => {
+  const { padding, spacing, isHorizontal } = config;
+  const alongExtent = (size: NodeSize) => (isHorizontal ? size.width : size.height);
+  const footprint = (id: string) => getNodeFootprint(sizes.get(id)!, config);
+
+  // Layer centre lines along the flow
+  const thickness = layers.map(layer => Math.max(0, ...layer.map(id => alongExtent(footprint(id)))));
+  const layerCentres: number[] = [];
+  thickness.forEach((thick, index) => {
+    layerCentres.push(index === 0
+      ? thick / 2
+      : layerCentres[index - 1] + Math.max(spacing, (thickness[index - 1] + thick) / 2 + getNodeGap(config)));
+  });
+
+  // Across the flow: centre the occupied band in the workflow area
+  const nodeIds = layers.flat();
+  const positions = new Map<string, Point>();
+  if (nodeIds.length === 0) return positions;
+  const starts = nodeIds.map(id => crossCentres.get(id)! - getCrossExtent(footprint(id), config) / 2);
+  const ends = nodeIds.map(id => crossCentres.get(id)! + getCrossExtent(footprint(id), config) / 2);
+  const minCross = Math.min(...starts);
+  const band = Math.max(...ends) - minCross;
+  const area = (isHorizontal ? config.workflowHeight : config.workflowWidth) - 2 * padding;
+  const crossOffset = padding + Math.max(0, (area - band) / 2) - minCross;
+
+  layers.forEach((layer, index) => {
+    layer.forEach(id => {
+      const size = sizes.get(id)!;
+      const along = padding + layerCentres[index] - alongExtent(size) / 2;
+      const across = crossOffset + crossCentres.get(id)! - getCrossExtent(size, config) / 2;
+      positions.set(id, isHorizontal ? { x: along, y: across } : { x: across, y: along });
+    });
+  });
+  return positions;
+};
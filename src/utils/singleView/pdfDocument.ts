@@ -0,0 +1,65 @@
+/**
+ * ============= MINIMAL PDF WRITER =============
+ * Just enough PDF 1.4 to put one JPEG on one page - avoids pulling in a PDF library
+ * for diagram exports
+ */
+
+export interface ImagePdfOptions {
+  imageWidth: number;   // Pixels
+  imageHeight: number;
+  pageWidth: number;    // Points
+  pageHeight: number;
+  title?: string;
+}
+
+const encoder = new TextEncoder();
+
+// PDF string literal; parentheses and backslashes must be escaped, non-ASCII dropped
+const pdfString = (value: string) =>
+  `(${value.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1')})`;
+
+export const createImagePdf = (jpeg: Uint8Array, options: ImagePdfOptions): Blob => {
+  const { imageWidth, imageHeight, pageWidth, pageHeight, title } = options;
+  const width = pageWidth.toFixed(2);
+  const height = pageHeight.toFixed(2);
+  const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+  const objects: Array<Array<string | Uint8Array>> = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream',
+    ],
+    [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`],
+    [`<< /Producer (Workflow viewer)${title ? ` /Title ${pdfString(title)}` : ''} >>`],
+  ];
+
+  // Byte offsets of every object feed the cross-reference table
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n%\xff\xff\xff\xff\n');
+  const offsets = objects.map((parts, index) => {
+    const offset = length;
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+    return offset;
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
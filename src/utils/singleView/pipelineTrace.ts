@@ -0,0 +1,338 @@
+import { WorkflowData } from '../../models/singleView/nodeTypes';
+import { ValidationResult } from '../../models/singleView/diagnostics';
+import {
+  PipelineCollectionDiff,
+  PipelineStage,
+  PipelineStageDiff,
+  PipelineStageId,
+  PipelineTrace,
+} from '../../models/singleView/pipeline';
+import { TransformResult } from './workflowDataUtils';
+import { Swimlane } from './swimlaneLayout';
+
+/**
+ * ============= DATA PIPELINE TRACE =============
+ * Records what each step from backend payload to canvas produced, with timings, for the
+ * pipeline inspector. Stage outputs are kept by reference and only while pipeline debugging
+ * is on; snapshots and diffs are only computed when the inspector shows them
+ */
+
+type Point = { x: number; y: number };
+
+// What each stage hands to the next
+export interface PipelineStageOutputs {
+  raw: unknown;
+  transformed: TransformResult;
+  validated: ValidationResult;
+  layout: {
+    positions: Map<string, Point>;
+    levels?: Map<string, number>;  // Only for computed layouts
+    crossings?: number;            // Edge crossings left by the layered layout
+    backEdges?: Set<string>;       // Edges drawn as backward flow
+    measuredSizes?: number;        // Nodes placed by their measured size rather than an estimate
+    lanes?: Swimlane[];            // Swimlane backgrounds, when laid out in lanes
+    edgeRoutes?: Map<string, Point[]>;  // Orthogonal bends per edge, when edges are routed
+    cached?: boolean;              // Reused from the layout cache rather than computed
+    source: 'stored' | 'smart';
+  };
+  reactFlow: {
+    nodes: Array<{ id: string; position: Point }>;
+    edges: Array<{ id: string; source: string; target: string }>;
+  };
+}
+
+export const pipelineStages: Array<{ id: PipelineStageId; label: string }> = [
+  { id: 'raw', label: 'Raw payload' },
+  { id: 'transformed', label: 'Transformed model' },
+  { id: 'validated', label: 'Validated model' },
+  { id: 'layout', label: 'Layout' },
+  { id: 'reactFlow', label: 'React Flow' },
+];
+
+const workflowCounts = (workflow: WorkflowData) => ({
+  nodes: workflow.nodes.length,
+  edges: workflow.edges.length,
+});
+
+/**
+ * Counts and short facts shown in each stage header
+ */
+const describeStage = <K extends PipelineStageId>(
+  id: K,
+  output: PipelineStageOutputs[K]
+): Pick<PipelineStage, 'counts' | 'details'> => {
+  switch (id) {
+    case 'raw': {
+      const raw = output as PipelineStageOutputs['raw'];
+      return { counts: { fields: raw && typeof raw === 'object' ? Object.keys(raw).length : 0 } };
+    }
+    case 'transformed': {
+      const { workflow, report } = output as PipelineStageOutputs['transformed'];
+      return {
+        counts: workflowCounts(workflow),
+        details: {
+          profile: `${report.profile}${report.autoDetected ? ' (detected)' : ''}`,
+          nodes: report.nodes ?? '(none)',
+          edges: report.edges ?? '(none)',
+        },
+      };
+    }
+    case 'validated': {
+      const { data, diagnostics } = output as PipelineStageOutputs['validated'];
+      return {
+        counts: {
+          ...workflowCounts(data),
+          errors: diagnostics.filter(diagnostic => diagnostic.severity === 'error').length,
+          warnings: diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length,
+          repairs: diagnostics.filter(diagnostic => diagnostic.repaired).length,
+        },
+      };
+    }
+    case 'layout': {
+      const { positions, levels, crossings, backEdges, measuredSizes, lanes, edgeRoutes, cached, source } = output as PipelineStageOutputs['layout'];
+      return {
+        counts: {
+          positions: positions.size,
+          ...(levels && { levels: new Set(levels.values()).size }),
+          ...(crossings !== undefined && { crossings }),
+          ...(backEdges && { 'back edges': backEdges.size }),
+          ...(measuredSizes !== undefined && { measured: measuredSizes }),
+          ...(lanes && { lanes: lanes.length }),
+          ...(edgeRoutes && { routes: edgeRoutes.size }),
+        },
+        details: { source, ...(cached && { cache: 'hit' }) },
+      };
+    }
+    default: {
+      const { nodes, edges } = output as PipelineStageOutputs['reactFlow'];
+      return { counts: { nodes: nodes.length, edges: edges.length } };
+    }
+  }
+};
+
+/**
+ * ============= RECORDER =============
+ * One per view. Views run their steps while rendering and record them from an effect, so the
+ * recorder never changes during a render. Nothing is recorded while pipeline debugging is off.
+ * Listeners are notified in a microtask, so stages recorded together cause one update
+ */
+
+// A step's output, or what it threw, with how long it took
+export type MeasuredStep<T> = { output: T; durationMs: number } | { error: unknown; durationMs: number };
+
+export const measureStep = <T>(step: () => T): MeasuredStep<T> => {
+  const startedAt = performance.now();
+  try {
+    return { output: step(), durationMs: performance.now() - startedAt };
+  } catch (error) {
+    return { error, durationMs: performance.now() - startedAt };
+  }
+};
+
+export interface PipelineRecorder {
+  // Runs a step from an effect and records its output and duration; failures are recorded and rethrown
+  run: <K extends PipelineStageId, T extends PipelineStageOutputs[K]>(id: K, step: () => T) => T;
+  // Records a step measured while rendering
+  recordStep: <K extends PipelineStageId>(id: K, step: MeasuredStep<PipelineStageOutputs[K]>) => void;
+  // Records an output that was produced elsewhere, e.g. the payload a repository returned
+  record: <K extends PipelineStageId>(id: K, output: PipelineStageOutputs[K], durationMs?: number) => void;
+  clear: (...ids: PipelineStageId[]) => void;
+  getTrace: () => PipelineTrace;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createPipelineRecorder = (): PipelineRecorder => {
+  let trace: PipelineTrace = {};
+  const listeners = new Set<() => void>();
+  let notifyScheduled = false;
+
+  const update = (next: PipelineTrace) => {
+    trace = next;
+    if (notifyScheduled) return;
+    notifyScheduled = true;
+    queueMicrotask(() => {
+      notifyScheduled = false;
+      listeners.forEach(listener => listener());
+    });
+  };
+
+  const record: PipelineRecorder['record'] = (id, output, durationMs = 0) => {
+    if (!isPipelineDebugEnabled()) return;
+    update({
+      ...trace,
+      [id]: { id, durationMs, ...describeStage(id, output), data: output, recordedAt: Date.now() },
+    });
+  };
+
+  const recordStep: PipelineRecorder['recordStep'] = (id, step) => {
+    if (!isPipelineDebugEnabled()) return;
+    if ('output' in step) {
+      record(id, step.output, step.durationMs);
+      return;
+    }
+    update({
+      ...trace,
+      [id]: {
+        id,
+        durationMs: step.durationMs,
+        counts: {},
+        data: null,
+        error: step.error instanceof Error ? step.error.message : String(step.error),
+        recordedAt: Date.now(),
+      },
+    });
+  };
+
+  return {
+    run: (id, step) => {
+      if (!isPipelineDebugEnabled()) return step();
+      const measured = measureStep(step);
+      recordStep(id, measured);
+      if ('error' in measured) throw measured.error;
+      return measured.output;
+    },
+    recordStep,
+    record,
+    clear: (...ids) => {
+      if (!isPipelineDebugEnabled()) return;
+      const next = { ...trace };
+      ids.forEach(id => delete next[id]);
+      update(next);
+    },
+    getTrace: () => trace,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+/**
+ * ============= STAGE DIFFS =============
+ */
+
+interface Fingerprints {
+  kind: string;  // Only fingerprints of the same kind are comparable
+  items: Map<string, string>;
+}
+
+const positionFingerprints = (entries: Array<[string, Point]>): Fingerprints => ({
+  kind: 'position',
+  items: new Map(entries.map(([id, { x, y }]) => [id, `${Math.round(x)},${Math.round(y)}`])),
+});
+
+const workflowFingerprints = (workflow: WorkflowData) => ({
+  nodes: {
+    kind: 'workflow',
+    items: new Map(workflow.nodes.map(node => [node.id, JSON.stringify(node)])),
+  },
+  edges: {
+    kind: 'workflow',
+    items: new Map(workflow.edges.map(edge => [edge.id, JSON.stringify(edge)])),
+  },
+});
+
+const stageFingerprints = (stage: PipelineStage): { nodes?: Fingerprints; edges?: Fingerprints } => {
+  if (!stage.data) return {};
+  switch (stage.id) {
+    case 'transformed':
+      return workflowFingerprints((stage.data as PipelineStageOutputs['transformed']).workflow);
+    case 'validated':
+      return workflowFingerprints((stage.data as PipelineStageOutputs['validated']).data);
+    case 'layout':
+      return { nodes: positionFingerprints(Array.from((stage.data as PipelineStageOutputs['layout']).positions)) };
+    case 'reactFlow': {
+      const { nodes, edges } = stage.data as PipelineStageOutputs['reactFlow'];
+      return {
+        nodes: positionFingerprints(nodes.map(node => [node.id, node.position])),
+        edges: {
+          kind: 'endpoints',
+          items: new Map(edges.map(edge => [edge.id, `${edge.source}->${edge.target}`])),
+        },
+      };
+    }
+    default:
+      return {};
+  }
+};
+
+const diffCollection = (before: Fingerprints, after: Fingerprints): PipelineCollectionDiff => {
+  const comparable = before.kind === after.kind;
+  const beforeIds = Array.from(before.items.keys());
+  const afterIds = Array.from(after.items.keys());
+  return {
+    added: afterIds.filter(id => !before.items.has(id)),
+    removed: beforeIds.filter(id => !after.items.has(id)),
+    changed: comparable
+      ? afterIds.filter(id => before.items.has(id) && before.items.get(id) !== after.items.get(id))
+      : [],
+  };
+};
+
+/**
+ * Nodes and edges that appeared, disappeared or changed from one stage to the next
+ * Collections only one of the stages describes (e.g. edges in the layout) are left out
+ */
+export const diffPipelineStages = (before: PipelineStage, after: PipelineStage): PipelineStageDiff => {
+  const from = stageFingerprints(before);
+  const to = stageFingerprints(after);
+  return {
+    ...(from.nodes && to.nodes && { nodes: diffCollection(from.nodes, to.nodes) }),
+    ...(from.edges && to.edges && { edges: diffCollection(from.edges, to.edges) }),
+  };
+};
+
+/**
+ * ============= DEBUG SETTING =============
+ * The inspector is only offered while pipeline debugging is on. `?debug=pipeline` turns it on
+ * (`?debug=off` turns it off) and the choice is kept in localStorage; VITE_DEBUG_PIPELINE=true
+ * makes it the default
+ */
+
+const DEBUG_STORAGE_KEY = 'pmf.debug.pipeline';
+const debugListeners = new Set<() => void>();
+let debugEnabled: boolean | undefined;
+
+const storeDebugSetting = (enabled: boolean) => {
+  try {
+    window.localStorage.setItem(DEBUG_STORAGE_KEY, String(enabled));
+  } catch {
+    // Storage can be unavailable (private mode); the setting then lasts for the session
+  }
+};
+
+const readDebugSetting = () => {
+  if (typeof window === 'undefined') return false;
+  const param = new URLSearchParams(window.location.search).get('debug');
+  if (param === 'pipeline' || param === 'off') {
+    storeDebugSetting(param === 'pipeline');
+    return param === 'pipeline';
+  }
+  try {
+    const stored = window.localStorage.getItem(DEBUG_STORAGE_KEY);
+    if (stored !== null) return stored === 'true';
+  } catch {
+    // Fall through to the build default
+  }
+  return import.meta.env.VITE_DEBUG_PIPELINE === 'true';
+};
+
+export const isPipelineDebugEnabled = () => {
+  if (debugEnabled === undefined) {
+    debugEnabled = readDebugSetting();
+  }
+  return debugEnabled;
+};
+
+export const setPipelineDebugEnabled = (enabled: boolean) => {
+  debugEnabled = enabled;
+  storeDebugSetting(enabled);
+  debugListeners.forEach(listener => listener());
+};
+
+export const subscribePipelineDebug = (listener: () => void) => {
+  debugListeners.add(listener);
+  return () => {
+    debugListeners.delete(listener);
+  };
+};
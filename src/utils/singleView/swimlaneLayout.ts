@@ -0,0 +1,166 @@
+import { EventMetadata, LayoutConfig, SwimlaneKey, WorkflowData } from '../../models/singleView/nodeTypes';
+import { calculateLayeredLayout, countLayoutCrossings, findBackEdges } from './layeredLayout';
+import { NodeSizes, getCrossExtent, getNodeFootprint, getNodeGap, placeLayers, stackLayer } from './nodeSizing';
+
+/**
+ * ============= SWIMLANES =============
+ * Groups the workflow into lanes by an event metadata key (focal entity, trigger, condition).
+ * Each event goes in the lane of its value; each status goes in the lane of the node before it,
+ * or of the node after it when nothing comes before. Lanes run along the flow: rows for
+ * horizontal layouts, columns for vertical ones
+ */
+
+type Point = { x: number; y: number };
+
+// A lane's background, in canvas coordinates
+export interface Swimlane {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const swimlaneKeyOptions: Array<{ key: SwimlaneKey; label: string }> = [
+  { key: 'focalEntity', label: 'Focal entity' },
+  { key: 'trigger', label: 'Trigger' },
+  { key: 'condition', label: 'Condition' },
+];
+
+// Lane of nodes without a value for the key
+const UNASSIGNED_LANE = 'Not set';
+
+const getLaneValue = (metadata: EventMetadata | undefined, key: SwimlaneKey) => {
+  switch (key) {
+    case 'trigger':
+      if (!metadata?.trigger) return undefined;
+      return metadata.trigger.automatic ? 'Automatic' : metadata.trigger.external ? 'External' : 'Manual';
+    case 'condition':
+      return metadata?.condition && metadata.condition !== 'None' ? metadata.condition : 'Unconditional';
+    default:
+      return metadata?.[key] || undefined;
+  }
+};
+
+/**
+ * Lane of every node, and the lanes in the order the flow first reaches them
+ */
+export const assignSwimlanes = (workflowData: WorkflowData, key: SwimlaneKey) => {
+  const { nodes, edges } = workflowData;
+  const backEdges = findBackEdges(workflowData);
+  const forward = edges.filter(edge => !backEdges.has(edge.id) && edge.source !== edge.target);
+  const predecessors = new Map(nodes.map(node => [node.id, [] as string[]]));
+  const successors = new Map(nodes.map(node => [node.id, [] as string[]]));
+  forward.forEach(edge => {
+    if (!predecessors.has(edge.target) || !successors.has(edge.source)) return;
+    predecessors.get(edge.target)!.push(edge.source);
+    successors.get(edge.source)!.push(edge.target);
+  });
+
+  // Topological order of the forward edges, so predecessors are assigned first
+  const remaining = new Map(nodes.map(node => [node.id, predecessors.get(node.id)!.length]));
+  const order = nodes.filter(node => remaining.get(node.id) === 0).map(node => node.id);
+  for (let index = 0; index < order.length; index++) {
+    successors.get(order[index])!.forEach(next => {
+      remaining.set(next, remaining.get(next)! - 1);
+      if (remaining.get(next) === 0) order.push(next);
+    });
+  }
+
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const laneOf = new Map<string, string>();
+  order.forEach(id => {
+    const node = byId.get(id)!;
+    const lane = node.type === 'event'
+      ? getLaneValue(node.metadata as EventMetadata | undefined, key) ?? UNASSIGNED_LANE
+      : predecessors.get(id)!.map(previous => laneOf.get(previous)).find(Boolean);
+    if (lane) laneOf.set(id, lane);
+  });
+  // Statuses nothing leads to (the start) join the lane of what follows them
+  [...order].reverse().forEach(id => {
+    if (!laneOf.has(id)) {
+      laneOf.set(id, successors.get(id)!.map(next => laneOf.get(next)).find(Boolean) ?? UNASSIGNED_LANE);
+    }
+  });
+
+  const lanes: string[] = [];
+  order.forEach(id => {
+    const lane = laneOf.get(id)!;
+    if (lane !== UNASSIGNED_LANE && !lanes.includes(lane)) lanes.push(lane);
+  });
+  if (Array.from(laneOf.values()).includes(UNASSIGNED_LANE)) lanes.push(UNASSIGNED_LANE);
+
+  return { laneOf, lanes };
+};
+
+/**
+ * Lane backgrounds around wherever the lanes' nodes are. All lanes span the whole layout along
+ * the flow, with `padding` in front for the lane headers
+ */
+export const getSwimlaneBands = (
+  lanes: string[],
+  laneOf: Map<string, string>,
+  positions: Map<string, Point>,
+  sizes: NodeSizes,
+  config: LayoutConfig
+): Swimlane[] => {
+  const { isHorizontal, padding } = config;
+  const placed = Array.from(positions.keys()).filter(id => sizes.has(id) && laneOf.has(id));
+  if (placed.length === 0) return [];
+
+  const along = (id: string) => (isHorizontal ? positions.get(id)!.x : positions.get(id)!.y);
+  const alongSize = (id: string) => (isHorizontal ? sizes.get(id)!.width : sizes.get(id)!.height);
+  const cross = (id: string) => (isHorizontal ? positions.get(id)!.y : positions.get(id)!.x);
+  const alongStart = Math.min(...placed.map(along)) - padding;
+  const alongEnd = Math.max(...placed.map(id => along(id) + alongSize(id))) + padding / 2;
+  const margin = getNodeGap(config) / 2;
+
+  return lanes.flatMap(lane => {
+    const members = placed.filter(id => laneOf.get(id) === lane);
+    if (members.length === 0) return [];
+    const start = Math.min(...members.map(cross)) - margin;
+    const end = Math.max(...members.map(id => cross(id) + getCrossExtent(sizes.get(id)!, config))) + margin;
+    return [isHorizontal
+      ? { id: lane, label: lane, x: alongStart, y: start, width: alongEnd - alongStart, height: end - start }
+      : { id: lane, label: lane, x: start, y: alongStart, width: end - start, height: alongEnd - alongStart }];
+  });
+};
+
+/**
+ * Layered layout with every lane in its own band across the flow
+ * Layers come from the layered layout; inside a lane, each layer's nodes are stacked in the
+ * layered layout's order, and lanes keep the usual node gap between them
+ */
+export const calculateSwimlaneLayout = (
+  workflowData: WorkflowData,
+  config: LayoutConfig & { swimlaneKey: SwimlaneKey },
+  measured?: NodeSizes
+) => {
+  const layered = calculateLayeredLayout(workflowData, config, measured);
+  const { sizes, nodesByLevel } = layered;
+  const { laneOf, lanes } = assignSwimlanes(workflowData, config.swimlaneKey);
+
+  const layers = Array.from({ length: layered.maxLevel + 1 }, (_, level) => nodesByLevel.get(level) || []);
+  const crossCentres = new Map<string, number>();
+  let laneStart = 0;
+  lanes.forEach(lane => {
+    const stacks = layers.map(layer => stackLayer(layer.filter(id => laneOf.get(id) === lane), sizes, config));
+    const thickness = Math.max(0, ...stacks.map(stack => {
+      const ids = Array.from(stack.keys());
+      return ids.reduce((total, id) => total + getCrossExtent(getNodeFootprint(sizes.get(id)!, config), config), 0) +
+        Math.max(0, ids.length - 1) * getNodeGap(config);
+    }));
+    stacks.forEach(stack => stack.forEach((centre, id) => crossCentres.set(id, laneStart + thickness / 2 + centre)));
+    laneStart += thickness + getNodeGap(config);
+  });
+
+  const positions = placeLayers(layers, crossCentres, sizes, config);
+  return {
+    ...layered,
+    positions,
+    // Re-stacking into lanes changes the order within layers
+    crossings: countLayoutCrossings(workflowData, layered.levels, crossCentres),
+    lanes: getSwimlaneBands(lanes, laneOf, positions, sizes, config),
+  };
+};
@@ -0,0 +1,38 @@
+import { WorkflowData } from '../../models/singleView/nodeTypes';
+
+/**
+ * ============= PER-WORKFLOW CACHE =============
+ * Module-level so every viewer instance shares results for the same source
+ */
+
+interface CacheEntry {
+  data: WorkflowData;
+  fetchedAt: number;
+}
+
+const workflowCache = new Map<string, CacheEntry>();
+
+export const getWorkflowCacheKey = (source: string, workflowId: string, version?: string) =>
+  `${source}::${workflowId}::${version || 'latest'}`;
+
+export const readWorkflowCache = (key: string): CacheEntry | undefined => workflowCache.get(key);
+
+export const writeWorkflowCache = (key: string, data: WorkflowData) => {
+  workflowCache.set(key, { data, fetchedAt: Date.now() });
+};
+
+export const isCacheEntryStale = (entry: CacheEntry, staleTimeMs: number) =>
+  Date.now() - entry.fetchedAt > staleTimeMs;
+
+/**
+ * Drops cached entries for one workflow, or everything when no id is given
+ */
+export const invalidateWorkflowCache = (workflowId?: string) => {
+  if (!workflowId) {
+    workflowCache.clear();
+    return;
+  }
+  Array.from(workflowCache.keys())
+    .filter(key => key.split('::')[1] === workflowId)
+    .forEach(key => workflowCache.delete(key));
+};
@@ -1,130 +1,278 @@
-import { WorkflowData, RawWorkflowData, WorkflowNode, WorkflowEdge } from '../../models/singleView/nodeTypes';
+import { WorkflowData, RawWorkflowData, WorkflowNode, WorkflowEdge, WorkflowSummary } from '../../models/singleView/nodeTypes';
+import {
+  FieldMappingProfile,
+  MappingReport,
+  detectMappingProfile,
+  genericMappingProfile,
+  getMappingProfile,
+  normalizeMappingProfile,
+  recordAlias,
+  resolveArray,
+  resolveField,
+  resolvePath,
+} from './fieldMapping';
+import { ValidationResult, WorkflowDiagnostic } from '../../models/singleView/diagnostics';
+import { ConnectionRules, defaultConnectionRules, findConnectionViolations } from './connectionRules';
+import { normalizeNodeMetadata } from './nodeMetadata';
+
+export interface TransformOptions {
+  // Registered profile name or an inline profile; auto-detected when omitted
+  profile?: string | FieldMappingProfile;
+}
+
+export interface TransformResult {
+  workflow: WorkflowData;
+  report: MappingReport;
+}
+
+/**
+ * Resolves the profile to use, reporting whether it was chosen or auto-detected
+ */
+const selectProfile = (rawData: RawWorkflowData, requested?: string | FieldMappingProfile) => {
+  if (typeof requested === 'object') {
+    return { profile: normalizeMappingProfile(requested), autoDetected: false };
+  }
+  if (requested) {
+    const profile = getMappingProfile(requested);
+    if (!profile) {
+      throw new Error(`Unknown field mapping profile: ${requested}`);
+    }
+    return { profile, autoDetected: false };
+  }
+  return { profile: detectMappingProfile(rawData), autoDetected: true };
+};
 
 /**
  * Transforms raw workflow data from backend APIs into our standardized format
- * Handles various possible field names and structures
+ * Field names come from a mapping profile, and the report records which aliases matched
  */
-export const transformWorkflowData = (rawData: RawWorkflowData): WorkflowData => {
-  console.group('🔄 TRANSFORM WORKFLOW DATA DEBUG');
-  console.log('📋 Input raw data:', JSON.stringify(rawData, null, 2));
-  
-  // Extract workflow data from various possible structures
-  const workflowData = rawData.workflow || rawData.data || rawData;
-  
-  // Extract basic properties with multiple fallback options
-  const id = workflowData.id || 
-             workflowData.workflowId || 
-             workflowData.workflow_id || 
-             workflowData.uuid || 
-             `workflow-${Date.now()}`;
-             
-  const name = workflowData.name || 
-               workflowData.title || 
-               workflowData.workflow_name || 
-               workflowData.workflowName || 
-               'Unnamed Workflow';
-               
-  const description = workflowData.description || 
-                      workflowData.desc || 
-                      workflowData.summary || 
-                      'No description available';
+export const transformWorkflowDataWithReport = (
+  rawData: RawWorkflowData,
+  options: TransformOptions = {}
+): TransformResult => {
+  const { profile, autoDetected } = selectProfile(rawData, options.profile);
+
+  // Extract workflow data from the first root candidate that holds an object
+  const rootPath = profile.root.find(path => {
+    const candidate = resolvePath(rawData, path);
+    return candidate !== null && typeof candidate === 'object';
+  }) ?? null;
+  const workflowData = rootPath !== null ? resolvePath(rawData, rootPath) : rawData;
+
+  const report: MappingReport = {
+    profile: profile.name,
+    autoDetected,
+    root: rootPath,
+    nodes: null,
+    edges: null,
+    workflowFields: {},
+    itemFields: {},
+  };
+
+  const workflowField = (field: keyof FieldMappingProfile['workflow']) => {
+    const { value, path } = resolveField(workflowData, profile.workflow[field]);
+    report.workflowFields[`workflow.${field}`] = path;
+    return value;
+  };
+
+  const id = workflowField('id');
+  const name = workflowField('name');
+  const description = workflowField('description');
+  const updatedAt = workflowField('updatedAt');
 
   /**
-   * Transform nodes from various possible formats
+   * Transform nodes using the profile's node field mappings
    */
-  const transformNodes = (rawNodes: any[]): WorkflowNode[] => {
-    if (!Array.isArray(rawNodes)) {
-      return [];
-    }
-    
-    return rawNodes.map((node, index) => {
-      const id = node.id || node.nodeId || node.node_id || `node-${index}`;
-      const type: 'status' | 'event' = (node.type?.toLowerCase() === 'status' || 
-                   node.nodeType?.toLowerCase() === 'status' || 
-                   node.node_type?.toLowerCase() === 'status') ? 'status' : 'event';
-      const label = node.label || node.name || node.title || node.text || `Node ${index + 1}`;
-      
-      return { id, type, label };
+  const transformNodes = (rawNodes: RawWorkflowData[]): WorkflowNode[] =>
+    rawNodes.map((node, index) => {
+      const field = (name: keyof FieldMappingProfile['node']) => {
+        const { value, path } = resolveField(node, profile.node[name], index);
+        recordAlias(report, `node.${name}`, path);
+        return value ?? '';
+      };
+      const type = field('type') === 'status' ? 'status' : 'event';
+
+      // Metadata comes from the first alias holding an object with known fields
+      const metadataPaths = profile.metadata ?? genericMappingProfile.metadata ?? [];
+      let metadataPath: string | null = null;
+      let metadata: WorkflowNode['metadata'];
+      for (const path of metadataPaths) {
+        metadata = normalizeNodeMetadata(type, resolvePath(node, path));
+        if (metadata) {
+          metadataPath = path;
+          break;
+        }
+      }
+      recordAlias(report, 'node.metadata', metadataPath);
+
+      return {
+        id: field('id'),
+        type,
+        label: field('label'),
+        ...(metadata && { metadata }),
+      };
     });
-  };
 
   /**
-   * Transform edges from various possible formats
+   * Transform edges using the profile's edge field mappings
    */
-  const transformEdges = (rawEdges: any[]): WorkflowEdge[] => {
-    if (!Array.isArray(rawEdges)) {
-      return [];
-    }
-    
-    return rawEdges.map((edge, index) => {
-      const id = edge.id || edge.edgeId || edge.edge_id || `edge-${index}`;
-      const source = edge.source || edge.from || edge.sourceId || edge.source_id || '';
-      const target = edge.target || edge.to || edge.targetId || edge.target_id || '';
-      const label = edge.label || edge.name || edge.title || edge.text || '';
-      
-      return { id, source, target, label };
+  const transformEdges = (rawEdges: RawWorkflowData[]): WorkflowEdge[] =>
+    rawEdges.map((edge, index) => {
+      const field = (name: keyof FieldMappingProfile['edge']) => {
+        const { value, path } = resolveField(edge, profile.edge[name], index);
+        recordAlias(report, `edge.${name}`, path);
+        return value ?? '';
+      };
+      return {
+        id: field('id'),
+        source: field('source'),
+        target: field('target'),
+        label: field('label'),
+      };
     });
-  };
-
-  // Extract nodes and edges with various fallback strategies
-  let nodes: WorkflowNode[] = [];
-  let edges: WorkflowEdge[] = [];
-
-  // Try to find nodes in various possible field names
-  if (workflowData.nodes) {
-    nodes = transformNodes(workflowData.nodes);
-  } else if (workflowData.vertices) {
-    nodes = transformNodes(workflowData.vertices);
-  } else if (workflowData.states) {
-    nodes = transformNodes(workflowData.states);
-  } else if (workflowData.steps) {
-    nodes = transformNodes(workflowData.steps);
-  }
 
-  // Try to find edges in various possible field names
-  if (workflowData.edges) {
-    edges = transformEdges(workflowData.edges);
-  } else if (workflowData.connections) {
-    edges = transformEdges(workflowData.connections);
-  } else if (workflowData.transitions) {
-    edges = transformEdges(workflowData.transitions);
-  } else if (workflowData.links) {
-    edges = transformEdges(workflowData.links);
-  }
+  const rawNodes = resolveArray(workflowData, profile.nodes);
+  const rawEdges = resolveArray(workflowData, profile.edges);
+  report.nodes = rawNodes.path;
+  report.edges = rawEdges.path;
 
-  const result = { id, name, description, nodes, edges };
-  console.log('✅ TRANSFORMATION RESULT:', result);
-  console.groupEnd();
+  const workflow: WorkflowData = {
+    id,
+    name,
+    description,
+    nodes: transformNodes(rawNodes.items),
+    edges: transformEdges(rawEdges.items),
+    updatedAt,
+  };
 
-  return result;
+  return { workflow, report };
 };
 
 /**
- * Validates transformed data and provides sensible defaults
+ * Transforms raw workflow data from backend APIs into our standardized format
+ * Handles various possible field names and structures
  */
-export const validateWorkflowData = (data: WorkflowData): WorkflowData => {
-  const validatedData = { ...data };
-  
-  // Ensure we have at least some nodes for a meaningful workflow
-  if (!validatedData.nodes || validatedData.nodes.length === 0) {
-    validatedData.nodes = [
-      { id: 'default-start', type: 'status', label: 'Start' },
-      { id: 'default-end', type: 'status', label: 'End' }
-    ];
-  }
-  
-  // Initialize edges array if missing
-  if (!validatedData.edges) {
-    validatedData.edges = [];
+export const transformWorkflowData = (rawData: RawWorkflowData, options: TransformOptions = {}): WorkflowData =>
+  transformWorkflowDataWithReport(rawData, options).workflow;
+
+/**
+ * Validates transformed data and reports every problem as a structured diagnostic
+ * Only repairs what would break rendering (duplicate ids, edges without valid endpoints)
+ * and flags each repair, instead of silently changing the workflow
+ */
+export const validateWorkflowData = (
+  data: WorkflowData,
+  connectionRules: ConnectionRules = defaultConnectionRules
+): ValidationResult => {
+  const diagnostics: WorkflowDiagnostic[] = [];
+  const report = (diagnostic: WorkflowDiagnostic) => diagnostics.push(diagnostic);
+
+  // Empty workflows are reported, not padded with invented Start/End nodes
+  const rawNodes = data.nodes || [];
+  if (rawNodes.length === 0) {
+    report({
+      code: 'EMPTY_WORKFLOW',
+      severity: 'warning',
+      message: 'Workflow has no nodes',
+      nodeIds: [],
+      edgeIds: [],
+    });
   }
-  
-  // Remove any edges that reference non-existent nodes
-  const nodeIds = new Set(validatedData.nodes.map(node => node.id));
-  validatedData.edges = validatedData.edges.filter(edge => 
-    nodeIds.has(edge.source) && nodeIds.has(edge.target)
-  );
-  
-  return validatedData;
+
+  // Node ids must be unique for React Flow - keep the first occurrence
+  const nodeIds = new Set<string>();
+  const nodes = rawNodes.filter(node => {
+    if (nodeIds.has(node.id)) {
+      report({
+        code: 'DUPLICATE_NODE_ID',
+        severity: 'error',
+        message: `Duplicate node id "${node.id}" - only the first node "${rawNodes.find(n => n.id === node.id)?.label}" is kept`,
+        nodeIds: [node.id],
+        edgeIds: [],
+        repaired: true,
+      });
+      return false;
+    }
+    nodeIds.add(node.id);
+    return true;
+  });
+
+  nodes
+    .filter(node => !node.label || !node.label.trim())
+    .forEach(node => report({
+      code: 'EMPTY_LABEL',
+      severity: 'warning',
+      message: `Node "${node.id}" has no label`,
+      nodeIds: [node.id],
+      edgeIds: [],
+    }));
+
+  const edgeIds = new Set<string>();
+  const edges: WorkflowEdge[] = [];
+
+  (data.edges || []).forEach(edge => {
+    // transformEdges falls back to '' when no source/target alias matched
+    if (!edge.source || !edge.target) {
+      report({
+        code: 'BLANK_EDGE_ENDPOINT',
+        severity: 'error',
+        message: `Edge "${edge.id}" has no ${!edge.source ? 'source' : 'target'} and was removed`,
+        nodeIds: [edge.source, edge.target].filter(Boolean),
+        edgeIds: [edge.id],
+        repaired: true,
+      });
+      return;
+    }
+
+    const missing = [edge.source, edge.target].filter(id => !nodeIds.has(id));
+    if (missing.length > 0) {
+      report({
+        code: 'DANGLING_EDGE',
+        severity: 'error',
+        message: `Edge "${edge.id}" references missing node${missing.length > 1 ? 's' : ''} ${missing.map(id => `"${id}"`).join(' and ')} and was removed`,
+        nodeIds: [edge.source, edge.target].filter(id => nodeIds.has(id)),
+        edgeIds: [edge.id],
+        repaired: true,
+      });
+      return;
+    }
+
+    let id = edge.id;
+    if (edgeIds.has(id)) {
+      let suffix = 2;
+      while (edgeIds.has(`${edge.id}-${suffix}`)) suffix++;
+      id = `${edge.id}-${suffix}`;
+      report({
+        code: 'DUPLICATE_EDGE_ID',
+        severity: 'error',
+        message: `Duplicate edge id "${edge.id}" (${edge.source} → ${edge.target}) renamed to "${id}"`,
+        nodeIds: [edge.source, edge.target],
+        edgeIds: [id],
+        repaired: true,
+      });
+    }
+    edgeIds.add(id);
+
+    if (edge.source === edge.target) {
+      report({
+        code: 'SELF_LOOP',
+        severity: 'warning',
+        message: `Edge "${id}" loops from "${edge.source}" back to itself`,
+        nodeIds: [edge.source],
+        edgeIds: [id],
+      });
+    }
+
+    edges.push(id === edge.id ? edge : { ...edge, id });
+  });
+
+  const validatedData = { ...data, nodes, edges };
+  diagnostics.push(...findConnectionViolations(validatedData, connectionRules));
+
+  return {
+    data: validatedData,
+    diagnostics,
+  };
 };
 
 export const mockWorkflows: Record<string, WorkflowData> = {
@@ -132,6 +280,7 @@ export const mockWorkflows: Record<string, WorkflowData> = {
     id: "f564cd67-2502-46a1-8494-4f61df616811",
     name: "EBM Version",
     description: "Workflow definition for grouping a set of applications",
+    updatedAt: "2025-08-12T09:30:00Z",
     nodes: [
       { id: "s1", type: "status", label: "Start" },
       { id: "s2", type: "status", label: "Created" },
@@ -153,7 +302,79 @@ export const mockWorkflows: Record<string, WorkflowData> = {
       { id: "e7", source: "s2", target: "ev4", label: "" },
       { id: "e8", source: "ev4", target: "s5", label: "" }
     ]
+  },
+  'mortgage-origination': {
+    id: "mortgage-origination-001",
+    name: "Mortgage Origination Workflow",
+    description: "Complete mortgage loan origination process from application to funding",
+    updatedAt: "2025-09-03T14:05:00Z",
+    nodes: [
+      { id: "app-start", type: "status", label: "Application Start" },
+      { id: "collect-docs", type: "event", label: "Document Collection" },
+      { id: "doc-review", type: "status", label: "Document Review" },
+      { id: "credit-check", type: "event", label: "Credit Verification" },
+      { id: "income-verify", type: "event", label: "Income Verification" },
+      { id: "property-appraisal", type: "event", label: "Property Appraisal" },
+      { id: "underwriting", type: "status", label: "Underwriting Review" },
+      { id: "approval-decision", type: "event", label: "Approval Decision" },
+      { id: "approved", type: "status", label: "Approved" },
+      { id: "rejected", type: "status", label: "Rejected" },
+      { id: "conditions", type: "status", label: "Conditional Approval" },
+      { id: "fulfill-conditions", type: "event", label: "Fulfill Conditions" },
+      { id: "final-approval", type: "event", label: "Final Approval" },
+      { id: "closing", type: "status", label: "Closing Process" },
+      { id: "funding", type: "status", label: "Loan Funded" }
+    ],
+    edges: [
+      { id: "e1", source: "app-start", target: "collect-docs", label: "" },
+      { id: "e2", source: "collect-docs", target: "doc-review", label: "" },
+      { id: "e3", source: "doc-review", target: "credit-check", label: "" },
+      { id: "e4", source: "credit-check", target: "income-verify", label: "" },
+      { id: "e5", source: "income-verify", target: "property-appraisal", label: "" },
+      { id: "e6", source: "property-appraisal", target: "underwriting", label: "" },
+      { id: "e7", source: "underwriting", target: "approval-decision", label: "" },
+      { id: "e8", source: "approval-decision", target: "approved", label: "" },
+      { id: "e9", source: "approval-decision", target: "rejected", label: "" },
+      { id: "e10", source: "approval-decision", target: "conditions", label: "" },
+      { id: "e11", source: "conditions", target: "fulfill-conditions", label: "" },
+      { id: "e12", source: "fulfill-conditions", target: "final-approval", label: "" },
+      { id: "e13", source: "final-approval", target: "approved", label: "" },
+      { id: "e14", source: "approved", target: "closing", label: "" },
+      { id: "e15", source: "closing", target: "funding", label: "" }
+    ]
+  }
+};
+
+/**
+ * Builds a catalog entry from a workflow definition
+ */
+export const summarizeWorkflow = (key: string, workflow: WorkflowData): WorkflowSummary => ({
+  key,
+  id: workflow.id,
+  name: workflow.name,
+  description: workflow.description,
+  nodeCount: workflow.nodes.length,
+  edgeCount: workflow.edges.length,
+  updatedAt: workflow.updatedAt,
+});
+
+/**
+ * Transforms one entry of a backend workflow listing into a catalog entry
+ * Listings may return full definitions or pre-computed counts
+ */
+export const transformWorkflowSummary = (rawSummary: RawWorkflowData): WorkflowSummary => {
+  const { workflow, report } = transformWorkflowDataWithReport(rawSummary);
+  const key = rawSummary.key || rawSummary.slug || workflow.id;
+
+  if (report.nodes !== null) {
+    return summarizeWorkflow(key, workflow);
   }
+
+  return {
+    ...summarizeWorkflow(key, workflow),
+    nodeCount: Number(rawSummary.nodeCount ?? rawSummary.node_count ?? 0),
+    edgeCount: Number(rawSummary.edgeCount ?? rawSummary.edge_count ?? 0),
+  };
 };
 
 export const defaultWorkflow = 'ebm-version';
\ No newline at end of file
@@ -0,0 +1,210 @@
+import { RawWorkflowData } from '../../models/singleView/nodeTypes';
+
+/**
+ * ============= WORKFLOW HTTP CLIENT =============
+ * Thin fetch wrapper used to load workflow definitions from any HTTP endpoint
+ * (real backend or a local mock server), with retries and exponential backoff
+ */
+
+export interface WorkflowHttpConfig {
+  baseUrl: string;          // e.g. http://localhost:4000/api - empty disables fetching
+  retries: number;          // Retry attempts after the first failed request
+  retryDelayMs: number;     // Initial backoff delay, doubled on every retry
+  maxRetryDelayMs: number;  // Upper bound for a single backoff delay
+  staleTimeMs: number;      // Cached entries older than this are revalidated
+  headers?: Record<string, string>;
+}
+
+export const defaultWorkflowHttpConfig: WorkflowHttpConfig = {
+  baseUrl: import.meta.env.VITE_WORKFLOW_API_BASE_URL ?? '',
+  retries: 3,
+  retryDelayMs: 500,
+  maxRetryDelayMs: 8000,
+  staleTimeMs: 30_000,
+};
+
+/**
+ * Error raised for non-2xx responses so callers can inspect the status code
+ */
+export class WorkflowHttpError extends Error {
+  status: number;
+  url: string;
+
+  constructor(status: number, url: string, message?: string) {
+    super(message || `Request to ${url} failed with status ${status}`);
+    this.name = 'WorkflowHttpError';
+    this.status = status;
+    this.url = url;
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Client errors will not succeed on retry, except timeouts and rate limiting
+ */
+const isRetryable = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  if (error instanceof WorkflowHttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  // Network failures surface as TypeError from fetch
+  return true;
+};
+
+/**
+ * Waits for the given delay, rejecting early if the request is cancelled
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Exponential backoff with a little jitter so parallel clients don't retry in lockstep
+ */
+export const getRetryDelay = (attempt: number, config: Pick<WorkflowHttpConfig, 'retryDelayMs' | 'maxRetryDelayMs'>) => {
+  const exponential = config.retryDelayMs * Math.pow(2, attempt);
+  const jitter = Math.random() * config.retryDelayMs * 0.25;
+  return Math.min(config.maxRetryDelayMs, exponential + jitter);
+};
+
+/**
+ * Fetches JSON from a URL, retrying transient failures with backoff
+ */
+export const fetchJsonWithRetry = async <T>(
+  url: string,
+  config: WorkflowHttpConfig,
+  signal?: AbortSignal,
+  init: RequestInit = {}
+): Promise<T> => {
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal,
+        headers: { Accept: 'application/json', ...config.headers, ...init.headers },
+      });
+      if (!response.ok) {
+        throw new WorkflowHttpError(response.status, url);
+      }
+      // Write requests (PUT/DELETE) may answer without a body
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    } catch (error) {
+      if (attempt >= config.retries || !isRetryable(error)) {
+        throw error;
+      }
+      await sleep(getRetryDelay(attempt, config), signal);
+      attempt++;
+    }
+  }
+};
+
+export const joinUrl = (baseUrl: string, path: string) =>
+  `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+
+export const isNotFoundError = (error: unknown): boolean =>
+  error instanceof WorkflowHttpError && error.status === 404;
+
+/**
+ * Loads a single workflow definition:
+ * GET {baseUrl}/workflows/{workflowId} or GET {baseUrl}/workflows/{workflowId}/versions/{version}
+ */
+export const fetchWorkflowDefinition = (
+  workflowId: string,
+  config: WorkflowHttpConfig,
+  signal?: AbortSignal,
+  version?: string
+): Promise<RawWorkflowData> => {
+  const path = `workflows/${encodeURIComponent(workflowId)}` +
+    (version ? `/versions/${encodeURIComponent(version)}` : '');
+  return fetchJsonWithRetry<RawWorkflowData>(joinUrl(config.baseUrl, path), config, signal);
+};
+
+/**
+ * Lists available workflows: GET {baseUrl}/workflows
+ * Accepts a bare array or an envelope ({ workflows }, { data } or { items })
+ */
+export const fetchWorkflowList = async (
+  config: WorkflowHttpConfig,
+  signal?: AbortSignal
+): Promise<RawWorkflowData[]> => {
+  const body = await fetchJsonWithRetry<RawWorkflowData | RawWorkflowData[]>(
+    joinUrl(config.baseUrl, 'workflows'),
+    config,
+    signal
+  );
+  if (Array.isArray(body)) return body;
+  const list = body?.workflows || body?.data || body?.items;
+  return Array.isArray(list) ? list : [];
+};
+
+/**
+ * Lists saved versions of a workflow: GET {baseUrl}/workflows/{workflowId}/versions
+ */
+export const fetchWorkflowVersions = async (
+  workflowId: string,
+  config: WorkflowHttpConfig,
+  signal?: AbortSignal
+): Promise<RawWorkflowData[]> => {
+  const body = await fetchJsonWithRetry<RawWorkflowData | RawWorkflowData[]>(
+    joinUrl(config.baseUrl, `workflows/${encodeURIComponent(workflowId)}/versions`),
+    config,
+    signal
+  );
+  if (Array.isArray(body)) return body;
+  const list = body?.versions || body?.data || body?.items;
+  return Array.isArray(list) ? list : [];
+};
+
+/**
+ * Creates or replaces a workflow: PUT {baseUrl}/workflows/{workflowId}
+ */
+export const saveWorkflowDefinition = (
+  workflowId: string,
+  workflow: RawWorkflowData,
+  config: WorkflowHttpConfig,
+  signal?: AbortSignal
+): Promise<RawWorkflowData | undefined> =>
+  fetchJsonWithRetry<RawWorkflowData | undefined>(
+    joinUrl(config.baseUrl, `workflows/${encodeURIComponent(workflowId)}`),
+    config,
+    signal,
+    {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(workflow),
+    }
+  );
+
+/**
+ * Removes a workflow: DELETE {baseUrl}/workflows/{workflowId}
+ */
+export const deleteWorkflowDefinition = async (
+  workflowId: string,
+  config: WorkflowHttpConfig,
+  signal?: AbortSignal
+): Promise<void> => {
+  await fetchJsonWithRetry<unknown>(
+    joinUrl(config.baseUrl, `workflows/${encodeURIComponent(workflowId)}`),
+    config,
+    signal,
+    { method: 'DELETE' }
+  );
+};
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_WORKFLOW_API_BASE_URL?: string;
+  readonly VITE_WORKFLOW_REPOSITORY?: 'memory' | 'localStorage' | 'indexedDB' | 'rest';
+  readonly VITE_DEBUG_PIPELINE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,20 @@
+import { LayoutWorkerRequest, LayoutWorkerResponse, calculateWorkerLayout } from '../utils/layoutWorkerProtocol';
+
+/**
+ * ============= LAYOUT WORKER =============
+ * Runs `calculateWorkerLayout` (the smart layout and edge routes) off the main thread, one
+ * request at a time
+ */
+
+const respond = (response: LayoutWorkerResponse) => self.postMessage(response);
+
+self.addEventListener('message', (event: MessageEvent<LayoutWorkerRequest>) => {
+  const { id, workflowData, config, measured } = event.data;
+  const startedAt = performance.now();
+  try {
+    const layout = calculateWorkerLayout(workflowData, config, measured);
+    respond({ type: 'result', id, layout, durationMs: performance.now() - startedAt });
+  } catch (error) {
+    respond({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+});